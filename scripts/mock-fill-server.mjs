@@ -0,0 +1,43 @@
+// Local stand-in for the fill-estimate bridge. Point the app's Cloud scanner at
+// http://<this machine>:8787/api/fill-estimate to exercise the HTTP path offline.
+//   MOCK_PERCENT=40   pin every reply to 40% full
+//   MOCK_STATUS=429   reply with this status instead (e.g. to test rate limiting)
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT || 8787);
+const PINNED = process.env.MOCK_PERCENT === undefined ? null : Number(process.env.MOCK_PERCENT);
+const STATUS = Number(process.env.MOCK_STATUS || 200);
+
+function percentFor(imageDataUrl) {
+  let hash = 0;
+  for (let i = 0; i < imageDataUrl.length; i += 97) hash = (hash * 31 + imageDataUrl.charCodeAt(i)) >>> 0;
+  return 10 + (hash % 81);
+}
+
+createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  if (req.method === "OPTIONS") return res.writeHead(204).end();
+  if (req.method !== "POST") return res.writeHead(405).end();
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    res.setHeader("Content-Type", "application/json");
+    if (STATUS !== 200) {
+      if (STATUS === 429) res.setHeader("Retry-After", "5");
+      return res.writeHead(STATUS).end(JSON.stringify({ error: `mock status ${STATUS}` }));
+    }
+    let imageDataUrl = "";
+    try {
+      imageDataUrl = String(JSON.parse(body).imageDataUrl || "");
+    } catch {
+      return res.writeHead(400).end(JSON.stringify({ error: "expected JSON { imageDataUrl }" }));
+    }
+    const percent_full = PINNED ?? percentFor(imageDataUrl);
+    // Pretend the bottle spans 10–90% of the photo height.
+    const water_line = { y: 0.9 - (percent_full / 100) * 0.8, top: 0.1, bottom: 0.9 };
+    console.log(`fill-estimate: ${percent_full}% (${imageDataUrl.length} chars)`);
+    res.writeHead(200).end(JSON.stringify({ percent_full, confidence: 0.8, water_line }));
+  });
+}).listen(PORT, () => console.log(`mock fill-estimate server on http://localhost:${PORT}/api/fill-estimate`));
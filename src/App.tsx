@@ -1,8 +1,129 @@
 import React, { useEffect, useId, useMemo, useRef, useState } from "react";
 import DebloatTeardrop from "./components/DebloatTeardrop";
+import BottleLibraryCard from "./components/BottleLibraryCard";
+import BottleShapePreview from "./components/BottleShapePreview";
+import ImportShapeSheet from "./components/ImportShapeSheet";
+import DataBackupCard from "./components/DataBackupCard";
+import BeverageBreakdown from "./components/BeverageBreakdown";
+import BeverageFactorsCard from "./components/BeverageFactorsCard";
+import DayEditorSheet from "./components/DayEditorSheet";
+import FillEstimatorCard from "./components/FillEstimatorCard";
+import GoalScheduleCard from "./components/GoalScheduleCard";
+import PacingCard from "./components/PacingCard";
+import QuickAddSheet from "./components/QuickAddSheet";
+import WhenPicker from "./components/WhenPicker";
+import ActivityTimeline from "./components/ActivityTimeline";
+import UnitsCard from "./components/UnitsCard";
+import SafetyLimitCard from "./components/SafetyLimitCard";
+import WeekScheduleCard from "./components/WeekScheduleCard";
+import ScanHistorySheet from "./components/ScanHistorySheet";
+import ScanReviewSheet from "./components/ScanReviewSheet";
+import { type FillEstimate, type FillEstimatorKind, RateLimitError, createFillEstimator, isRetryableScanError } from "./scan/fillEstimators";
+import {
+  type QueuedScan,
+  clearScanQueue,
+  dropOldestQueuedScan,
+  enqueueScan,
+  isQuotaError,
+  isScanSuperseded,
+  loadScanQueue,
+  markScanRead,
+  markScanRetryFailed,
+  nextDueScan,
+  removeQueuedScan,
+  saveScanQueue,
+} from "./scan/scanQueue";
+import { type ScanRecord, appendScanRecord, clearScanHistory, loadScanHistory, saveScanHistory } from "./scan/scanHistory";
+import { BOTTLE_SHAPES, type BottleShape, CLASSIC_BOTTLE_PATHS, bottleShapeById, shapeOptions } from "./bottles/bottleShapes";
+import { MAX_CUSTOM_SHAPES, addCustomShape, removeCustomShape } from "./bottles/customShapes";
+import { gtinFromCode, learnLabel, lookupBottle } from "./bottles/bottleCatalogue";
+import { type PacingPoint, expectedShare, learnPacing, pacingPoints } from "./state/pacing";
+import { decodeEan13, readBarcode } from "./scan/barcode";
+import type { Pixels } from "./scan/fillAnalysis";
+import { fractionForHeight, heightForFraction, peekShapeAssets, useShapeAssets, volumeProfile } from "./bottles/shapeAssets";
+import {
+  activeBottle,
+  addBottle,
+  bottleFill,
+  refillAllBottles,
+  removeBottle,
+  savedBottles,
+  switchActiveBottle,
+  updateBottle,
+} from "./bottles/bottleLibrary";
 import { Capacitor } from "@capacitor/core";
 import { Haptics, ImpactStyle } from "@capacitor/haptics";
 import { LocalNotifications } from "@capacitor/local-notifications";
+import {
+  type AppState,
+  type DailyLogEntry,
+  type HistoryEntry,
+  type Meridiem,
+  STORAGE_KEY,
+  emptyWindows,
+  makeDefaultState,
+  todayGoalML,
+  totalConsumedFromState,
+} from "./state/appState";
+import { clockTimeOn, dayKey, dayKeyByWake, msUntilNextWake, prevDayKeyByWake, wakeBoundaryMins } from "./state/dayKeys";
+import { sleepTimes, wakeTimes, windowForDayKey } from "./state/weekSchedule";
+import { goalForDayKey, makeDefaultGoalOverrides, pruneGoalOverrides, setDayGoal, setWeekdayGoal } from "./state/goalSchedule";
+import { type BeverageId, hydrationML } from "./state/beverages";
+import { addQuickAddPreset, recentQuickAdds, removeQuickAddPreset } from "./state/quickAdd";
+import {
+  type ClockFormat,
+  formatClock,
+  formatVolume,
+  formatVolumeRatio,
+  formatVolumeShort,
+  kgToUnit,
+  parseVolumeInput,
+  sanitizeVolumeInput,
+  unitToKg,
+  unitToMl,
+  volumeInputValue,
+  volumeUnitLabel,
+} from "./state/units";
+import {
+  MAX_REDO,
+  type RedoEntry,
+  historyWithoutDrink,
+  snapshotOf,
+  timelineEvents,
+  undoSwitchedStep,
+  withoutDrink,
+} from "./state/undo";
+import {
+  type DrinkEvent,
+  type DrinkSource,
+  MEANINGFUL_SIP_ML,
+  appendDrinkEvent,
+  applyDayEdit,
+  currentBottleId,
+  deriveDailyLogEntry,
+  deriveDayTotals,
+  findDrinkEvent,
+  hydrationWindowBounds,
+  journalDayOrSeed,
+  newDrinkEventId,
+  pickJournalDays,
+  rhythmWindowIndexAt,
+} from "./state/journal";
+import { loadPersistedState, migrateState } from "./state/migrations";
+import { applyImport } from "./state/backup";
+import { type LedgerAction, clearLegacyLedgerKeys, ledgerReducer, makeDefaultLedger } from "./notifications/ledger";
+import {
+  BEHIND_NUDGE_ID,
+  LATE_BEHIND_NUDGE_ID,
+  MORNING_RESET_ID,
+  PRAISE_ID,
+  morningResetToken,
+  planBehindNudge,
+  planLateBehindNudge,
+  planMorningReset,
+  planPraise,
+  shouldShowMorningReset,
+} from "./notifications/schedule";
 
 // Water Bottle Tracker — realistic onboarding + simple main UI (React + Tailwind)
 // Workflow:
@@ -17,63 +138,10 @@ import { LocalNotifications } from "@capacitor/local-notifications";
 // 8) Summary
 // Main screen: bottle shape, title question, scroll wheel (dial), progress bar
 
-const STORAGE_KEY = "wbt_react_v3";
-
-const FILL_ESTIMATE_URL =
-  (import.meta.env.VITE_FILL_ESTIMATE_URL as string) ||
-  "https://onebottle-ai-bridge.vercel.app/api/fill-estimate";
-
 function clamp(n: number, a: number, b: number) {
   return Math.max(a, Math.min(b, n));
 }
 
-class RateLimitError extends Error {
-  retryAfterMs?: number;
-  constructor(message: string, retryAfterMs?: number) {
-    super(message);
-    this.name = "RateLimitError";
-    this.retryAfterMs = retryAfterMs;
-  }
-}
-
-function parseRetryAfterToMs(retryAfter: string | null) {
-  if (!retryAfter) return null as number | null;
-  const seconds = Number(retryAfter);
-  if (Number.isFinite(seconds) && seconds >= 0) return Math.round(seconds * 1000);
-  const asDate = Date.parse(retryAfter);
-  if (!Number.isNaN(asDate)) return Math.max(0, asDate - Date.now());
-  return null;
-}
-
-function sleep(ms: number, signal?: AbortSignal) {
-  return new Promise<void>((resolve, reject) => {
-    const t = window.setTimeout(() => {
-      cleanup();
-      resolve();
-    }, ms);
-
-    const onAbort = () => {
-      window.clearTimeout(t);
-      cleanup();
-      reject(new DOMException("Aborted", "AbortError"));
-    };
-
-    const cleanup = () => {
-      if (signal) signal.removeEventListener("abort", onAbort);
-    };
-
-    if (signal) {
-      if (signal.aborted) {
-        window.clearTimeout(t);
-        cleanup();
-        reject(new DOMException("Aborted", "AbortError"));
-        return;
-      }
-      signal.addEventListener("abort", onAbort);
-    }
-  });
-}
-
 function fileToDataUrl(file: File) {
   return new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
@@ -112,105 +180,16 @@ function downscaleDataUrl(dataUrl: string, maxW = 1200, quality = 0.85) {
   });
 }
 
-async function estimatePercentFull(imageDataUrl: string, signal?: AbortSignal) {
-  const MAX_ATTEMPTS = 2;
-  let lastWaitMs: number | undefined;
-
-  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    const res = await fetch(FILL_ESTIMATE_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ imageDataUrl }),
-      signal,
-    });
-
-    const raw = await res.text();
-    let data: unknown = null;
-    try {
-      data = raw ? JSON.parse(raw) : null;
-    } catch {
-      // non-JSON response (still useful for debugging)
-    }
-    const obj = (typeof data === "object" && data !== null) ? (data as Record<string, unknown>) : null;
-
-    if (res.status === 429) {
-      const retryAfterMs = parseRetryAfterToMs(res.headers.get("retry-after"));
-      const backoffMs = Math.min(20000, 1200 * Math.pow(2, attempt - 1));
-      const jitterMs = Math.floor(Math.random() * 450);
-      const waitMs = (retryAfterMs != null && retryAfterMs > 0) ? retryAfterMs : backoffMs + jitterMs;
-      lastWaitMs = waitMs;
-
-      // If we still have attempts left, wait and retry.
-      if (attempt < MAX_ATTEMPTS) {
-        await sleep(waitMs, signal);
-        continue;
-      }
-
-      // Final attempt still rate-limited.
-      throw new RateLimitError(
-        `Scan failed (429) - Gemini API rate limit. Please try again in ${Math.max(1, Math.ceil(waitMs / 1000))}s.`,
-        waitMs
-      );
-    }
-
-    if (!res.ok) {
-      const msgFromApi = obj?.error || obj?.message;
-      const snippet = typeof raw === "string" ? raw.slice(0, 220) : "";
-      throw new Error(
-        `Scan failed (${res.status}) ${msgFromApi ? `- ${msgFromApi}` : snippet ? `- ${snippet}` : ""}`.trim()
-      );
-    }
-
-    const percentFull = typeof obj?.percent_full === "number" ? obj.percent_full : null;
-    const fillFrac = typeof obj?.fill_fraction === "number" ? obj.fill_fraction : null;
-    if (percentFull != null) return clamp(percentFull, 0, 100);
-    if (fillFrac != null) return clamp(fillFrac * 100, 0, 100);
-    throw new Error("Scan returned an unexpected response shape");
-  }
-
-  // Should be unreachable, but keeps TS happy.
-  throw new RateLimitError("Scan failed (rate limited). Please try again.", lastWaitMs);
+// Scans of the active bottle (or the one a saved photo was taken of) fit its silhouette
+// when running on-device.
+function fillEstimatorFor(s: AppState, shapeId = activeBottle(s)?.shapeId) {
+  return createFillEstimator(s.fillEstimator, bottleShapeById(shapeId, s.customShapes));
 }
 
-function dayKey(d: Date = new Date()) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${y}-${m}-${dd}`;
-}
-
-
 function ceilDiv(a: number, b: number) {
   return b <= 0 ? 0 : Math.ceil(a / b);
 }
 
-function wakeBoundaryMins(wakeMins: number) {
-  const m = Math.round(wakeMins);
-  return ((m % 1440) + 1440) % 1440;
-}
-
-function dayKeyByWake(d: Date = new Date(), wakeMins: number) {
-  const boundary = wakeBoundaryMins(wakeMins);
-  const shifted = new Date(d.getTime() - boundary * 60 * 1000);
-  return dayKey(shifted);
-}
-
-function prevDayKeyByWake(d: Date = new Date(), wakeMins: number) {
-  const boundary = wakeBoundaryMins(wakeMins);
-  const shifted = new Date(d.getTime() - boundary * 60 * 1000);
-  shifted.setDate(shifted.getDate() - 1);
-  return dayKey(shifted);
-}
-
-function msUntilNextWake(d: Date = new Date(), wakeMins: number) {
-  const boundary = wakeBoundaryMins(wakeMins);
-  const next = new Date(d);
-  next.setHours(0, 0, 0, 0);
-  next.setMinutes(boundary, 0, 0);
-  if (d.getTime() >= next.getTime()) next.setDate(next.getDate() + 1);
-  return Math.max(0, next.getTime() - d.getTime());
-}
-
 function formatCountdown(ms: number) {
   const total = Math.max(0, Math.floor(ms / 1000));
   const h = Math.floor(total / 3600);
@@ -242,7 +221,7 @@ function minutesSinceMidnight(d: Date) {
   return d.getHours() * 60 + d.getMinutes();
 }
 
-function expectedPctAt(d: Date, wakeMins: number, sleepMins: number) {
+function expectedPctAt(d: Date, wakeMins: number, sleepMins: number, pacing: PacingPoint[]) {
   const start = clamp(Math.round(wakeMins), 0, 1439);
   let end = clamp(Math.round(sleepMins), 0, 2879);
   let now = minutesSinceMidnight(d);
@@ -253,27 +232,11 @@ function expectedPctAt(d: Date, wakeMins: number, sleepMins: number) {
 
   const duration = clamp(end - start, 6 * 60, 20 * 60);
   const progress = duration > 0 ? (now - start) / duration : 1;
-  const checkpoints: Array<[number, number]> = [
-    [0.25, 0.3],
-    [0.5, 0.55],
-    [0.7, 0.75],
-    [0.87, 0.9],
-    [1, 1],
-  ];
-  let prev: [number, number] = [0, 0];
-  for (const [t, pct] of checkpoints) {
-    if (progress <= t) {
-      const span = t - prev[0];
-      const ratio = span ? (progress - prev[0]) / span : 0;
-      return prev[1] + (pct - prev[1]) * ratio;
-    }
-    prev = [t, pct];
-  }
-  return 1;
+  return expectedShare(progress, pacing);
 }
 
-function expectedMlAt(goalML: number, d: Date, wakeMins: number, sleepMins: number) {
-  return Math.round(goalML * expectedPctAt(d, wakeMins, sleepMins));
+function expectedMlAt(goalML: number, d: Date, wakeMins: number, sleepMins: number, pacing: PacingPoint[]) {
+  return Math.round(goalML * expectedPctAt(d, wakeMins, sleepMins, pacing));
 }
 
 function timeParts(mins: number): { h12: number; min: number; ampm: Meridiem; dayOffset: number } {
@@ -295,10 +258,6 @@ function toMinutes(h12: number, min: number, ampm: Meridiem) {
 }
 
 
-function getNowMinutes(d: Date = new Date()) {
-  return d.getHours() * 60 + d.getMinutes();
-}
-
 function getTodayKey(d: Date = new Date()) {
   return dayKey(d);
 }
@@ -330,6 +289,23 @@ function normalizeHourInput(rawValue: string) {
   return h;
 }
 
+// Hour field text for a 12-hour value, shown on the chosen clock ("" while empty).
+function hourInputText(h12: number, ampm: Meridiem, clock: ClockFormat) {
+  if (!h12) return "";
+  return String(clock === "24h" ? (h12 % 12) + (ampm === "PM" ? 12 : 0) : h12);
+}
+
+// Reads the hour field back as a 12-hour value. On a 24-hour clock it carries AM/PM too.
+function hourFromInput(raw: string, clock: ClockFormat, ampm: Meridiem): { h12: number; ampm: Meridiem; text: string } {
+  if (clock === "12h") {
+    const h12 = normalizeHourInput(raw);
+    return { h12, ampm, text: String(h12) };
+  }
+  const n = Number(raw);
+  const h24 = Number.isFinite(n) ? clamp(Math.round(n), 0, 23) : 0;
+  return { h12: h24 % 12 === 0 ? 12 : h24 % 12, ampm: h24 >= 12 ? "PM" : "AM", text: String(h24) };
+}
+
 function normalizeMinuteInput(rawValue: string) {
   const n = Number(rawValue);
   if (!Number.isFinite(n)) return 0;
@@ -337,20 +313,9 @@ function normalizeMinuteInput(rawValue: string) {
 }
 
 
-function formatClock12h(d: Date) {
-  const h24 = d.getHours();
-  const min = d.getMinutes();
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = h24 % 12 === 0 ? 12 : h24 % 12;
-  return `${h12}:${String(min).padStart(2, "0")} ${ampm}`;
-}
-
-function shapeClasses(shape: string) {
-  switch (shape) {
-    case "tall":
-      return "w-[120px]";
+function shapeClasses(shapeId: string) {
+  switch (shapeId) {
     case "wide":
-      return "w-[140px]";
     case "tumbler":
       return "w-[140px]";
     default:
@@ -358,19 +323,6 @@ function shapeClasses(shape: string) {
   }
 }
 
-function bottlePath(shape: string) {
-  switch (shape) {
-    case "tall":
-      return "M62 8 C56 10 54 18 54 26 L54 42 C43 48 38 61 38 75 L38 270 C38 286 49 294 70 294 C91 294 102 286 102 270 L102 75 C102 61 97 48 86 42 L86 26 C86 18 84 10 78 8 Z";
-    case "wide":
-      return "M55 8 C50 10 48 18 48 26 L48 46 C38 54 32 68 32 85 L32 268 C32 286 48 294 70 294 C92 294 108 286 108 268 L108 85 C108 68 102 54 92 46 L92 26 C92 18 90 10 85 8 Z";
-    case "tumbler":
-      return "M40 18 C40 12 45 8 52 8 L88 8 C95 8 100 12 100 18 L100 30 C100 36 95 40 88 40 L86 40 L98 276 C99 289 88 294 70 294 C52 294 41 289 42 276 L54 40 L52 40 C45 40 40 36 40 30 Z";
-    default:
-      return "M58 8 C53 10 51 18 51 26 L51 44 C41 52 36 65 36 80 L36 270 C36 286 49 294 70 294 C91 294 104 286 104 270 L104 80 C104 65 99 52 89 44 L89 26 C89 18 87 10 82 8 Z";
-  }
-}
-
 function BottleVector({
   shape,
   level,
@@ -386,7 +338,7 @@ function BottleVector({
   fillColor = "rgba(10,132,255,0.35)",
   edgeColor = "rgba(10,132,255,0.65)",
 }: {
-  shape: string;
+  shape: BottleShape;
   level: number;
   className?: string;
   style?: React.CSSProperties;
@@ -401,23 +353,32 @@ function BottleVector({
   edgeColor?: string;
 }) {
   const id = useId();
-  const d = bottlePath(shape);
+  // Until an external shape has loaded, draw the standard bottle in its place.
+  const assets = useShapeAssets(shape) ?? peekShapeAssets(BOTTLE_SHAPES[0]);
+  const outlineDs = assets?.outlineDs ?? [CLASSIC_BOTTLE_PATHS.standard];
+  const cavityD = assets?.cavityD ?? CLASSIC_BOTTLE_PATHS.standard;
+  const offset = assets?.cavityOffset ?? { x: 0, y: 0 };
+  const profile = assets?.profile ?? null;
+  const { x: X0, y: Y0, width: W, height: H } = assets?.viewBox ?? { x: 0, y: 0, width: 140, height: 300 };
   const pct = clamp(level, 0, 1);
   const targetPct = clamp(targetLevel ?? pct, 0, 1);
 
-  const H = 300;
-  const W = 140;
-  const y = H - pct * H;
+  // Levels are volumes; the shape's profile says how high each one sits in the box.
+  // Sizes are authored for a 300-unit-tall box and scale with it.
+  const k = H / 300;
+  const surfaceY = (frac: number) => Y0 + H - heightForFraction(profile, frac) * H;
+  const y = surfaceY(pct);
   const edgePct = clamp(pct, 0.07, 0.95);
-  const edgeY = H - edgePct * H;
-  const yTarget = clamp(H - targetPct * H, 6, H - 6);
+  const edgeY = surfaceY(edgePct);
+  const yTarget = clamp(surfaceY(targetPct), Y0 + 6 * k, Y0 + H - 6 * k);
+  const meniscusH = (isMeniscusDragging ? 18 : 6) * k;
   const targetStroke = "rgba(255,255,255,0.35)";
 
   return (
-    <svg viewBox="0 0 140 300" className={`h-[300px] ${className || ""}`} style={style} aria-hidden="true">
+    <svg viewBox={`${X0} ${Y0} ${W} ${H}`} className={`h-[300px] ${className || ""}`} style={style} aria-hidden="true">
       <defs>
         <clipPath id={`clip-${id}`}>
-          <path d={d} />
+          <path d={cavityD} transform={`translate(${offset.x} ${offset.y})`} />
         </clipPath>
         <style>{`
           @keyframes fadeOutLine { from { opacity: 1; } to { opacity: 0; } }
@@ -427,21 +388,21 @@ function BottleVector({
       </defs>
 
       <g clipPath={`url(#clip-${id})`}>
-        <rect x="0" y="0" width={W} height={H} fill="rgba(255,255,255,0.03)" />
-        <rect x="0" y={y} width={W} height={pct * H} fill={fillColor} />
+        <rect x={X0} y={Y0} width={W} height={H} fill="rgba(255,255,255,0.03)" />
+        <rect x={X0} y={y} width={W} height={Y0 + H - y} fill={fillColor} />
         <rect
-          x="10"
-          y={Math.max(0, edgeY - (isMeniscusDragging ? 18 : 6) / 2)}
-          width={W - 20}
-          height={isMeniscusDragging ? 18 : 6}
+          x={X0 + 10 * k}
+          y={Math.max(Y0, edgeY - meniscusH / 2)}
+          width={W - 20 * k}
+          height={meniscusH}
           fill={edgeColor}
           className="meniscus-blink"
         />
         <rect
-          x="4"
-          y={Math.max(0, edgeY - 18)}
-          width={W - 8}
-          height="48"
+          x={X0 + 4 * k}
+          y={Math.max(Y0, edgeY - 18 * k)}
+          width={W - 8 * k}
+          height={48 * k}
           fill="transparent"
           pointerEvents="all"
           style={{ cursor: "ns-resize", touchAction: "none" }}
@@ -451,19 +412,23 @@ function BottleVector({
           onPointerCancel={onMeniscusPointerCancel}
         />
         <line
-          x1="10"
-          x2={W - 10}
+          x1={X0 + 10 * k}
+          x2={X0 + W - 10 * k}
           y1={yTarget}
           y2={yTarget}
           stroke={targetStroke}
-          strokeWidth="2.5"
-          strokeDasharray="6 4"
+          strokeWidth={2.5 * k}
+          strokeDasharray={`${6 * k} ${4 * k}`}
           style={targetStatus === "ahead" ? { animation: "fadeOutLine 0.6s ease forwards" } : undefined}
         />
       </g>
 
-      <path d={d} fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth="4" />
-      <path d={d} fill="none" stroke="rgba(255,255,255,0.08)" strokeWidth="1" />
+      {outlineDs.map((d, i) => (
+        <g key={i}>
+          <path d={d} fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth={4 * k} />
+          <path d={d} fill="none" stroke="rgba(255,255,255,0.08)" strokeWidth={1 * k} />
+        </g>
+      ))}
     </svg>
   );
 }
@@ -480,86 +445,8 @@ function format1(v: number) {
   return s.endsWith(".0") ? s.slice(0, -2) : s;
 }
 
-type AppState = ReturnType<typeof makeDefaultState>;
-type Meridiem = "AM" | "PM";
 const toMeridiem = (v: string): Meridiem => (v === "AM" ? "AM" : "PM");
 
-function makeDefaultState() {
-  return {
-    hasOnboarded: false,
-    step: 0 as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11,
-    splashSeen: false,
-
-    weightKg: 70,
-    activity: "moderate" as "low" | "moderate" | "high",
-    warm: false,
-
-    goalML: 2000,
-    bottleML: 500,
-    shape: "standard" as "tall" | "standard" | "wide" | "tumbler",
-    snap: "free" as "quarters" | "tenths" | "free",
-    wakeMins: 480,
-    sleepMins: 1320,
-    wakeHour: 8,
-    wakeMinute: 0,
-    wakeMeridiem: "AM" as Meridiem,
-    sleepHour: 10,
-    sleepMinute: 0,
-    sleepMeridiem: "PM" as Meridiem,
-
-
-    dayKey: dayKeyByWake(new Date(), 480),
-    completedBottles: 0,
-    remaining: 1,
-
-    carryML: 0,
-    extraML: 0,
-    onboardingScanPercent: null as null | number,
-    onboardingScanFraction: null as null | number,
-    dailyLog: {} as Record<
-      string,
-      {
-        consumedML: number;
-        goalML: number;
-        bottleML: number;
-        carryML: number;
-        extraML: number;
-        at: number;
-        windowHitCounts?: number[];
-        windowHits?: boolean[];
-        windowTotalsMl?: number[];
-        windowConsumedML?: number[];
-        lastEventAt?: number;
-      }
-    >,
-
-    history: [] as Array<{
-      t: number;
-      prevRemaining: number;
-      prevCompleted: number;
-      prevCarry: number;
-      prevExtra: number;
-      action?: string;
-      ml?: number;
-      rhythmWindowIndex?: 0 | 1 | 2 | 3 | 4;
-      rhythmDelta?: number;
-      rhythmMlDelta?: number;
-    }>,
-
-
-    celebrate: null as null | { type: "bottle" | "goal"; pct: number; consumedML: number },
-  };
-}
-
-function totalConsumedFromState(s: AppState) {
-  const n = ceilDiv(s.goalML, s.bottleML);
-  const completed = clamp(s.completedBottles, 0, n) * s.bottleML;
-  const consumedCurrent = Math.round((1 - s.remaining) * s.bottleML);
-  const carry = clamp(Math.round((s.carryML || 0) as number), 0, 100000);
-  const extra = clamp(Math.round((s.extraML || 0) as number), 0, 100000);
-  return Math.min(s.goalML, completed + consumedCurrent + carry + extra);
-}
-
 function DropletPlugIcon({ className }: { className?: string }) {
   return (
     <svg viewBox="0 0 24 24" className={className} aria-hidden="true">
@@ -678,64 +565,6 @@ function BottomNavBar({
   );
 }
 
-function QuickAddSheet({ onClose, onAdd }: { onClose: () => void; onAdd: (ml: number) => void }) {
-  const items = [
-    { label: "A glass", ml: 250 },
-    { label: "A can", ml: 330 },
-    { label: "A small bottle", ml: 500 },
-    { label: "A large bottle", ml: 750 },
-  ];
-
-  return (
-    <div className="fixed inset-0 z-50">
-      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
-      <div className="absolute inset-0 flex items-center justify-center px-5">
-        <div className="mx-auto w-full max-w-md rounded-3xl border border-white/10 bg-[#121218]/95 shadow-[0_20px_60px_rgba(0,0,0,.55)]">
-          <div className="px-5 pt-4 pb-2">
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="text-lg font-extrabold">Add water</div>
-                <div className="mt-1 text-xs font-extrabold text-[#0A84FF]">
-                  Tip: use this when you drank water from somewhere else (café, glass, can, etc.).
-                </div>
-              </div>
-              <button
-                onClick={onClose}
-                className="h-10 w-10 rounded-2xl border border-white/12 bg-white/8 active:bg-white/12 flex items-center justify-center"
-                aria-label="Close"
-              >
-                ✕
-              </button>
-            </div>
-          </div>
-
-          <div className="px-5 pb-5">
-            <div className="grid gap-2">
-              {items.map((it) => (
-                <button
-                  key={it.label}
-                  onClick={() => {
-                    onAdd(it.ml);
-                    onClose();
-                  }}
-                  className="w-full rounded-2xl border border-white/12 bg-white/6 px-4 py-4 text-left active:scale-[0.99]"
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="font-extrabold">{it.label}</div>
-                    <div className="font-extrabold tabular-nums text-[#0A84FF]">+{it.ml}ml</div>
-                  </div>
-                </button>
-              ))}
-            </div>
-
-            <div className="mt-3 text-xs text-white/60">This won’t change your bottle level.</div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 function MorningResetModal({ onConfirm, isClosing }: { onConfirm: () => void; isClosing: boolean }) {
   return (
     <div className="fixed inset-0 z-[60]">
@@ -780,7 +609,7 @@ const SPLASH_FILL_MS = 1100;
 
 function SplashBottle({ className, animate = true }: { className?: string; animate?: boolean }) {
   const id = useId();
-  const d = bottlePath("standard");
+  const d = CLASSIC_BOTTLE_PATHS.standard;
   const H = 300;
   const W = 140;
 
@@ -835,7 +664,7 @@ function SplashBottle({ className, animate = true }: { className?: string; anima
   );
 }
 
-function ScanResultBottle({ fraction }: { fraction: number }) {
+function ScanResultBottle({ fraction, shape }: { fraction: number; shape: BottleShape }) {
   const [level, setLevel] = useState(1);
   const [mix, setMix] = useState(0);
 
@@ -872,7 +701,7 @@ function ScanResultBottle({ fraction }: { fraction: number }) {
 
       <div style={{ animation: "floaty 2.8s ease-in-out infinite" }} className="w-[160px]">
         <BottleVector
-          shape="standard"
+          shape={shape}
           level={level}
           fillColor={fillColor}
           edgeColor={edgeColor}
@@ -1167,6 +996,29 @@ function OnboardingIntro4({ onContinue, onSkip, onStartOver }: IntroProps) {
 }
 
 // --- Optional self-tests (won't run unless you opt in) ---
+
+// A clean EAN-13 scanline for `code`, two pixels per module, optionally printed right to
+// left as in an upside-down photo.
+function ean13TestPixels(code: string, reversed = false): Pixels {
+  const widths = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"];
+  const parity = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"][Number(code[0])];
+  const digit = (i: number, mirrored: boolean) => {
+    const w = Array.from(widths[Number(code[i])], Number);
+    return mirrored ? w.reverse() : w;
+  };
+  const runs = [1, 1, 1];
+  for (let i = 1; i <= 6; i++) runs.push(...digit(i, parity[i - 1] === "G"));
+  runs.push(1, 1, 1, 1, 1);
+  for (let i = 7; i <= 12; i++) runs.push(...digit(i, false));
+  runs.push(1, 1, 1);
+  if (reversed) runs.reverse();
+  // Quiet zones either side; the symbol's runs alternate from a bar.
+  const row = [10, ...runs, 10].flatMap((r, i) => Array<number>(r * 2).fill(i % 2 === 0 ? 255 : 0));
+  const data = new Uint8ClampedArray(row.length * 4);
+  row.forEach((v, x) => data.set([v, v, v, 255], x * 4));
+  return { data, width: row.length, height: 1 };
+}
+
 function runSelfTests() {
   // Enable by setting window.__WBT_TESTS__ = true in the console.
   if (typeof window === "undefined") return;
@@ -1180,20 +1032,98 @@ function runSelfTests() {
   console.assert(snapValue(0.24, "tenths") === 0.2, "tenths snap");
   console.assert(recommendGoalML({ weightKg: 60, activity: "low", warm: false }).ml === 1980, "recommendGoalML base calc");
   console.assert(formatCountdown(0) === "00:00:00", "formatCountdown zero");
+  // Bottom half twice as wide as the neck, so it holds four fifths of the bottle.
+  const necked = volumeProfile(
+    [{ x: 0, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 1 }, { x: 1.5, y: 1 }, { x: 1.5, y: 0 }, { x: 0.5, y: 0 }, { x: 0.5, y: 1 }, { x: 0, y: 1 }],
+    { x: 0, y: 0, width: 2, height: 2 }
+  );
+  console.assert(Math.abs(fractionForHeight(necked, 0.5) - 0.8) < 1e-6, "half the height of a necked bottle is 80% of its volume");
+  console.assert(Math.abs(heightForFraction(necked, fractionForHeight(necked, 0.3)) - 0.3) < 1e-6, "height and volume convert both ways");
+  console.assert(fractionForHeight(null, 0.4) === 0.4 && heightForFraction(null, 0.4) === 0.4, "no profile means straight sides");
+  const morningDay = (windowConsumedML: number[]): DailyLogEntry => ({
+    consumedML: 1000,
+    goalML: 2000,
+    bottleML: 500,
+    carryML: 0,
+    extraML: 0,
+    at: 0,
+    windowHitCounts: windowConsumedML.map((ml) => (ml > 0 ? 1 : 0)),
+    windowConsumedML,
+  });
+  const mornings = {
+    "2025-01-01": morningDay([500, 500, 0, 0, 0]),
+    "2025-01-02": morningDay([500, 500, 0, 0, 0]),
+    "2025-01-03": morningDay([500, 500, 0, 0, 0]),
+    "2025-01-04": morningDay([0, 0, 0, 0, 1000]),
+  };
+  const learnedMornings = learnPacing(mornings, "2025-01-04");
+  console.assert(
+    learnedMornings?.days === 3 && learnedMornings.learnedPoints.map(([, pct]) => pct).join(",") === "0.5,1,1,1",
+    "learned pacing follows past days and leaves today out"
+  );
+  console.assert(learnedMornings !== null && learnedMornings.points[0][1] < 0.5, "learned pacing stays blended with the default curve");
+  console.assert(learnPacing(mornings, "2025-01-03") === null, "learned pacing needs three past days");
+  const longRunSundays = { goalML: 2000, goalOverrides: setDayGoal(setWeekdayGoal(makeDefaultGoalOverrides(), 0, 3000), "2025-01-05", 3500) };
+  console.assert(goalForDayKey(longRunSundays, "2025-01-05") === 3500, "a one-off goal wins over its weekday");
+  console.assert(goalForDayKey(longRunSundays, "2025-01-12") === 3000 && goalForDayKey(longRunSundays, "2025-01-06") === 2000, "weekday goals apply only on their weekday");
+  console.assert(unitToMl(16, "usFlOz") === 473 && volumeInputValue(473, "usFlOz") === "16", "16 US fl oz is 473 ml");
+  console.assert(parseVolumeInput(volumeInputValue(750, "impFlOz"), "impFlOz") === 750, "UK fl oz field round-trips 750 ml");
+  console.assert(Math.round(kgToUnit(70, "lb") * 10) === 1543 && Math.round(unitToKg(154.3, "lb")) === 70, "70 kg is 154.3 lb");
+  console.assert(sanitizeVolumeInput("16.", "usFlOz") === "16." && parseVolumeInput("16.", "usFlOz") === 473, "a trailing point survives typing");
+  console.assert(sanitizeVolumeInput("16.25", "usFlOz") === "16.2" && sanitizeVolumeInput("7.5 ml", "ml") === "75", "volume fields keep only valid keystrokes");
+  console.assert(parseVolumeInput(" ", "ml") === null, "a blank volume field reads as nothing");
+  const teaTime = new Date(2025, 0, 2, 15, 5);
+  console.assert(formatClock(teaTime, "24h").includes("15") && !formatClock(teaTime, "12h").includes("15"), "clock format picks 12 or 24 hours");
+  const migrated = migrateState({ wakeHour: 8, dailyLog: { "2025-01-02": { consumedML: 900, windowHits: [true, false, true, false, false] } } });
+  console.assert(migrated?.state.dailyLog["2025-01-02"].windowHitCounts.join(",") === "1,0,1,0,0", "legacy windowHits migrate to counts");
+  console.assert(migrateState({ remaining: 7, goalML: "lots" })?.issues.length === 2, "corrupt fields are repaired and reported");
+  console.assert(migrateState("nope") === null, "non-object blobs are rejected");
+  const backfilled = migrateState({ schemaVersion: 3, dayKey: "2025-01-02", bottleML: 500, remaining: 0.5, history: [{ t: 1, prevRemaining: 1, prevCompleted: 0 }] });
+  console.assert(backfilled?.state.journal["2025-01-02"]?.[0]?.ml === 250, "today's undo history backfills the journal");
+  const sips: DrinkEvent[] = [
+    { id: "a", at: new Date(2025, 0, 2, 9).getTime(), source: "track", ml: 300, bottleId: "standard-500" },
+    { id: "b", at: new Date(2025, 0, 2, 10).getTime(), source: "extra", ml: 200, bottleId: "standard-500" },
+    { id: "c", at: new Date(2025, 0, 2, 11).getTime(), source: "extra", ml: -200, bottleId: "standard-500", undoes: "b" },
+  ];
+  const derived = deriveDayTotals(sips, "2025-01-02", 480, 1320);
+  console.assert(derived.consumedML === 300 && derived.windowHitCounts.join(",") === "1,0,0,0,0", "undone journal events drop out of the totals");
+  console.assert(derived.bottleConsumedML["standard-500"] === 300, "extras aren't attributed to a bottle");
+  const desk = { ...makeDefaultState(), goalML: 3000, bottleML: 500, remaining: 0.5 };
+  const withGym = addBottle(desk, { id: "gym", name: "Gym", capacityML: 1000, shapeId: "sports", color: "#30D158", remaining: 1 });
+  const atGym = switchActiveBottle(withGym, "gym");
+  const backAtDesk = switchActiveBottle({ ...atGym, remaining: 0.5 }, desk.activeBottleId);
+  console.assert(totalConsumedFromState(atGym) === 250 && totalConsumedFromState(backAtDesk) === 750 && backAtDesk.remaining === 0.5, "switching bottles keeps each level and today's total");
+  const undoneOnDesk = { ...withGym, redo: [{ dayKey: withGym.dayKey, after: { remaining: 0.2, completedBottles: 0, carryML: 0, extraML: 0 } }] };
+  console.assert(switchActiveBottle(undoneOnDesk, "gym").redo.length === 0, "undo, switch bottle, redo: the switch leaves nothing to redo");
+  for (const code of ["4006381333931", "0012345678905"]) {
+    console.assert(decodeEan13(ean13TestPixels(code)) === code, `EAN-13 ${code} decodes`);
+    console.assert(decodeEan13(ean13TestPixels(code, true)) === code, `EAN-13 ${code} decodes upside down`);
+    console.assert(gtinFromCode(code) === code && gtinFromCode(`0${code}`) === code, `GTIN ${code} normalises`);
+  }
+  console.assert(gtinFromCode("012345678905") === "0012345678905", "UPC-A gains a leading zero");
+  console.assert(gtinFromCode("10012345678902") === null, "case GTIN-14s are rejected");
+  const learned = learnLabel(learnLabel([], { gtin: "4006381333931", name: "Desk", capacityML: 500, shapeId: "standard" }), { gtin: "4006381333931", name: "Desk", capacityML: 750, shapeId: "standard" });
+  console.assert(learned.length === 1 && lookupBottle("04006381333931", learned)?.capacityML === 750, "a relearned label answers with its latest size");
+  const savedAtDesk = enqueueScan([], { imageDataUrl: "", capturedAt: 1, dayKey: withGym.dayKey, bottleId: desk.activeBottleId, shapeId: desk.bottles[0].shapeId, error: null })[0];
+  console.assert(!isScanSuperseded(savedAtDesk, withGym) && isScanSuperseded(savedAtDesk, atGym), "a saved scan is skipped once another bottle is live");
+  const drankAtDesk = { ...withGym, history: [{ t: 1, prevRemaining: 1, prevCompleted: 0, prevCarry: 0, prevExtra: 0, bottleId: desk.activeBottleId }] };
+  const switchedAway = switchActiveBottle(drankAtDesk, "gym");
+  const undoneAway = { ...switchedAway, ...undoSwitchedStep(switchedAway, switchedAway.history[0], { ml: 250, source: "track" }) };
+  console.assert(
+    switchedAway.history.length === 1 && totalConsumedFromState(undoneAway) === 0 && savedBottles(undoneAway)[0].remaining === 1,
+    "undo reaches past a bottle switch and refills the bottle the step was taken on"
+  );
+  const fromGym = withoutDrink({ remaining: 0.5, completedBottles: 0, carryML: 300, extraML: 0 }, 200, "track", 500, false);
+  console.assert(fromGym.remaining === 0.5 && fromGym.carryML === 100, "deleting another bottle's drink leaves the live level alone");
+  const scheduled = ledgerReducer(makeDefaultLedger(), { type: "behindNudgeScheduled", dayKey: "2025-01-02", atMs: 1000 });
+  console.assert(ledgerReducer(scheduled, { type: "appResumed", dayKey: "2025-01-02", atMs: 2000 }).lastBehindNudgeDayKey === "2025-01-02", "resuming after a due nudge marks it fired");
+  const noon = new Date(2025, 0, 2, 12, 0);
+  const logged = ledgerReducer(makeDefaultLedger(), { type: "refillOrLog", dayKey: "2025-01-02", atMs: noon.getTime() });
+  console.assert(planBehindNudge(logged, { now: noon, wakeMins: 480, sleepMins: 1320, behindBottles: 2 }).kind === "none", "no behind nudge after logging today");
 }
 
 export default function WaterBottleTracker() {
-  const [state, setState] = useState<AppState>(() => {
-    const defaults = makeDefaultState();
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return defaults;
-      const parsed = JSON.parse(raw);
-      return { ...defaults, ...parsed };
-    } catch {
-      return defaults;
-    }
-  });
+  const [state, setState] = useState<AppState>(loadPersistedState);
 
   // Enable optional self-tests
   useEffect(() => {
@@ -1208,18 +1138,12 @@ export default function WaterBottleTracker() {
     const last7DayKeys = Array.from({ length: 7 }, (_, i) => {
       const d = new Date();
       d.setDate(d.getDate() - (6 - i));
-      return dayKeyByWake(d, s.wakeMins);
+      return dayKeyByWake(d, wakeTimes(s));
     });
     const days = last7DayKeys.map((k) => {
       const day = (s.dailyLog || {})[k];
-      const windowHitCounts = Array.isArray(day?.windowHitCounts) && day.windowHitCounts.length === 5
-        ? day.windowHitCounts
-        : Array.isArray(day?.windowHits) && day.windowHits.length === 5
-          ? day.windowHits.map((hit: boolean) => (hit ? 1 : 0))
-          : [0, 0, 0, 0, 0];
-      const windowConsumedML = Array.isArray(day?.windowConsumedML) && day.windowConsumedML.length === 5
-        ? day.windowConsumedML
-        : [0, 0, 0, 0, 0];
+      const windowHitCounts = day?.windowHitCounts ?? emptyWindows();
+      const windowConsumedML = day?.windowConsumedML ?? emptyWindows();
       const hits = windowHitCounts.map((count: number) => count > 0);
       const spreadScore = hits.reduce((sum: number, hit: boolean, idx: number) => (hit ? sum + weights[idx] : sum), 0);
       const pct = day?.goalML ? Number(((day.consumedML || 0) / day.goalML).toFixed(2)) : 0;
@@ -1289,48 +1213,73 @@ export default function WaterBottleTracker() {
 
   useEffect(() => {
     const p = timeParts(state.wakeMins);
-    setWakeHourInput(String(p.h12));
+    setWakeHourInput(hourInputText(p.h12, p.ampm, state.units.clock));
     setWakeMinInput(String(p.min).padStart(2, "0"));
-  }, [state.wakeMins]);
+  }, [state.wakeMins, state.units.clock]);
 
   useEffect(() => {
     const p = timeParts(state.sleepMins);
-    setSleepHourInput(String(p.h12));
+    setSleepHourInput(hourInputText(p.h12, p.ampm, state.units.clock));
     setSleepMinInput(String(p.min).padStart(2, "0"));
-  }, [state.sleepMins]);
+  }, [state.sleepMins, state.units.clock]);
 
   const stateRef = useRef(state);
+  const scheduleFields = useMemo(
+    () => ({ wakeMins: state.wakeMins, sleepMins: state.sleepMins, weekSchedule: state.weekSchedule }),
+    [state.wakeMins, state.sleepMins, state.weekSchedule]
+  );
+  const todayWindow = useMemo(() => windowForDayKey(scheduleFields, state.dayKey), [scheduleFields, state.dayKey]);
+  const goalFields = useMemo(() => ({ goalML: state.goalML, goalOverrides: state.goalOverrides }), [state.goalML, state.goalOverrides]);
+  const todayGoal = useMemo(() => goalForDayKey(goalFields, state.dayKey), [goalFields, state.dayKey]);
+  const { volume: volUnit, weight: weightUnit, clock } = state.units;
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
   function persistNow(next: AppState) {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-    } catch {
-      // ignore
+    const json = JSON.stringify(next);
+    let dropped = false;
+    for (;;) {
+      try {
+        localStorage.setItem(STORAGE_KEY, json);
+        break;
+      } catch (err) {
+        if (!isQuotaError(err) || !dropOldestQueuedScan()) break;
+        dropped = true;
+      }
     }
+    // May run inside a state updater, so the queue catches up afterwards.
+    if (dropped) window.setTimeout(() => setScanQueue(loadScanQueue()), 0);
   }
 
   useEffect(() => {
     const resetToTodayIfNeeded = () => {
-      const today = dayKeyByWake(new Date(), stateRef.current.wakeMins);
+      const today = dayKeyByWake(new Date(), wakeTimes(stateRef.current));
       setState((s) => {
         if (s.dayKey === today) return s;
 
         const prevKey = s.dayKey;
         const consumed = totalConsumedFromState(s);
-        const nextLog = {
-          ...(s.dailyLog || {}),
-          [prevKey]: {
+        const prevEntry = (s.dailyLog || {})[prevKey];
+        const prevWindow = windowForDayKey(s, prevKey);
+        const closedEntry = deriveDailyLogEntry(
+          {
+            ...prevEntry,
+            windowHitCounts: prevEntry?.windowHitCounts ?? emptyWindows(),
+            windowConsumedML: prevEntry?.windowConsumedML ?? emptyWindows(),
             consumedML: consumed,
-            goalML: s.goalML,
+            goalML: goalForDayKey(s, prevKey),
             bottleML: s.bottleML,
             carryML: Math.round((s.carryML || 0) as number),
             extraML: Math.round((s.extraML || 0) as number),
             at: Date.now(),
           },
-        };
+          (s.journal || {})[prevKey],
+          prevKey,
+          prevWindow.wakeMins,
+          prevWindow.sleepMins
+        );
+        const nextLog = { ...(s.dailyLog || {}), [prevKey]: closedEntry };
 
         const keys = Object.keys(nextLog).sort();
         const keep = keys.slice(-365);
@@ -1340,12 +1289,16 @@ export default function WaterBottleTracker() {
         const next = {
           ...s,
           dailyLog: pruned,
+          journal: pickJournalDays(s.journal || {}, keep),
+          goalOverrides: pruneGoalOverrides(s.goalOverrides, today),
           dayKey: today,
           completedBottles: 0,
           remaining: 1,
+          bottles: refillAllBottles(s.bottles),
           carryML: 0,
           extraML: 0,
           history: [],
+          redo: [],
           celebrate: null,
         };
         persistNow(next);
@@ -1357,7 +1310,7 @@ export default function WaterBottleTracker() {
 
     let timeoutId: number | undefined;
     const scheduleNext = () => {
-      const ms = msUntilNextWake(new Date(), stateRef.current.wakeMins);
+      const ms = msUntilNextWake(new Date(), wakeTimes(stateRef.current));
       timeoutId = window.setTimeout(() => {
         resetToTodayIfNeeded();
         scheduleNext();
@@ -1384,15 +1337,15 @@ export default function WaterBottleTracker() {
       document.removeEventListener("visibilitychange", onVisibility);
       window.removeEventListener("pagehide", onPageHide);
     };
-  }, [state.sleepMins]);
+  }, [scheduleFields]);
 
   useEffect(() => {
     persistNow(state);
   }, [state]);
 
-  const [resetMs, setResetMs] = useState(() => msUntilNextWake(new Date(), state.wakeMins));
+  const [resetMs, setResetMs] = useState(() => msUntilNextWake(new Date(), wakeTimes(state)));
   useEffect(() => {
-    const tick = () => setResetMs(msUntilNextWake(new Date(), state.wakeMins));
+    const tick = () => setResetMs(msUntilNextWake(new Date(), wakeTimes(scheduleFields)));
     tick();
     const id = window.setInterval(tick, 1000);
     const onVis = () => {
@@ -1403,31 +1356,35 @@ export default function WaterBottleTracker() {
       window.clearInterval(id);
       document.removeEventListener("visibilitychange", onVis);
     };
-  }, [state.sleepMins]);
+  }, [scheduleFields]);
 
   const bottlesPerDayText = useMemo(() => formatBottlesDecimal(state.goalML, state.bottleML), [state.goalML, state.bottleML]);
 
-  const totalConsumed = useMemo(() => totalConsumedFromState(state), [state.completedBottles, state.remaining, state.bottleML, state.goalML, state.carryML, state.extraML]);
+  const totalConsumed = useMemo(() => totalConsumedFromState(state), [state.completedBottles, state.remaining, state.bottleML, state.carryML, state.extraML]);
 
-  const progressFrac = useMemo(() => (state.goalML > 0 ? Math.min(1, totalConsumed / state.goalML) : 0), [totalConsumed, state.goalML]);
+  const progressFrac = useMemo(() => (todayGoal > 0 ? Math.min(1, totalConsumed / todayGoal) : 0), [totalConsumed, todayGoal]);
 
   const bottlesLeftText = useMemo(() => {
     if (!state.bottleML) return "0";
-    const goalBottles = state.goalML / state.bottleML;
+    const goalBottles = todayGoal / state.bottleML;
     const consumedBottles = totalConsumed / state.bottleML;
     const left = Math.max(0, goalBottles - consumedBottles);
     return format1(left);
-  }, [state.goalML, state.bottleML, totalConsumed]);
+  }, [todayGoal, state.bottleML, totalConsumed]);
+  const overGoalML = Math.max(0, totalConsumed - todayGoal);
+  const overSafetyLimit = state.safetyLimitML !== null && totalConsumed >= state.safetyLimitML;
+  const learnedPacing = useMemo(() => learnPacing(state.dailyLog, state.dayKey), [state.dailyLog, state.dayKey]);
+  const pacing = useMemo(() => pacingPoints(state.pacing, learnedPacing), [state.pacing, learnedPacing]);
   const expectedNowMl = useMemo(
-    () => expectedMlAt(state.goalML, new Date(), state.wakeMins, state.sleepMins),
-    [state.goalML, state.wakeMins, state.sleepMins, nowTick]
+    () => expectedMlAt(todayGoal, new Date(), todayWindow.wakeMins, todayWindow.sleepMins, pacing),
+    [todayGoal, todayWindow, pacing, nowTick]
   );
   const expectedBottlesNow = useMemo(
     () => (state.bottleML > 0 ? expectedNowMl / state.bottleML : 0),
     [expectedNowMl, state.bottleML]
   );
   const diffMl = useMemo(() => totalConsumed - expectedNowMl, [totalConsumed, expectedNowMl]);
-  const pacingToleranceMl = useMemo(() => Math.max(state.goalML * 0.05, 150), [state.goalML]);
+  const pacingToleranceMl = useMemo(() => Math.max(todayGoal * 0.05, 150), [todayGoal]);
   const pacingStatus = useMemo(() => {
     if (diffMl > pacingToleranceMl) return "ahead" as const;
     if (diffMl < -pacingToleranceMl) return "behind" as const;
@@ -1490,21 +1447,32 @@ export default function WaterBottleTracker() {
   // === END DO NOT EDIT: Expected FID line + flag interaction ===
 
   function advanceBottle(s: AppState) {
-    const n = ceilDiv(s.goalML, s.bottleML);
+    const n = ceilDiv(todayGoalML(s), s.bottleML);
     if (n <= 0) return s;
 
-    let completed = s.completedBottles;
-    if (completed < n) completed += 1;
+    // Past the goal bottles keep counting, so overshoot stays in the total.
+    const completed = Math.min(1000, s.completedBottles + 1);
 
     return { ...s, completedBottles: completed, remaining: 1 };
   }
 
-  function setRemaining(nextRemaining: number, meta: { action?: string } = {}) {
+  function setRemaining(nextRemaining: number, meta: { action?: string; source?: DrinkSource; at?: number } = {}) {
     setState((s) => {
-      const today = dayKeyByWake(new Date(), s.wakeMins);
+      const today = dayKeyByWake(new Date(), wakeTimes(s));
       let ss = s;
       if (ss.dayKey !== today) {
-        ss = { ...ss, dayKey: today, completedBottles: 0, remaining: 1, carryML: 0, extraML: 0, history: [], celebrate: null };
+        ss = {
+          ...ss,
+          dayKey: today,
+          completedBottles: 0,
+          remaining: 1,
+          bottles: refillAllBottles(ss.bottles),
+          carryML: 0,
+          extraML: 0,
+          history: [],
+          redo: [],
+          celebrate: null,
+        };
       }
 
       const prev = ss.remaining;
@@ -1512,7 +1480,7 @@ export default function WaterBottleTracker() {
       const prevCarry = (ss.carryML || 0) as number;
       const prevExtra = (ss.extraML || 0) as number;
       const beforeConsumed = totalConsumedFromState(ss);
-      const eventAt = Date.now();
+      const eventAt = meta.at ?? Date.now();
       const r = clamp(nextRemaining, 0, 1);
 
       const didEmptyBottle = meta.action === "track" && prev > 0.0001 && r <= 0.0001;
@@ -1521,30 +1489,30 @@ export default function WaterBottleTracker() {
       if (r <= 0.0001) nextState = { ...advanceBottle(nextState) };
 
       const afterConsumed = totalConsumedFromState(nextState);
-      const pct = nextState.goalML > 0 ? Math.round((afterConsumed / nextState.goalML) * 100) : 0;
-      const hitGoal = meta.action === "track" && nextState.goalML > 0 && afterConsumed >= nextState.goalML;
+      const goalML = todayGoalML(nextState);
+      const pct = goalML > 0 ? Math.round((afterConsumed / goalML) * 100) : 0;
+      const hitGoal = meta.action === "track" && goalML > 0 && beforeConsumed < goalML && afterConsumed >= goalML;
+
+      let eventId: string | undefined;
+      if (meta.action === "track") {
+        const recorded = recordDrinkEvent(nextState, today, { source: meta.source ?? "track", ml: afterConsumed - beforeConsumed, at: eventAt });
+        nextState = recorded.state;
+        eventId = recorded.eventId;
+      }
 
-      const rhythmDelta = Math.max(0, afterConsumed - beforeConsumed);
-      const rhythmWindowIndex =
-        rhythmDelta >= 120 ? getRhythmWindowIndexForDayKey(eventAt, dayKeyByWake(new Date(eventAt), ss.wakeMins), ss.wakeMins, ss.sleepMins) : undefined;
-      const entry = {
+      const entry: HistoryEntry = {
         t: eventAt,
         prevRemaining: prev,
         prevCompleted,
         prevCarry,
         prevExtra,
-        ...meta,
-        ...(typeof rhythmWindowIndex === "number" ? { rhythmWindowIndex, rhythmDelta: 1, rhythmMlDelta: rhythmDelta } : {}),
+        ...(meta.action ? { action: meta.action } : {}),
+        ...(eventId ? { eventId } : {}),
+        bottleId: ss.activeBottleId,
       };
       const history = [...(ss.history || []), entry].slice(-50);
-      nextState = { ...nextState, history };
-
-      if (meta.action === "track") {
-        nextState = {
-          ...nextState,
-          dailyLog: updateDailyLogRhythm(nextState, eventAt, rhythmDelta),
-        };
-      }
+      // Any new drink ends what redo could replay.
+      nextState = { ...nextState, history, redo: [] };
 
       if (meta.action === "track" && (hitGoal || didEmptyBottle)) {
         nextState = {
@@ -1561,12 +1529,24 @@ export default function WaterBottleTracker() {
     });
   }
 
-  function addExtra(ml: number) {
+  function addExtra(volumeML: number, beverage: BeverageId = "water", at?: number) {
+    const eventAt = at ?? Date.now();
     setState((s) => {
-      const today = dayKeyByWake(new Date(), s.wakeMins);
+      const today = dayKeyByWake(new Date(), wakeTimes(s));
       let ss = s;
       if (ss.dayKey !== today) {
-        ss = { ...ss, dayKey: today, completedBottles: 0, remaining: 1, carryML: 0, extraML: 0, history: [], celebrate: null };
+        ss = {
+          ...ss,
+          dayKey: today,
+          completedBottles: 0,
+          remaining: 1,
+          bottles: refillAllBottles(ss.bottles),
+          carryML: 0,
+          extraML: 0,
+          history: [],
+          redo: [],
+          celebrate: null,
+        };
       }
 
       const prev = ss.remaining;
@@ -1574,11 +1554,16 @@ export default function WaterBottleTracker() {
       const prevCarry = (ss.carryML || 0) as number;
       const prevExtra = (ss.extraML || 0) as number;
 
+      const ml = hydrationML(volumeML, beverage, ss.beverageFactors);
       const nextExtra = clamp((ss.extraML || 0) + ml, 0, 100000);
-      const eventAt = Date.now();
-      const rhythmWindowIndex =
-        ml >= 120 ? getRhythmWindowIndexForDayKey(eventAt, dayKeyByWake(new Date(eventAt), ss.wakeMins), ss.wakeMins, ss.sleepMins) : undefined;
-      const entry = {
+      const next = { ...ss, extraML: nextExtra };
+      const recorded = recordDrinkEvent(next, today, {
+        source: "extra",
+        ml: totalConsumedFromState(next) - totalConsumedFromState(ss),
+        at: eventAt,
+        ...(beverage !== "water" ? { beverage, volumeML } : {}),
+      });
+      const entry: HistoryEntry = {
         t: eventAt,
         prevRemaining: prev,
         prevCompleted,
@@ -1586,15 +1571,14 @@ export default function WaterBottleTracker() {
         prevExtra,
         action: "extra",
         ml,
-        ...(typeof rhythmWindowIndex === "number" ? { rhythmWindowIndex, rhythmDelta: 1, rhythmMlDelta: ml } : {}),
+        eventId: recorded.eventId,
+        bottleId: ss.activeBottleId,
       };
       const history = [...(ss.history || []), entry].slice(-50);
-
-      const next = { ...ss, extraML: nextExtra, history };
-      return { ...next, dailyLog: updateDailyLogRhythm(next, eventAt, ml) };
+      return { ...recorded.state, history, redo: [] };
     });
-    setLastRefillOrLogDayKey(getTodayKey());
-    setLastRefillOrLogAt(Date.now());
+    // Nudges care when the user last logged, not when a backdated drink happened.
+    dispatchLedger({ type: "refillOrLog", dayKey: getTodayKey(), atMs: Date.now() });
     void cancelBehindNudge();
     void cancelLateBehindNudge();
   }
@@ -1605,69 +1589,149 @@ export default function WaterBottleTracker() {
       const h = s.history || [];
       if (h.length === 0) return s;
       const last = h[h.length - 1];
-      undoTarget = last.prevRemaining;
+      const found = last.eventId ? findDrinkEvent(s.journal, last.eventId) : null;
+      const restored = last.beforeSwitch
+        ? undoSwitchedStep(s, last, found?.event ?? null)
+        : {
+            remaining: last.prevRemaining,
+            completedBottles: last.prevCompleted,
+            carryML: typeof last.prevCarry === "number" ? last.prevCarry : (s.carryML || 0),
+            extraML: typeof last.prevExtra === "number" ? last.prevExtra : s.extraML,
+          };
+      undoTarget = restored.remaining;
+      const switchedFrom = last.beforeSwitch && last.bottleId;
+      const redoEntry: RedoEntry = {
+        dayKey: s.dayKey,
+        after: snapshotOf(s),
+        ...(last.action ? { action: last.action } : {}),
+        ...(typeof last.ml === "number" ? { ml: last.ml } : {}),
+        ...(found
+          ? {
+              event: {
+                source: found.event.source,
+                ml: found.event.ml,
+                at: found.event.at,
+                beverage: found.event.beverage,
+                volumeML: found.event.volumeML,
+              },
+            }
+          : {}),
+        ...(switchedFrom
+          ? {
+              switched: {
+                bottleId: switchedFrom,
+                prevRemaining: last.prevRemaining,
+                remaining: savedBottles(s).find((b) => b.id === switchedFrom)?.remaining ?? last.prevRemaining,
+              },
+            }
+          : {}),
+      };
       const nextState = {
         ...s,
-        remaining: last.prevRemaining,
-        completedBottles: last.prevCompleted,
-        carryML: typeof last.prevCarry === "number" ? last.prevCarry : (s.carryML || 0),
-        extraML: typeof last.prevExtra === "number" ? last.prevExtra : s.extraML,
+        ...restored,
         history: h.slice(0, -1),
+        redo: [...(s.redo || []), redoEntry].slice(-MAX_REDO),
       };
-      if (typeof last.rhythmWindowIndex === "number") {
-        const eventAt = typeof last.t === "number" ? last.t : Date.now();
-        const key = dayKeyByWake(new Date(eventAt), nextState.wakeMins);
-        const day = (nextState.dailyLog || {})[key];
-        const windowHitCounts = Array.isArray(day?.windowHitCounts) && day.windowHitCounts.length === 5
-          ? [...day.windowHitCounts]
-          : Array.isArray(day?.windowHits) && day.windowHits.length === 5
-            ? day.windowHits.map((hit: boolean) => (hit ? 1 : 0))
-            : [0, 0, 0, 0, 0];
-        const windowConsumedML = Array.isArray(day?.windowConsumedML) && day.windowConsumedML.length === 5
-          ? [...day.windowConsumedML]
-          : [0, 0, 0, 0, 0];
-        const delta = typeof last.rhythmDelta === "number" ? last.rhythmDelta : 1;
-        windowHitCounts[last.rhythmWindowIndex] = Math.max(0, windowHitCounts[last.rhythmWindowIndex] - delta);
-        const mlDelta = typeof last.rhythmMlDelta === "number" ? last.rhythmMlDelta : 0;
-        if (mlDelta > 0) {
-          windowConsumedML[last.rhythmWindowIndex] = Math.max(0, windowConsumedML[last.rhythmWindowIndex] - mlDelta);
-        }
-        const dailyLog = {
-          ...(nextState.dailyLog || {}),
-          [key]: {
-            consumedML: totalConsumedFromState(nextState),
-            goalML: day?.goalML ?? nextState.goalML,
-            bottleML: day?.bottleML ?? nextState.bottleML,
-            carryML: day?.carryML ?? nextState.carryML,
-            extraML: day?.extraML ?? nextState.extraML,
-            at: day?.at ?? eventAt,
-            windowHitCounts,
-            windowConsumedML,
-            lastEventAt: eventAt,
-          },
-        };
-        if (import.meta.env.DEV) {
-          console.log("[DEV] Undo rhythm decrement", { windowIndex: last.rhythmWindowIndex, windowHitCounts, windowConsumedML });
-        }
-        return { ...nextState, dailyLog };
-      }
-      return nextState;
+      // The journal is append-only: undo writes a compensating event instead of deleting.
+      if (!found) return nextState;
+      const { key, event } = found;
+      return recordDrinkEvent(nextState, key, {
+        source: event.source,
+        ml: -event.ml,
+        at: Date.now(),
+        undoes: event.id,
+        beverage: event.beverage,
+        volumeML: typeof event.volumeML === "number" ? -event.volumeML : undefined,
+      }).state;
     });
     if (undoTarget !== null) setScanAnimTarget(undoTarget);
     setUndoAnimating(true);
     setLowLevelTracked(false);
   }
 
+  // Replays the last undone step with a fresh journal event, back onto the undo stack.
+  function redo() {
+    const pending = stateRef.current.redo || [];
+    const last = pending[pending.length - 1];
+    if (!last || last.dayKey !== stateRef.current.dayKey) return;
+    setState((s) => {
+      const r = s.redo || [];
+      const top = r[r.length - 1];
+      if (!top) return s;
+      if (top.dayKey !== s.dayKey) return { ...s, redo: [] };
+      const sw = top.switched;
+      const entry: HistoryEntry = {
+        t: top.event?.at ?? Date.now(),
+        prevRemaining: sw ? sw.prevRemaining : s.remaining,
+        prevCompleted: s.completedBottles,
+        prevCarry: (s.carryML || 0) as number,
+        prevExtra: (s.extraML || 0) as number,
+        ...(top.action ? { action: top.action } : {}),
+        ...(typeof top.ml === "number" ? { ml: top.ml } : {}),
+        bottleId: sw ? sw.bottleId : s.activeBottleId,
+        ...(sw ? { beforeSwitch: true } : {}),
+      };
+      let next: AppState = { ...s, ...top.after, redo: r.slice(0, -1) };
+      if (sw && sw.bottleId !== s.activeBottleId) {
+        next = { ...next, bottles: s.bottles.map((b) => (b.id === sw.bottleId ? { ...b, remaining: sw.remaining } : b)) };
+      }
+      if (top.event) {
+        const recorded = recordDrinkEvent(next, s.dayKey, top.event);
+        next = recorded.state;
+        entry.eventId = recorded.eventId;
+      }
+      return { ...next, history: [...(s.history || []), entry].slice(-50) };
+    });
+    setScanAnimTarget(last.after.remaining);
+    setUndoAnimating(true);
+  }
+
+  // Removes one of today's drinks from the timeline, whether or not it is the latest.
+  function removeTodayDrink(id: string) {
+    const h = stateRef.current.history || [];
+    if (h.length > 0 && h[h.length - 1].eventId === id) {
+      undo();
+      return;
+    }
+    let target: number | null = null;
+    setState((s) => {
+      const found = findDrinkEvent(s.journal, id);
+      if (!found || found.key !== s.dayKey) return s;
+      const { event } = found;
+      const after = withoutDrink(snapshotOf(s), event.ml, event.source, s.bottleML, event.bottleId === currentBottleId(s));
+      target = after.remaining;
+      const next: AppState = { ...s, ...after, history: historyWithoutDrink(s.history || [], id, event, s), redo: [] };
+      return recordDrinkEvent(next, s.dayKey, {
+        source: event.source,
+        ml: -event.ml,
+        at: Date.now(),
+        undoes: event.id,
+        beverage: event.beverage,
+        volumeML: typeof event.volumeML === "number" ? -event.volumeML : undefined,
+      }).state;
+    });
+    if (target !== null) setScanAnimTarget(target);
+    setLowLevelTracked(false);
+  }
+
   const bottleWrapRef = useRef<HTMLDivElement | null>(null);
   const [meniscusDragging, setMeniscusDragging] = useState(false);
   const [undoAnimating, setUndoAnimating] = useState(false);
   const [showPercent, setShowPercent] = useState(false);
   const percentDelayRef = useRef<number | null>(null);
 
+  // Track and Quick Add can be backdated, but only as far as the start of today's window.
+  const [trackAt, setTrackAt] = useState<number | null>(null);
   const [pendingRemaining, setPendingRemaining] = useState(state.remaining);
   useEffect(() => {
     if (state.hasOnboarded) setPendingRemaining(state.remaining);
+    setTrackAt(null);
   }, [state.remaining, state.hasOnboarded]);
+  const trackPending = Math.abs(pendingRemaining - state.remaining) >= 1e-6;
+  const backdateMinAt = useMemo(
+    () => hydrationWindowBounds(state.dayKey, todayWindow.wakeMins, todayWindow.sleepMins).start.getTime(),
+    [state.dayKey, todayWindow]
+  );
 
   const [displayRemaining, setDisplayRemaining] = useState(pendingRemaining);
   const [scanAnimTarget, setScanAnimTarget] = useState<number | null>(null);
@@ -1684,87 +1748,7 @@ export default function WaterBottleTracker() {
   const settingsCloseRef = useRef<number | null>(null);
   const [analyticsOpenTick, setAnalyticsOpenTick] = useState(0);
   const [analyticsProgressPct, setAnalyticsProgressPct] = useState(0);
-  const [lastMorningResetToken, setLastMorningResetToken] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_lastMorningResetToken");
-    } catch {
-      return null;
-    }
-  });
-  const [lastAppOpenDayKey, setLastAppOpenDayKey] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_lastAppOpenDayKey");
-    } catch {
-      return null;
-    }
-  });
-  const [lastRefillOrLogDayKey, setLastRefillOrLogDayKey] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_lastRefillOrLogDayKey");
-    } catch {
-      return null;
-    }
-  });
-  const [lastRefillOrLogAt, setLastRefillOrLogAt] = useState<number | null>(() => {
-    try {
-      const raw = localStorage.getItem("v3_lastRefillOrLogAt");
-      return raw ? Number(raw) : null;
-    } catch {
-      return null;
-    }
-  });
-  const [lastBehindNudgeDayKey, setLastBehindNudgeDayKey] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_lastBehindNudgeDayKey");
-    } catch {
-      return null;
-    }
-  });
-  const [behindNudgeScheduledDayKey, setBehindNudgeScheduledDayKey] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_behindNudgeScheduledDayKey");
-    } catch {
-      return null;
-    }
-  });
-  const [behindNudgeScheduledAtMs, setBehindNudgeScheduledAtMs] = useState<number | null>(() => {
-    try {
-      const raw = localStorage.getItem("v3_behindNudgeScheduledAtMs");
-      return raw ? Number(raw) : null;
-    } catch {
-      return null;
-    }
-  });
-  const [lastEarlyBehindFiredAt, setLastEarlyBehindFiredAt] = useState<number | null>(() => {
-    try {
-      const raw = localStorage.getItem("v3_lastEarlyBehindFiredAt");
-      return raw ? Number(raw) : null;
-    } catch {
-      return null;
-    }
-  });
-  const [lastLateBehindDayKey, setLastLateBehindDayKey] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_lastLateBehindDayKey");
-    } catch {
-      return null;
-    }
-  });
-  const [lastPraiseDateKey, setLastPraiseDateKey] = useState<string | null>(() => {
-    try {
-      return localStorage.getItem("v3_lastPraiseDateKey");
-    } catch {
-      return null;
-    }
-  });
   const [notifPromptPending, setNotifPromptPending] = useState(false);
-  const [notifPrompted, setNotifPrompted] = useState(() => {
-    try {
-      return localStorage.getItem("v3_notifPrompted") === "1";
-    } catch {
-      return false;
-    }
-  });
   const [showMorningReset, setShowMorningReset] = useState(false);
   const [morningResetClosing, setMorningResetClosing] = useState(false);
 
@@ -1781,17 +1765,15 @@ export default function WaterBottleTracker() {
 
 
 
+  const dispatchLedger = (action: LedgerAction) => {
+    setState((s) => {
+      const notifications = ledgerReducer(s.notifications, action);
+      return notifications === s.notifications ? s : { ...s, notifications };
+    });
+  };
+
   const checkMorningReset = () => {
-    if (!state.hasOnboarded) {
-      setShowMorningReset(false);
-      setMorningResetClosing(false);
-      return;
-    }
-    const nowMins = getNowMinutes();
-    const wakeMins = clamp(Math.round(state.wakeMins), 0, 1439);
-    const todayKey = getTodayKey();
-    const token = `${todayKey}-${wakeMins}`;
-    if (nowMins >= wakeMins && lastMorningResetToken !== token) {
+    if (state.hasOnboarded && shouldShowMorningReset(state.notifications, new Date(), wakeTimes(scheduleFields))) {
       setShowMorningReset(true);
       setMorningResetClosing(false);
     } else {
@@ -1802,28 +1784,15 @@ export default function WaterBottleTracker() {
 
   const scheduleMorningResetIfEligible = async () => {
     if (!Capacitor.isNativePlatform()) return;
-    const wakeMins = clamp(Math.round(state.wakeMins), 0, 1439);
-    if (!Number.isFinite(wakeMins)) return;
-
-    const now = new Date();
-    const target = new Date(now);
-    target.setHours(Math.floor(wakeMins / 60), wakeMins % 60, 0, 0);
-    target.setMinutes(target.getMinutes() + 7);
-
-    if (target.getTime() <= now.getTime()) {
-      target.setDate(target.getDate() + 1);
-    }
 
     try {
-      await LocalNotifications.cancel({ notifications: [{ id: 1001 }] });
+      await LocalNotifications.cancel({ notifications: [{ id: MORNING_RESET_ID }] });
     } catch {
       // ignore
     }
 
-    const targetDayKey = getTodayKey(target);
-    if (lastAppOpenDayKey === targetDayKey || lastRefillOrLogDayKey === targetDayKey) {
-      return;
-    }
+    const target = planMorningReset(state.notifications, new Date(), wakeTimes(scheduleFields));
+    if (!target) return;
 
     try {
       const perm = await LocalNotifications.requestPermissions();
@@ -1831,7 +1800,7 @@ export default function WaterBottleTracker() {
       await LocalNotifications.schedule({
         notifications: [
           {
-            id: 1001,
+            id: MORNING_RESET_ID,
             title: "Morning Reset 🌞",
             body: "Refill your bottle and we’ll track from here.",
             schedule: { at: target },
@@ -1843,152 +1812,89 @@ export default function WaterBottleTracker() {
     }
   };
 
-  const getWindowForSchedule = (now: Date, wakeMins: number, sleepMins: number) => {
-    const wake = new Date(now);
-    wake.setHours(Math.floor(wakeMins / 60), wakeMins % 60, 0, 0);
-    const sleep = new Date(now);
-    sleep.setHours(Math.floor((sleepMins % 1440) / 60), sleepMins % 60, 0, 0);
-    if (sleepMins <= wakeMins) {
-      sleep.setDate(sleep.getDate() + 1);
-    }
-    if (now.getTime() > sleep.getTime()) {
-      wake.setDate(wake.getDate() + 1);
-      sleep.setDate(sleep.getDate() + 1);
-    }
-    return { wake, sleep };
-  };
-
-  const computeWindowProgress = (now: Date, wake: Date, sleep: Date) => {
-    if (now.getTime() <= wake.getTime()) return 0;
-    if (now.getTime() >= sleep.getTime()) return 1;
-    const total = sleep.getTime() - wake.getTime();
-    return total > 0 ? clamp((now.getTime() - wake.getTime()) / total, 0, 1) : 0;
-  };
-
-  const getHydrationWindowBoundsForDayKey = (key: string, wakeMins: number, sleepMins: number) => {
-    const [y, m, d] = key.split("-").map((n) => Number(n));
-    const base = new Date(y, (m || 1) - 1, d || 1, 0, 0, 0, 0);
-    const start = new Date(base);
-    start.setHours(Math.floor(wakeMins / 60), wakeMins % 60, 0, 0);
-    const end = new Date(base);
-    end.setHours(Math.floor((sleepMins % 1440) / 60), sleepMins % 60, 0, 0);
-    if (sleepMins < wakeMins) {
-      end.setDate(end.getDate() + 1);
-    }
-    return { start, end };
-  };
-
-  const getRhythmWindowIndexForDayKey = (
-    atMs: number,
+  // Appends one event to `key`'s journal and re-derives that day's dailyLog entry from it.
+  const recordDrinkEvent = (
+    s: AppState,
     key: string,
-    wakeMins: number,
-    sleepMins: number
-  ): 0 | 1 | 2 | 3 | 4 => {
-    const { start, end } = getHydrationWindowBoundsForDayKey(key, wakeMins, sleepMins);
-    const total = end.getTime() - start.getTime();
-    if (total <= 0) return 0;
-    if (atMs >= end.getTime()) return 4;
-    const elapsed = clamp(atMs - start.getTime(), 0, total - 1);
-    const segment = total / 5;
-    return Math.min(4, Math.max(0, Math.floor(elapsed / segment))) as 0 | 1 | 2 | 3 | 4;
-  };
-
-  const updateDailyLogRhythm = (s: AppState, atMs: number, deltaMl: number) => {
-    const at = new Date(atMs);
-    const key = dayKeyByWake(at, s.wakeMins);
+    e: { source: DrinkSource; ml: number; at: number; undoes?: string; beverage?: BeverageId; volumeML?: number }
+  ): { state: AppState; eventId: string } => {
+    const event: DrinkEvent = {
+      id: newDrinkEventId(e.at),
+      at: e.at,
+      source: e.source,
+      ml: Math.round(e.ml),
+      bottleId: currentBottleId(s),
+      ...(e.undoes ? { undoes: e.undoes } : {}),
+      ...(e.beverage ? { beverage: e.beverage } : {}),
+      ...(typeof e.volumeML === "number" ? { volumeML: Math.round(e.volumeML) } : {}),
+    };
+    const journal = appendDrinkEvent(s.journal || {}, key, event);
     const existing = (s.dailyLog || {})[key];
-    const windowHitCounts = Array.isArray(existing?.windowHitCounts) && existing.windowHitCounts.length === 5
-      ? [...existing.windowHitCounts]
-      : Array.isArray(existing?.windowHits) && existing.windowHits.length === 5
-        ? existing.windowHits.map((hit: boolean) => (hit ? 1 : 0))
-        : [0, 0, 0, 0, 0];
-    const windowConsumedML = Array.isArray(existing?.windowConsumedML) && existing.windowConsumedML.length === 5
-      ? [...existing.windowConsumedML]
-      : [0, 0, 0, 0, 0];
-    const idx = getRhythmWindowIndexForDayKey(atMs, key, s.wakeMins, s.sleepMins);
-    if (import.meta.env.DEV && deltaMl >= 120) {
-      const { start, end } = getHydrationWindowBoundsForDayKey(key, s.wakeMins, s.sleepMins);
-      const total = end.getTime() - start.getTime();
-      const elapsed = clamp(atMs - start.getTime(), 0, Math.max(0, total - 1));
-      const segment = total > 0 ? total / 5 : 0;
-      console.log("[DEV] rhythm window index", {
+    const isLiveDay = key === s.dayKey;
+    const base: DailyLogEntry = {
+      consumedML: isLiveDay ? totalConsumedFromState(s) : (existing?.consumedML ?? 0),
+      goalML: isLiveDay ? todayGoalML(s) : (existing?.goalML ?? goalForDayKey(s, key)),
+      bottleML: isLiveDay ? s.bottleML : (existing?.bottleML ?? s.bottleML),
+      carryML: isLiveDay ? s.carryML : (existing?.carryML ?? 0),
+      extraML: isLiveDay ? s.extraML : (existing?.extraML ?? 0),
+      at: existing?.at ?? e.at,
+      windowHitCounts: existing?.windowHitCounts ?? emptyWindows(),
+      windowConsumedML: existing?.windowConsumedML ?? emptyWindows(),
+    };
+    const dayWindow = windowForDayKey(s, key);
+    const entry = deriveDailyLogEntry(base, journal[key], key, dayWindow.wakeMins, dayWindow.sleepMins);
+    if (import.meta.env.DEV) {
+      console.log("[DEV] journal event", {
         dayKey: key,
-        wakeMins: s.wakeMins,
-        sleepMins: s.sleepMins,
-        hydrationStart: start.toISOString(),
-        hydrationEnd: end.toISOString(),
-        eventAt: at.toISOString(),
-        elapsedWithinWindowMs: elapsed,
-        segmentLengthMs: segment,
-        windowIndex: idx,
+        event,
+        windowIndex: rhythmWindowIndexAt(e.at, key, dayWindow.wakeMins, dayWindow.sleepMins),
+        consumedML: entry.consumedML,
+        windowHitCounts: entry.windowHitCounts,
+        windowConsumedML: entry.windowConsumedML,
       });
     }
-    if (deltaMl >= 120) {
-      windowHitCounts[idx] = Math.max(0, windowHitCounts[idx] + 1);
-      windowConsumedML[idx] = Math.max(0, windowConsumedML[idx] + deltaMl);
-    }
-    return {
-      ...(s.dailyLog || {}),
-      [key]: {
-        consumedML: totalConsumedFromState(s),
-        goalML: s.goalML,
-        bottleML: s.bottleML,
-        carryML: s.carryML,
-        extraML: s.extraML,
-        at: existing?.at ?? atMs,
-        windowHitCounts,
-        windowConsumedML,
-        lastEventAt: atMs,
-      },
-    };
+    return { state: { ...s, journal, dailyLog: { ...(s.dailyLog || {}), [key]: entry } }, eventId: event.id };
   };
 
   const cancelBehindNudge = async () => {
     try {
-      await LocalNotifications.cancel({ notifications: [{ id: 1002 }] });
+      await LocalNotifications.cancel({ notifications: [{ id: BEHIND_NUDGE_ID }] });
     } catch {
       // ignore
     }
-    setBehindNudgeScheduledDayKey(null);
-    setBehindNudgeScheduledAtMs(null);
+    dispatchLedger({ type: "behindNudgeCancelled" });
   };
 
   const cancelLateBehindNudge = async () => {
     try {
-      await LocalNotifications.cancel({ notifications: [{ id: 1003 }] });
+      await LocalNotifications.cancel({ notifications: [{ id: LATE_BEHIND_NUDGE_ID }] });
     } catch {
       // ignore
     }
   };
 
+  const behindBottlesAt = (now: Date) => {
+    const expectedMl = expectedMlAt(todayGoal, now, todayWindow.wakeMins, todayWindow.sleepMins, pacing);
+    const expectedBottles = state.bottleML > 0 ? expectedMl / state.bottleML : 0;
+    return expectedBottles - totalConsumed / state.bottleML;
+  };
+
   const maybeScheduleBehindNudge = async () => {
     if (!Capacitor.isNativePlatform()) return;
-    const wakeMins = clamp(Math.round(state.wakeMins), 0, 1439);
-    const sleepMins = clamp(Math.round(state.sleepMins), 0, 1439);
-    if (!Number.isFinite(wakeMins) || !Number.isFinite(sleepMins)) return;
     if (!state.bottleML || state.bottleML <= 0) return;
 
     const now = new Date();
-    const { wake, sleep } = getWindowForSchedule(now, wakeMins, sleepMins);
-    const expectedBottles = state.bottleML > 0 ? expectedMlAt(state.goalML, now, state.wakeMins, state.sleepMins) / state.bottleML : 0;
-    const actualConsumedBottles = totalConsumed / state.bottleML;
-    const behindBottles = expectedBottles - actualConsumedBottles;
-
-    if (behindNudgeScheduledDayKey && behindNudgeScheduledDayKey === getTodayKey(now) && behindBottles < 0.3) {
+    const plan = planBehindNudge(state.notifications, {
+      now,
+      wakeMins: wakeTimes(scheduleFields),
+      sleepMins: sleepTimes(scheduleFields),
+      behindBottles: behindBottlesAt(now),
+    });
+    if (plan.kind === "cancel") {
       await cancelBehindNudge();
       return;
     }
-
-    const wakePlus20 = new Date(wake.getTime() + 20 * 60 * 1000);
-    const quarterPoint = new Date(wake.getTime() + 0.25 * (sleep.getTime() - wake.getTime()));
-    let triggerTime = new Date(Math.max(now.getTime() + 60 * 1000, wakePlus20.getTime(), quarterPoint.getTime()));
-    const targetDayKey = getTodayKey(triggerTime);
-
-    if (lastBehindNudgeDayKey === targetDayKey) return;
-    if (lastRefillOrLogDayKey === targetDayKey) return;
-    if (behindBottles < 0.3) return;
-
-    if (behindNudgeScheduledDayKey === targetDayKey) return;
+    if (plan.kind !== "schedule") return;
 
     try {
       const perm = await LocalNotifications.requestPermissions();
@@ -1997,16 +1903,14 @@ export default function WaterBottleTracker() {
       await LocalNotifications.schedule({
         notifications: [
           {
-            id: 1002,
+            id: BEHIND_NUDGE_ID,
             title: "Quick check-in 💧",
             body: "Have you had your first few sips yet?",
-            schedule: { at: triggerTime },
+            schedule: { at: plan.at },
           },
         ],
       });
-      setBehindNudgeScheduledDayKey(targetDayKey);
-      setBehindNudgeScheduledAtMs(triggerTime.getTime());
-      setLastEarlyBehindFiredAt(triggerTime.getTime());
+      dispatchLedger({ type: "behindNudgeScheduled", dayKey: plan.dayKey, atMs: plan.at.getTime() });
     } catch {
       // ignore
     }
@@ -2014,9 +1918,6 @@ export default function WaterBottleTracker() {
 
   const maybeScheduleLateBehindNudge = async () => {
     if (!Capacitor.isNativePlatform()) return;
-    const wakeMins = clamp(Math.round(state.wakeMins), 0, 1439);
-    const sleepMins = clamp(Math.round(state.sleepMins), 0, 1439);
-    if (!Number.isFinite(wakeMins) || !Number.isFinite(sleepMins)) return;
     if (!state.bottleML || state.bottleML <= 0) return;
 
     const devNowMs =
@@ -2024,38 +1925,17 @@ export default function WaterBottleTracker() {
         ? (window as any).__LATE_BEHIND_NOW__
         : null;
     const now = devNowMs ? new Date(devNowMs) : new Date();
-    const { wake, sleep } = getWindowForSchedule(now, wakeMins, sleepMins);
-    const expectedBottles = state.bottleML > 0 ? expectedMlAt(state.goalML, now, state.wakeMins, state.sleepMins) / state.bottleML : 0;
-    const actualConsumedBottles = totalConsumed / state.bottleML;
-    const behindBottles = expectedBottles - actualConsumedBottles;
-    const wakePlus70 = new Date(wake.getTime() + 0.7 * (sleep.getTime() - wake.getTime()));
-    const triggerTime = new Date(Math.max(now.getTime() + 2 * 60 * 1000, wakePlus70.getTime()));
-    const dayKey = getTodayKey(triggerTime);
-    const alreadyFired = lastLateBehindDayKey === dayKey;
-    const refilledAfterEarly =
-      typeof lastEarlyBehindFiredAt === "number" &&
-      typeof lastRefillOrLogAt === "number" &&
-      lastRefillOrLogAt > lastEarlyBehindFiredAt;
-    const shouldScheduleLate = behindBottles >= 0.5 && !alreadyFired && !refilledAfterEarly;
-
-    if (import.meta.env.DEV) {
-      console.log("LateBehind check", {
-        windowProgress: computeWindowProgress(now, wake, sleep),
-        behindBottles,
-        earlyAt: lastEarlyBehindFiredAt,
-        refillAt: lastRefillOrLogAt,
-        refilledAfterEarly,
-        alreadyFired,
-        shouldScheduleLate,
-      });
-    }
-
-    if (!shouldScheduleLate) {
-      if (behindBottles < 0.5 || refilledAfterEarly) {
-        await cancelLateBehindNudge();
-      }
+    const plan = planLateBehindNudge(state.notifications, {
+      now,
+      wakeMins: wakeTimes(scheduleFields),
+      sleepMins: sleepTimes(scheduleFields),
+      behindBottles: behindBottlesAt(now),
+    });
+    if (plan.kind === "cancel") {
+      await cancelLateBehindNudge();
       return;
     }
+    if (plan.kind !== "schedule") return;
 
     try {
       const perm = await LocalNotifications.requestPermissions();
@@ -2064,14 +1944,14 @@ export default function WaterBottleTracker() {
       await LocalNotifications.schedule({
         notifications: [
           {
-            id: 1003,
+            id: LATE_BEHIND_NUDGE_ID,
             title: "Still time 💙",
             body: "A few sips now will keep today on track.",
-            schedule: { at: triggerTime },
+            schedule: { at: plan.at },
           },
         ],
       });
-      setLastLateBehindDayKey(dayKey);
+      dispatchLedger({ type: "lateBehindNudgeScheduled", dayKey: plan.dayKey });
     } catch {
       // ignore
     }
@@ -2086,54 +1966,33 @@ export default function WaterBottleTracker() {
     void reason;
 
     const now = new Date();
-    const todayKey = getTodayKey(now);
-    const openedToday = lastAppOpenDayKey === todayKey;
-    if (!openedToday) return;
-    if (lastPraiseDateKey === todayKey) return;
-
-    const behindNudgeFiredToday = lastBehindNudgeDayKey === todayKey || lastLateBehindDayKey === todayKey;
-    if (behindNudgeFiredToday) return;
-
-    const { wake, sleep } = getWindowForSchedule(now, state.wakeMins, state.sleepMins);
-    const windowProgress = computeWindowProgress(now, wake, sleep);
-    if (windowProgress < 0.25) return;
-
-    const expectedBottlesNow = expectedMlAt(state.goalML, now, state.wakeMins, state.sleepMins) / state.bottleML;
+    const expectedBottlesNow = expectedMlAt(todayGoal, now, todayWindow.wakeMins, todayWindow.sleepMins, pacing) / state.bottleML;
     const actualConsumedMl = typeof actualConsumedMlOverride === "number" ? actualConsumedMlOverride : totalConsumed;
-    const actualBottlesNow = actualConsumedMl / state.bottleML;
-    const deltaBottles = actualBottlesNow - expectedBottlesNow;
-    if (deltaBottles < 0) return;
-
-    const absDelta = Math.abs(deltaBottles);
-    let title: string | null = null;
-    let body: string | null = null;
-
-    if (absDelta <= 0.2) {
-      title = "Nice one 💧";
-      body = "You’re right on pace.";
-    } else if (deltaBottles >= 0.3) {
-      const aheadBy = format1(Math.round(deltaBottles * 10) / 10);
-      title = "Good job 💧";
-      body = `You’re ahead by ~${aheadBy} bottles.`;
-    } else {
-      return;
-    }
+    const praise = planPraise(state.notifications, {
+      now,
+      wakeMins: wakeTimes(scheduleFields),
+      sleepMins: sleepTimes(scheduleFields),
+      deltaBottles: actualConsumedMl / state.bottleML - expectedBottlesNow,
+      bottleML: state.bottleML,
+      volume: volUnit,
+    });
+    if (!praise) return;
 
     try {
       const perm = await LocalNotifications.requestPermissions();
       if (perm.display !== "granted") return;
-      await LocalNotifications.cancel({ notifications: [{ id: 1004 }] });
+      await LocalNotifications.cancel({ notifications: [{ id: PRAISE_ID }] });
       await LocalNotifications.schedule({
         notifications: [
           {
-            id: 1004,
-            title,
-            body,
+            id: PRAISE_ID,
+            title: praise.title,
+            body: praise.body,
             schedule: { at: new Date(Date.now() + 1000) },
           },
         ],
       });
-      setLastPraiseDateKey(todayKey);
+      dispatchLedger({ type: "praiseSent", dayKey: praise.dayKey });
     } catch {
       // ignore
     }
@@ -2145,20 +2004,22 @@ export default function WaterBottleTracker() {
     scheduleMorningResetIfEligible();
     maybeScheduleBehindNudge();
     maybeScheduleLateBehindNudge();
-  }, [state.wakeMins, state.sleepMins, lastMorningResetToken, lastAppOpenDayKey, lastRefillOrLogDayKey, lastBehindNudgeDayKey, behindNudgeScheduledDayKey]);
+  }, [
+    scheduleFields,
+    state.notifications.lastMorningResetToken,
+    state.notifications.lastAppOpenDayKey,
+    state.notifications.lastRefillOrLogDayKey,
+    state.notifications.lastBehindNudgeDayKey,
+    state.notifications.behindNudgeScheduledDayKey,
+  ]);
 
   useEffect(() => {
     const onVis = () => {
       if (document.visibilityState === "visible") {
-        setLastAppOpenDayKey(getTodayKey());
-        if (behindNudgeScheduledDayKey) {
-          void cancelBehindNudge();
-        }
-        if (behindNudgeScheduledDayKey && behindNudgeScheduledAtMs && Date.now() >= behindNudgeScheduledAtMs) {
-          setLastBehindNudgeDayKey(getTodayKey());
-          setBehindNudgeScheduledAtMs(null);
-          setBehindNudgeScheduledDayKey(null);
+        if (state.notifications.behindNudgeScheduledDayKey) {
+          void LocalNotifications.cancel({ notifications: [{ id: BEHIND_NUDGE_ID }] }).catch(() => {});
         }
+        dispatchLedger({ type: "appResumed", dayKey: getTodayKey(), atMs: Date.now() });
         checkMorningReset();
         scheduleMorningResetIfEligible();
         maybeScheduleBehindNudge();
@@ -2167,28 +2028,16 @@ export default function WaterBottleTracker() {
     };
     document.addEventListener("visibilitychange", onVis);
     return () => document.removeEventListener("visibilitychange", onVis);
-  }, [
-    state.wakeMins,
-    state.sleepMins,
-    lastMorningResetToken,
-    lastAppOpenDayKey,
-    lastRefillOrLogDayKey,
-    lastBehindNudgeDayKey,
-    behindNudgeScheduledDayKey,
-    behindNudgeScheduledAtMs,
-    lastLateBehindDayKey,
-    lastEarlyBehindFiredAt,
-    lastRefillOrLogAt,
-  ]);
+  }, [scheduleFields, state.notifications]);
 
   useEffect(() => {
-    setLastAppOpenDayKey(getTodayKey());
+    dispatchLedger({ type: "appOpened", dayKey: getTodayKey() });
   }, []);
 
   useEffect(() => {
     if (!notifPromptPending || !state.hasOnboarded || state.step !== 0) return;
     setNotifPromptPending(false);
-    setNotifPrompted(true);
+    dispatchLedger({ type: "notifPrompted" });
     void (async () => {
       try {
         await LocalNotifications.requestPermissions();
@@ -2199,125 +2048,6 @@ export default function WaterBottleTracker() {
     })();
   }, [notifPromptPending, state.hasOnboarded, state.step]);
 
-  useEffect(() => {
-    try {
-      if (lastMorningResetToken) {
-        localStorage.setItem("v3_lastMorningResetToken", lastMorningResetToken);
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastMorningResetToken]);
-
-  useEffect(() => {
-    try {
-      if (lastAppOpenDayKey) {
-        localStorage.setItem("v3_lastAppOpenDayKey", lastAppOpenDayKey);
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastAppOpenDayKey]);
-
-  useEffect(() => {
-    try {
-      if (lastRefillOrLogDayKey) {
-        localStorage.setItem("v3_lastRefillOrLogDayKey", lastRefillOrLogDayKey);
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastRefillOrLogDayKey]);
-
-  useEffect(() => {
-    try {
-      if (typeof lastRefillOrLogAt === "number" && Number.isFinite(lastRefillOrLogAt)) {
-        localStorage.setItem("v3_lastRefillOrLogAt", String(lastRefillOrLogAt));
-      } else {
-        localStorage.removeItem("v3_lastRefillOrLogAt");
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastRefillOrLogAt]);
-
-  useEffect(() => {
-    try {
-      if (lastBehindNudgeDayKey) {
-        localStorage.setItem("v3_lastBehindNudgeDayKey", lastBehindNudgeDayKey);
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastBehindNudgeDayKey]);
-
-  useEffect(() => {
-    try {
-      if (behindNudgeScheduledDayKey) {
-        localStorage.setItem("v3_behindNudgeScheduledDayKey", behindNudgeScheduledDayKey);
-      } else {
-        localStorage.removeItem("v3_behindNudgeScheduledDayKey");
-      }
-    } catch {
-      // ignore
-    }
-  }, [behindNudgeScheduledDayKey]);
-
-  useEffect(() => {
-    try {
-      if (typeof behindNudgeScheduledAtMs === "number" && Number.isFinite(behindNudgeScheduledAtMs)) {
-        localStorage.setItem("v3_behindNudgeScheduledAtMs", String(behindNudgeScheduledAtMs));
-      } else {
-        localStorage.removeItem("v3_behindNudgeScheduledAtMs");
-      }
-    } catch {
-      // ignore
-    }
-  }, [behindNudgeScheduledAtMs]);
-
-  useEffect(() => {
-    try {
-      if (typeof lastEarlyBehindFiredAt === "number" && Number.isFinite(lastEarlyBehindFiredAt)) {
-        localStorage.setItem("v3_lastEarlyBehindFiredAt", String(lastEarlyBehindFiredAt));
-      } else {
-        localStorage.removeItem("v3_lastEarlyBehindFiredAt");
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastEarlyBehindFiredAt]);
-
-  useEffect(() => {
-    try {
-      if (lastLateBehindDayKey) {
-        localStorage.setItem("v3_lastLateBehindDayKey", lastLateBehindDayKey);
-      } else {
-        localStorage.removeItem("v3_lastLateBehindDayKey");
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastLateBehindDayKey]);
-  useEffect(() => {
-    try {
-      if (lastPraiseDateKey) {
-        localStorage.setItem("v3_lastPraiseDateKey", lastPraiseDateKey);
-      } else {
-        localStorage.removeItem("v3_lastPraiseDateKey");
-      }
-    } catch {
-      // ignore
-    }
-  }, [lastPraiseDateKey]);
-
-  useEffect(() => {
-    try {
-      localStorage.setItem("v3_notifPrompted", notifPrompted ? "1" : "0");
-    } catch {
-      // ignore
-    }
-  }, [notifPrompted]);
-
   function onOnboardingPick() {
     setOnboardingScanError(null);
     onboardingFileRef.current?.click();
@@ -2335,9 +2065,9 @@ export default function WaterBottleTracker() {
       try {
         const dataUrl = await fileToDataUrl(file);
         const downscaled = await downscaleDataUrl(dataUrl, 1200, 0.85);
-        const percent = await estimatePercentFull(downscaled, controller.signal);
-        const fraction = clamp(percent / 100, 0, 1);
-        setState((s) => ({ ...s, onboardingScanPercent: Math.round(percent), onboardingScanFraction: fraction }));
+        const { percent } = await fillEstimatorFor(state).estimate(downscaled, controller.signal);
+        const fraction = scanFraction(percent);
+        setState((s) => ({ ...s, onboardingScanPercent: Math.round(fraction * 100), onboardingScanFraction: fraction }));
         setOnboardingScanState("idle");
         setStep(10);
       } catch (err) {
@@ -2351,12 +2081,58 @@ export default function WaterBottleTracker() {
     })();
   }
 
+  // Step 5 "Scan label": barcode → offline catalogue → bottle size and shape. `gtin` is the
+  // label just read, remembered with the size and shape the user continues with.
+  const labelFileRef = useRef<HTMLInputElement | null>(null);
+  const [labelScan, setLabelScan] = useState<{ busy: boolean; message: string | null; gtin: string | null }>({
+    busy: false,
+    message: null,
+    gtin: null,
+  });
+
+  function onLabelFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setLabelScan({ busy: true, message: null, gtin: null });
+    (async () => {
+      try {
+        const code = await readBarcode(await fileToDataUrl(file));
+        const gtin = code ? gtinFromCode(code) : null;
+        if (!code || !gtin) {
+          setLabelScan({ busy: false, message: "Couldn’t find a product barcode. Enter the size by hand.", gtin: null });
+          return;
+        }
+        const match = lookupBottle(gtin, stateRef.current.learnedLabels);
+        if (!match) {
+          setLabelScan({ busy: false, message: `New label (${gtin}). Set the size and shape, and we’ll remember them for it.`, gtin });
+          return;
+        }
+        setState((s) => updateBottle(s, s.activeBottleId, { shapeId: bottleShapeById(match.shapeId, s.customShapes).id }));
+        setBottleSizeDraft(volumeInputValue(match.capacityML, volUnit));
+        setLabelScan({ busy: false, message: `Found ${match.name}.`, gtin });
+      } catch {
+        setLabelScan({ busy: false, message: "Couldn’t read that photo. Enter the size by hand.", gtin: null });
+      }
+    })();
+  }
+
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const scanAbortRef = useRef<AbortController | null>(null);
   const [scanState, setScanState] = useState<"idle" | "picking" | "scanning" | "done" | "error">("idle");
   const [scanMessage, setScanMessage] = useState<string | null>(null);
   const [scanError, setScanError] = useState<string | null>(null);
   const [scanCooldownUntil, setScanCooldownUntil] = useState<number>(0);
+  // A finished scan waits here until the user confirms or adjusts the water line.
+  const [scanReview, setScanReview] = useState<{
+    imageDataUrl: string;
+    estimate: FillEstimate;
+    capturedAt: number;
+    estimator: FillEstimatorKind;
+  } | null>(null);
+  const [scanQueue, setScanQueue] = useState<QueuedScan[]>(() => loadScanQueue());
+  const queueRetryRef = useRef<AbortController | null>(null);
+  const [scanHistory, setScanHistory] = useState<ScanRecord[]>(() => loadScanHistory());
   const [scanCooldownLeftMs, setScanCooldownLeftMs] = useState<number>(0);
   const scanHintTimeoutRef = useRef<number | null>(null);
   const [scanMessageVisible, setScanMessageVisible] = useState(false);
@@ -2365,7 +2141,70 @@ export default function WaterBottleTracker() {
   useEffect(() => {
     return () => {
       if (scanAbortRef.current) scanAbortRef.current.abort();
+      if (queueRetryRef.current) queueRetryRef.current.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    saveScanQueue(scanQueue);
+  }, [scanQueue]);
+
+  useEffect(() => {
+    saveScanHistory(scanHistory);
+  }, [scanHistory]);
+
+  // Saved scans that can no longer be placed (tracked since, or the day rolled over) are dropped.
+  useEffect(() => {
+    const stale = scanQueue.filter((q) =>
+      isScanSuperseded(q, { dayKey: state.dayKey, history: state.history, bottles: state.bottles, activeBottleId: state.activeBottleId })
+    );
+    if (stale.length === 0) return;
+    if (import.meta.env.DEV) console.log("[DEV] dropping superseded queued scans", stale.map((q) => q.id));
+    setScanQueue((q) => q.filter((x) => !stale.some((st) => st.id === x.id)));
+    setScanMessage(
+      stale.length === 1
+        ? "A saved scan was skipped since you’ve tracked or changed bottles after it."
+        : `${stale.length} saved scans were skipped since you’ve tracked or changed bottles after them.`
+    );
+  }, [scanQueue, state.dayKey, state.history, state.activeBottleId, state.bottles]);
+
+  // Retries the earliest due saved scan, one at a time, with the estimator currently selected.
+  useEffect(() => {
+    if (queueRetryRef.current) return;
+    const due = nextDueScan(scanQueue);
+    if (!due) return;
+    const t = window.setTimeout(() => {
+      const controller = new AbortController();
+      queueRetryRef.current = controller;
+      (async () => {
+        try {
+          const estimator = fillEstimatorFor(stateRef.current, due.shapeId);
+          const estimate = await estimator.estimate(due.imageDataUrl, controller.signal);
+          setScanQueue((q) => markScanRead(q, due.id, estimate, estimator.kind));
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          if (import.meta.env.DEV) console.log("[DEV] queued scan retry failed", { id: due.id, attempts: due.attempts, err });
+          if (isRetryableScanError(err)) {
+            setScanQueue((q) => markScanRetryFailed(q, due.id, err, Date.now()));
+          } else {
+            setScanQueue((q) => removeQueuedScan(q, due.id));
+            setScanError(err instanceof Error ? err.message : "Couldn’t read a saved scan.");
+          }
+        } finally {
+          queueRetryRef.current = null;
+        }
+      })();
+    }, Math.max(0, due.nextAttemptAt - Date.now()));
+    return () => window.clearTimeout(t);
+  }, [scanQueue]);
+
+  // Coming back online retries saved scans right away instead of waiting out the backoff.
+  useEffect(() => {
+    const onOnline = () => {
+      setScanQueue((q) => (q.some((x) => x.estimate === null) ? q.map((x) => (x.estimate === null ? { ...x, nextAttemptAt: Date.now() } : x)) : q));
     };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
   }, []);
 
   useEffect(() => {
@@ -2440,15 +2279,14 @@ export default function WaterBottleTracker() {
     setScanError(null);
   }
 
-  function commitScanToDailyProgress(scannedFraction: number, reason: "scan" | "track" | "refill") {
+  function commitScanToDailyProgress(scannedFraction: number, reason: "scan" | "track" | "refill", at?: number) {
     const wasEmpty = scannedFraction <= 0.0001;
-    setRemaining(scannedFraction, { action: "track" });
+    setRemaining(scannedFraction, { action: "track", source: reason === "scan" ? "scan" : "track", at });
     if (wasEmpty) setPendingRemaining(1);
-    setLastRefillOrLogDayKey(getTodayKey());
-    setLastRefillOrLogAt(Date.now());
+    dispatchLedger({ type: "refillOrLog", dayKey: getTodayKey(), atMs: Date.now() });
     void cancelBehindNudge();
     void cancelLateBehindNudge();
-    const today = dayKeyByWake(new Date(), stateRef.current.wakeMins);
+    const today = dayKeyByWake(new Date(), wakeTimes(stateRef.current));
     let ss = stateRef.current;
     if (ss.dayKey !== today) {
       ss = { ...ss, dayKey: today, completedBottles: 0, remaining: 1, carryML: 0, extraML: 0, history: [], celebrate: null };
@@ -2471,17 +2309,18 @@ export default function WaterBottleTracker() {
     setScanState("scanning");
     setScanMessage("Scanning...");
     setScanError(null);
+    const capturedAt = Date.now();
+    const photographed = { bottleId: state.activeBottleId, shapeId: bottleShapeById(activeBottle(state)?.shapeId, state.customShapes).id };
+    let downscaled: string | null = null;
     (async () => {
       try {
         const dataUrl = await fileToDataUrl(file);
-        const downscaled = await downscaleDataUrl(dataUrl, 1200, 0.85);
-        const percent = await estimatePercentFull(downscaled, controller.signal);
-        const fraction = clamp(percent / 100, 0, 1);
-        setPendingRemaining(fraction);
-        setScanAnimTarget(fraction);
-        setLowLevelTracked(false);
+        downscaled = await downscaleDataUrl(dataUrl, 1200, 0.85);
+        const estimator = fillEstimatorFor(state, photographed.shapeId);
+        const estimate = await estimator.estimate(downscaled, controller.signal);
+        setScanReview({ imageDataUrl: downscaled, estimate, capturedAt, estimator: estimator.kind });
         setScanState("done");
-        setScanMessage(`Scan complete: ${Math.round(percent)}% full`);
+        setScanMessage(null);
         setScanError(null);
       } catch (err) {
         if (controller.signal.aborted) {
@@ -2491,14 +2330,32 @@ export default function WaterBottleTracker() {
           return;
         }
         const msg = err instanceof Error ? err.message : "Couldn’t read the bottle. Try again.";
-        setScanState("error");
-        setScanMessage(null);
 
         if (err instanceof RateLimitError) {
           const ms = typeof err.retryAfterMs === "number" && err.retryAfterMs > 0 ? err.retryAfterMs : 15000;
           setScanCooldownUntil(Date.now() + ms);
         }
 
+        // Keep the photo and read it later rather than making the user re-shoot.
+        if (downscaled && isRetryableScanError(err)) {
+          const imageDataUrl = downscaled;
+          setScanQueue((q) =>
+            enqueueScan(q, {
+              imageDataUrl,
+              capturedAt,
+              dayKey: dayKeyByWake(new Date(capturedAt), wakeTimes(stateRef.current)),
+              ...photographed,
+              error: err,
+            })
+          );
+          setScanState("idle");
+          setScanError(null);
+          setScanMessage("Scan saved. We’ll read it once the scanner is reachable.");
+          return;
+        }
+
+        setScanState("error");
+        setScanMessage(null);
         setScanError(msg);
       } finally {
         scanAbortRef.current = null;
@@ -2506,6 +2363,91 @@ export default function WaterBottleTracker() {
     })();
   }
 
+  function trackLevel(fraction: number, reason: "scan" | "track", at?: number) {
+    triggerTrackHaptic();
+    commitScanToDailyProgress(fraction, reason, at);
+    if (fraction <= 0.1) setLowLevelTracked(true);
+    if (levelUpdatedTimeoutRef.current) window.clearTimeout(levelUpdatedTimeoutRef.current);
+    setShowLevelUpdated(true);
+    levelUpdatedTimeoutRef.current = window.setTimeout(() => {
+      setShowLevelUpdated(false);
+      levelUpdatedTimeoutRef.current = null;
+    }, 5000);
+  }
+
+  // Keeps a thumbnail and the estimate next to what was actually tracked (null = thrown away).
+  function recordScan(
+    scan: { imageDataUrl: string; capturedAt: number; estimator: FillEstimatorKind; estimate: FillEstimate },
+    finalPercent: number | null
+  ) {
+    const s = stateRef.current;
+    const bottleId = currentBottleId(s);
+    const bottleName = activeBottle(s)?.name ?? bottleShapeById(activeBottle(s)?.shapeId, s.customShapes).label;
+    void (async () => {
+      let thumbnail = "";
+      try {
+        thumbnail = await downscaleDataUrl(scan.imageDataUrl, 120, 0.6);
+      } catch {
+        // keep the record without a picture
+      }
+      setScanHistory((h) =>
+        appendScanRecord(h, {
+          at: scan.capturedAt,
+          bottleId,
+          bottleName,
+          capacityML: s.bottleML,
+          estimator: scan.estimator,
+          estimatedPercent: scanFraction(scan.estimate.percent) * 100,
+          confidence: scan.estimate.confidence,
+          finalPercent,
+          thumbnail,
+        })
+      );
+    })();
+  }
+
+  // Estimators read the water line as a share of the cavity's height; the tracker runs on
+  // volume, so the level goes through the shape's profile first. The review sheet does the
+  // same, so percents coming back from it are already volume.
+  function scanFraction(heightPercent: number) {
+    return fractionForHeight(activeShapeAssets?.profile ?? null, heightPercent / 100);
+  }
+
+  function confirmScanReview(percent: number) {
+    const fraction = clamp(percent / 100, 0, 1);
+    if (scanReview) recordScan(scanReview, percent);
+    setScanReview(null);
+    setPendingRemaining(fraction);
+    setScanAnimTarget(fraction);
+    setLowLevelTracked(false);
+    setScanMessage(`Scan complete: ${percent}% full`);
+    trackLevel(fraction, "scan");
+  }
+
+  // A saved scan is tracked at the time the photo was taken, so it lands in the right rhythm window.
+  function confirmQueuedScan(q: QueuedScan, percent: number) {
+    setScanQueue((queue) => removeQueuedScan(queue, q.id));
+    if (isScanSuperseded(q, stateRef.current)) return;
+    if (q.estimate && q.estimator) recordScan({ ...q, estimate: q.estimate, estimator: q.estimator }, percent);
+    const fraction = clamp(percent / 100, 0, 1);
+    setPendingRemaining(fraction);
+    setScanAnimTarget(fraction);
+    setLowLevelTracked(false);
+    setScanMessage(`Saved scan from ${formatClock(q.capturedAt, clock)}: ${percent}% full`);
+    trackLevel(fraction, "scan", q.capturedAt);
+  }
+
+  function discardQueuedScan(q: QueuedScan) {
+    setScanQueue((queue) => removeQueuedScan(queue, q.id));
+    if (q.estimate && q.estimator) recordScan({ ...q, estimate: q.estimate, estimator: q.estimator }, null);
+  }
+
+  function retakeScan() {
+    if (scanReview) recordScan(scanReview, null);
+    setScanReview(null);
+    startScanPick();
+  }
+
   function setPendingFromBottlePointer(clientY: number) {
     const el = bottleWrapRef.current;
     if (!el) return;
@@ -2515,7 +2457,7 @@ export default function WaterBottleTracker() {
     const y = clamp(clientY, rect.top + padTop, rect.bottom - padBot);
     const usable = rect.height - padTop - padBot;
     const ratio = 1 - (y - (rect.top + padTop)) / usable;
-    const v = snapValue(ratio, state.snap);
+    const v = snapValue(fractionForHeight(activeShapeAssets?.profile ?? null, ratio), state.snap);
     setPendingRemaining(Math.min(v, state.remaining));
   }
 
@@ -2635,6 +2577,19 @@ export default function WaterBottleTracker() {
 
   const remainingPct = Math.round(pendingRemaining * 100);
   const isLowWater = pendingRemaining <= 0.1;
+  const activeColor = activeBottle(state)?.color ?? "#0A84FF";
+  const activeShape = bottleShapeById(activeBottle(state)?.shapeId, state.customShapes);
+  const canImportShape = state.customShapes.length < MAX_CUSTOM_SHAPES;
+  // Bottle that an imported shape will be applied to while the import sheet is open.
+  const [importShapeFor, setImportShapeFor] = useState<string | null>(null);
+  const activeShapeAssets = useShapeAssets(activeShape);
+  // The locked flag math above places the flag for a straight-sided bottle; move it to
+  // where the shape actually draws the target line.
+  const flagShiftPx =
+    Math.round(300 - heightForFraction(activeShapeAssets?.profile ?? null, targetLineRemainingFraction) * 300) - targetLineY;
+  const readyQueuedScan = scanQueue.find((q) => q.estimate !== null && !isScanSuperseded(q, state));
+  const pendingQueuedScans = scanQueue.filter((q) => q.estimate === null).length;
+  const todayTimeline = useMemo(() => timelineEvents((state.journal || {})[state.dayKey]), [state.journal, state.dayKey]);
 
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [wakeHourInput, setWakeHourInput] = useState(() => String(timeParts(state.wakeMins).h12));
@@ -2642,27 +2597,39 @@ export default function WaterBottleTracker() {
   const [sleepHourInput, setSleepHourInput] = useState(() => String(timeParts(state.sleepMins).h12));
   const [sleepMinInput, setSleepMinInput] = useState(() => String(timeParts(state.sleepMins).min).padStart(2, "0"));
   const [bottleSizeFlowSource, setBottleSizeFlowSource] = useState<"onboarding" | "settings">("onboarding");
+  // The size typed on the bottle step, as typed; it reaches the live bottle on Continue.
+  const [bottleSizeDraft, setBottleSizeDraft] = useState<string | null>(null);
+  const bottleSizeML = bottleSizeDraft === null ? state.bottleML : (parseVolumeInput(bottleSizeDraft, volUnit) ?? NaN);
+  const bottleSizeValid = bottleSizeML >= 100 && bottleSizeML <= 5000;
+
+  // Points the bottle drawing and the pending level at a new live level.
+  function syncLiveLevel(level: number) {
+    setPendingRemaining(level);
+    setDisplayRemaining(level);
+    setScanAnimTarget(level);
+    setLowLevelTracked(false);
+  }
 
-  function switchBottleKeepingConsumed(patch: Partial<AppState>) {
-    setState((s) => {
-      const consumed = totalConsumedFromState(s);
-      return {
-        ...s,
-        ...patch,
-        completedBottles: 0,
-        remaining: 1,
-        carryML: consumed,
-        extraML: 0,
-        history: [],
-        celebrate: null,
-      } as AppState;
-    });
+  function switchBottle(id: string) {
+    const next = savedBottles(state).find((b) => b.id === id);
+    if (!next || id === state.activeBottleId) return;
+    triggerTrackHaptic();
+    setState((s) => switchActiveBottle(s, id));
+    syncLiveLevel(next.remaining);
   }
+
   function setStep(step: AppState["step"]) {
     setState((s) => ({ ...s, step }));
   }
 
   function resetAll() {
+    clearLegacyLedgerKeys();
+    clearScanQueue();
+    setScanQueue([]);
+    clearScanHistory();
+    setScanHistory([]);
+    setBottleSizeDraft(null);
+    setLabelScan({ busy: false, message: null, gtin: null });
     setState(() => makeDefaultState());
     setBottleSizeFlowSource("onboarding");
   }
@@ -2671,16 +2638,18 @@ export default function WaterBottleTracker() {
     commitScanToDailyProgress(pendingRemaining, "refill");
     setState((s) => {
       const consumed = totalConsumedFromState(s);
-      const pct = s.goalML > 0 ? Math.round((consumed / s.goalML) * 100) : 0;
-      const completed = clamp(s.completedBottles, 0, ceilDiv(s.goalML, s.bottleML));
+      const goalML = todayGoalML(s);
+      const pct = goalML > 0 ? Math.round((consumed / goalML) * 100) : 0;
+      const completed = clamp(s.completedBottles, 0, 1000);
       const extra = clamp(s.extraML || 0, 0, 100000);
       const newCarry = clamp(Math.round(consumed - completed * s.bottleML - extra), 0, 100000);
-      return {
+      const next: AppState = {
         ...s,
         celebrate: { type: "bottle", pct: clamp(pct, 0, 100), consumedML: consumed },
         carryML: newCarry,
         remaining: 1,
       };
+      return recordDrinkEvent(next, next.dayKey, { source: "refill", ml: 0, at: Date.now() }).state;
     });
     setPendingRemaining(1);
     setDisplayRemaining(1);
@@ -2709,22 +2678,30 @@ export default function WaterBottleTracker() {
   function handleMorningRefill() {
     setMorningResetClosing(true);
     window.setTimeout(() => {
-      const todayKey = getTodayKey();
-      const wakeMins = clamp(Math.round(state.wakeMins), 0, 1439);
-      setState((s) => ({
-        ...s,
-        dayKey: dayKeyByWake(new Date(), s.wakeMins),
-        completedBottles: 0,
-        remaining: 1,
-        carryML: 0,
-        extraML: 0,
-        history: [],
-        celebrate: null,
-      }));
+      const token = morningResetToken(new Date(), wakeTimes(scheduleFields));
+      setState((s) => {
+        const today = dayKeyByWake(new Date(), wakeTimes(s));
+        const resetToday = totalConsumedFromState(s) > 0 && s.dayKey === today;
+        const next: AppState = {
+          ...s,
+          dayKey: today,
+          completedBottles: 0,
+          remaining: 1,
+          bottles: refillAllBottles(s.bottles),
+          carryML: 0,
+          extraML: 0,
+          history: [],
+          redo: [],
+          celebrate: null,
+        };
+        // Resetting a day that already has drinks is journaled so its totals still add up.
+        if (!resetToday) return next;
+        return recordDrinkEvent(next, today, { source: "refill", ml: -totalConsumedFromState(s), at: Date.now() }).state;
+      });
       setPendingRemaining(1);
       setDisplayRemaining(1);
       setScanAnimTarget(1);
-      setLastMorningResetToken(`${todayKey}-${wakeMins}`);
+      dispatchLedger({ type: "morningResetConfirmed", token });
       setShowMorningReset(false);
       setMorningResetClosing(false);
     }, 220);
@@ -2739,7 +2716,7 @@ export default function WaterBottleTracker() {
     if (!state.weightKg || state.weightKg < 30) return null;
     return recommendGoalML({ weightKg: Number(state.weightKg), activity: state.activity, warm: state.warm });
   }, [state.weightKg, state.activity, state.warm]);
-  const debloatBreakdown = useMemo(() => computeDebloatEloBreakdown(state), [state.dailyLog, state.sleepMins]);
+  const debloatBreakdown = useMemo(() => computeDebloatEloBreakdown(state), [state.dailyLog, scheduleFields]);
   const debloatTier = useMemo(() => {
     const v = Number.isFinite(debloatBreakdown.debloatElo) ? debloatBreakdown.debloatElo : 0;
     if (v >= 85) return { name: "Emerald", emoji: "🐲", color: "#22C55E", detail: "Second Nature" };
@@ -2757,7 +2734,7 @@ export default function WaterBottleTracker() {
     const avgPct =
       debloatBreakdown.days.reduce((sum, d) => {
         if (!d.goalML) return sum;
-        return sum + d.consumedML / d.goalML;
+        return sum + Math.min(1, d.consumedML / d.goalML);
       }, 0) / 7;
     return avgPct < 0.4 ? 1 : avgPct < 0.6 ? 2 : avgPct < 0.8 ? 3 : avgPct < 1 ? 4 : 5;
   }, [debloatBreakdown.days]);
@@ -2778,7 +2755,8 @@ export default function WaterBottleTracker() {
   }, [debloatBreakdown.days]);
   const [weekOffset, setWeekOffset] = useState(0);
   const weeklyData = useMemo(() => {
-    const todayKey = dayKeyByWake(new Date(), state.wakeMins);
+    const wake = wakeTimes(scheduleFields);
+    const todayKey = dayKeyByWake(new Date(), wake);
     const [y, m, d] = todayKey.split("-").map((n) => Number(n));
     const base = new Date(y, (m || 1) - 1, d || 1, 0, 0, 0, 0);
     const day = base.getDay();
@@ -2789,18 +2767,23 @@ export default function WaterBottleTracker() {
       const date = new Date(monday);
       date.setDate(monday.getDate() + i);
       date.setHours(0, 0, 0, 0);
-      date.setMinutes(state.wakeMins + 1, 0, 0);
-      const key = dayKeyByWake(date, state.wakeMins);
+      date.setMinutes(clockTimeOn(date, wake) + 1, 0, 0);
+      const key = dayKeyByWake(date, wake);
       const isToday = key === todayKey;
       const entry = (state.dailyLog || {})[key];
       const consumedML = entry?.consumedML ?? 0;
-      const goalML = entry?.goalML ?? state.goalML ?? 0;
+      const goalML = isToday ? todayGoal : (entry?.goalML ?? goalForDayKey(goalFields, key));
       const ratio = goalML > 0 ? consumedML / goalML : 0;
-      return { key, consumedML, goalML, ratio, isToday };
+      const isEditable = key < todayKey;
+      const isBackfilled = ((state.journal || {})[key] || []).some((e) => e.backfilled);
+      const overLimit = state.safetyLimitML !== null && consumedML >= state.safetyLimitML;
+      return { key, consumedML, goalML, ratio, isToday, isEditable, isBackfilled, overLimit };
     });
-    const weekLabel = monday.toLocaleString("en-US", { month: "short", day: "numeric" });
+    const weekLabel = monday.toLocaleString(undefined, { month: "short", day: "numeric" });
     return { days, weekLabel };
-  }, [state.dailyLog, state.goalML, state.wakeMins, weekOffset]);
+  }, [state.dailyLog, state.journal, state.safetyLimitML, todayGoal, goalFields, scheduleFields, weekOffset]);
+  const [editingDayKey, setEditingDayKey] = useState<string | null>(null);
+  const [showScanHistory, setShowScanHistory] = useState(false);
   const refillCount = useMemo(() => {
     const logs = state.dailyLog || {};
     return Object.values(logs).reduce((sum, day) => {
@@ -2850,6 +2833,28 @@ export default function WaterBottleTracker() {
             @keyframes analyticsIn { from { opacity: 0; transform: translateY(8px); } to { opacity: 1; transform: translateY(0); } }
             @keyframes analyticsOut { from { opacity: 1; transform: translateY(0); } to { opacity: 0; transform: translateY(8px); } }
           `}</style>
+          {editingDayKey && (
+            <DayEditorSheet
+              key={editingDayKey}
+              dayKey={editingDayKey}
+              events={journalDayOrSeed(state, editingDayKey)}
+              goalML={(state.dailyLog || {})[editingDayKey]?.goalML ?? goalForDayKey(goalFields, editingDayKey)}
+              defaultMins={wakeBoundaryMins(windowForDayKey(scheduleFields, editingDayKey).wakeMins + 240)}
+              units={state.units}
+              onAdd={(mins, ml) => setState((s) => applyDayEdit(s, editingDayKey, { kind: "add", mins, ml }))}
+              onRemove={(id) => setState((s) => applyDayEdit(s, editingDayKey, { kind: "remove", id }))}
+              onClose={() => setEditingDayKey(null)}
+            />
+          )}
+          {showScanHistory && (
+            <ScanHistorySheet
+              records={scanHistory}
+              volume={volUnit}
+              clock={clock}
+              onClear={() => setScanHistory([])}
+              onClose={() => setShowScanHistory(false)}
+            />
+          )}
           <div className="px-5 pt-10 pb-3">
             <div className="mt-[20px] flex items-center justify-between gap-3">
               <div className="text-sm font-extrabold">Hydration Health</div>
@@ -2954,7 +2959,9 @@ export default function WaterBottleTracker() {
                         ))}
                       </div>
                     </div>
-                    <div className="mt-2 text-[10px] text-white/45">Meaningful sip = any +120ml event in that window.</div>
+                    <div className="mt-2 text-[10px] text-white/45">
+                      Meaningful sip = any {formatVolume(MEANINGFUL_SIP_ML, volUnit, { signed: true })} event in that window.
+                    </div>
                   </div>
                 ))}
               </div>
@@ -2962,14 +2969,16 @@ export default function WaterBottleTracker() {
 
             <div className="mt-8">
               <div className="flex items-end justify-between">
-                <div className="text-sm text-white/70">Daily progress • Bottle {state.bottleML} ml</div>
+                <div className="text-sm text-white/70">Daily progress • Bottle {formatVolume(state.bottleML, volUnit)}</div>
                 <div className="text-sm font-extrabold tabular-nums">
-                  {totalConsumed} / {state.goalML} ml
+                  {formatVolumeRatio(totalConsumed, todayGoal, volUnit)}
+                  {overGoalML > 0 && <span className="text-green-500"> {formatVolume(overGoalML, volUnit, { signed: true })}</span>}
                 </div>
               </div>
               <div className="mt-2 h-3 rounded-full bg-white/10 overflow-hidden">
                 <div className="h-full rounded-full bg-[#0A84FF]" style={{ width: `${analyticsProgressPct}%`, transition: "width .7s ease-out" }} />
               </div>
+              <BeverageBreakdown events={(state.journal || {})[state.dayKey] || []} volume={volUnit} className="mt-3" />
               <div className="mt-2 text-xs text-white/55">Tip: scroll down to 0% when you finish the bottle — it will auto-start the next one.</div>
               <div className="mt-2 text-xs text-white/50">
                 Resets in <span className="font-extrabold tabular-nums text-white/70">{formatCountdown(resetMs)}</span>
@@ -2977,12 +2986,12 @@ export default function WaterBottleTracker() {
               <div className="mt-1 text-xs text-white/50">
                 Yesterday:{" "}
                 {(() => {
-                  const y = (state.dailyLog || {})[prevDayKeyByWake(new Date(), state.wakeMins)];
+                  const y = (state.dailyLog || {})[prevDayKeyByWake(new Date(), wakeTimes(scheduleFields))];
                   if (!y) return <span className="text-white/40">—</span>;
                   const pct = y.goalML > 0 ? Math.round((y.consumedML / y.goalML) * 100) : 0;
                   return (
                     <span className="font-extrabold tabular-nums text-white/70">
-                      {y.consumedML} / {y.goalML} ml ({pct}%)
+                      {formatVolumeRatio(y.consumedML, y.goalML, volUnit)} ({pct}%)
                     </span>
                   );
                 })()}
@@ -3025,10 +3034,19 @@ export default function WaterBottleTracker() {
                     {weeklyData.days.map((d) => {
                       const ratio = clamp(d.ratio, 0, 1.25);
                       const heightPct = (ratio / 1.25) * 100;
-                      const label = d.consumedML >= 1000 ? `${(d.consumedML / 1000).toFixed(1)}L` : `${Math.round(d.consumedML)}ml`;
+                      const label = formatVolumeShort(d.consumedML, volUnit);
                       return (
-                        <div key={d.key} className="flex flex-1 flex-col items-center gap-2">
-                          <div className="text-[10px] text-white/60">{d.consumedML > 0 ? label : "0"}</div>
+                        <button
+                          key={d.key}
+                          onClick={() => setEditingDayKey(d.key)}
+                          disabled={!d.isEditable}
+                          className="flex flex-1 flex-col items-center gap-2 active:scale-[0.97] disabled:active:scale-100"
+                          aria-label={d.isEditable ? `Edit ${d.key}` : undefined}
+                        >
+                          <div className={"text-[10px] " + (d.overLimit ? "font-extrabold text-[#FF453A]" : "text-white/60")}>
+                            {d.consumedML > 0 ? label : "0"}
+                            {d.isBackfilled ? "*" : ""}
+                          </div>
                           <div className="relative h-20 w-full rounded-xl bg-white/5 overflow-hidden">
                             <div
                               className={
@@ -3037,8 +3055,14 @@ export default function WaterBottleTracker() {
                               }
                               style={{ height: `${heightPct}%` }}
                             />
+                            {ratio > 1 && (
+                              <div
+                                className="absolute left-0 right-0 rounded-t-xl bg-[#5EE3A1]"
+                                style={{ bottom: `${100 / 1.25}%`, height: `${heightPct - 100 / 1.25}%` }}
+                              />
+                            )}
                           </div>
-                        </div>
+                        </button>
                       );
                     })}
                   </div>
@@ -3048,8 +3072,27 @@ export default function WaterBottleTracker() {
                     <span key={d} className="flex-1 text-center">{d}</span>
                   ))}
                 </div>
+                <div className="mt-2 text-[10px] text-white/45 px-2">
+                  Tap a past day to fix its drinks. * = edited later. Light tops are over goal
+                  {state.safetyLimitML !== null ? "; red totals passed your safety limit." : "."}
+                </div>
               </div>
             </div>
+
+            <button
+              onClick={() => setShowScanHistory(true)}
+              className="mt-6 mb-8 w-full rounded-3xl border border-white/10 bg-white/6 p-4 text-left active:scale-[0.99]"
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-extrabold">Scan history</div>
+                <div className="text-white/50">›</div>
+              </div>
+              <div className="mt-1 text-xs text-white/60">
+                {scanHistory.length === 0
+                  ? "Scans you review will show up here."
+                  : `${scanHistory.length} scan${scanHistory.length === 1 ? "" : "s"} • ${scanHistory.filter((r) => r.corrected).length} corrected`}
+              </div>
+            </button>
           </div>
         </div>
       );
@@ -3071,7 +3114,20 @@ export default function WaterBottleTracker() {
           html, body { scrollbar-width: none; -ms-overflow-style: none; }
           html::-webkit-scrollbar, body::-webkit-scrollbar { display: none; width: 0; height: 0; }
         `}</style>
-        {showQuickAdd && <QuickAddSheet onClose={() => setShowQuickAdd(false)} onAdd={addExtra} />}
+        {showQuickAdd && (
+          <QuickAddSheet
+            factors={state.beverageFactors}
+            presets={state.quickAddPresets}
+            recent={recentQuickAdds(state.journal || {}, state.quickAddPresets)}
+            minAt={backdateMinAt}
+            volume={volUnit}
+            clock={clock}
+            onAdd={addExtra}
+            onSavePreset={(preset) => setState((s) => ({ ...s, quickAddPresets: addQuickAddPreset(s.quickAddPresets, preset) }))}
+            onDeletePreset={(id) => setState((s) => ({ ...s, quickAddPresets: removeQuickAddPreset(s.quickAddPresets, id) }))}
+            onClose={() => setShowQuickAdd(false)}
+          />
+        )}
 
         {state.celebrate && (
           <div className="fixed inset-0 z-50">
@@ -3097,7 +3153,7 @@ export default function WaterBottleTracker() {
                 <div className="mt-5 rounded-2xl border border-white/10 bg-white/5 p-4">
                   <div className="text-xs text-white/60">Today</div>
                   <div className="mt-1 text-xl font-extrabold tabular-nums">
-                    {state.celebrate.consumedML} / {state.goalML} ml
+                    {formatVolumeRatio(state.celebrate.consumedML, todayGoal, volUnit)}
                   </div>
                   <div className="mt-1 text-sm text-white/70">{state.celebrate.type === "goal" ? "100% complete ✅" : `${state.celebrate.pct}% complete`}</div>
                 </div>
@@ -3131,10 +3187,21 @@ export default function WaterBottleTracker() {
           <div className="flex items-start justify-between gap-3">
             <div className="flex-1 text-center">
               <div className="text-[clamp(32px,8.5vw,52px)] font-extrabold leading-tight text-center">
-                <span className="block text-[clamp(57px,14.25vw,90px)]">
-                  <span className="text-[#0A84FF]">{bottlesLeftText}</span> Bottles
-                </span>
-                <span className="block">Remaining</span>
+                {overGoalML > 0 && state.bottleML > 0 ? (
+                  <>
+                    <span className="block text-[clamp(57px,14.25vw,90px)]">
+                      <span className="text-green-500">+{format1(overGoalML / state.bottleML)}</span> Bottles
+                    </span>
+                    <span className="block">Over goal</span>
+                  </>
+                ) : (
+                  <>
+                    <span className="block text-[clamp(57px,14.25vw,90px)]">
+                      <span className="text-[#0A84FF]">{bottlesLeftText}</span> Bottles
+                    </span>
+                    <span className="block">Remaining</span>
+                  </>
+                )}
               </div>
               <div
                 className={
@@ -3162,13 +3229,37 @@ export default function WaterBottleTracker() {
               <div className="mt-2 text-xs text-white/45 hidden">
                 {(() => {
                   const now = new Date();
-                  const timeStr = formatClock12h(now);
-                  const goalBottles = state.bottleML > 0 ? state.goalML / state.bottleML : 0;
-                  const expectedMl = expectedMlAt(state.goalML, now, state.wakeMins, state.sleepMins);
+                  const timeStr = formatClock(now, clock);
+                  const goalBottles = state.bottleML > 0 ? todayGoal / state.bottleML : 0;
+                  const expectedMl = expectedMlAt(todayGoal, now, todayWindow.wakeMins, todayWindow.sleepMins, pacing);
                   const expectedBottles = state.bottleML > 0 ? expectedMl / state.bottleML : 0;
                   return `By ${timeStr}, the app expects you to have drunk: ~${format1(expectedBottles)} bottles, out of your ${format1(goalBottles)} bottles/day goal.`;
                 })()}
               </div>
+              {overSafetyLimit && (
+                <div className="mt-5 rounded-2xl border border-[#FF453A]/40 bg-[#FF453A]/10 px-4 py-3 text-left text-xs text-white/80">
+                  <span className="font-extrabold text-[#FF453A]">That’s a lot of water.</span> {formatVolume(totalConsumed, volUnit)} today is
+                  past your {formatVolume(state.safetyLimitML ?? 0, volUnit)} limit. Ease off for now, and spread anything more over the rest of the day.
+                </div>
+              )}
+              {state.bottles.length > 1 && (
+                <div className="mt-6 flex justify-center gap-2 overflow-x-auto no-scrollbar">
+                  {savedBottles(state).map((b) => (
+                    <button
+                      key={b.id}
+                      onClick={() => switchBottle(b.id)}
+                      className={
+                        "shrink-0 flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-extrabold active:scale-[0.98] " +
+                        (b.id === state.activeBottleId ? "border-white/30 bg-white/12 text-white" : "border-white/10 bg-white/5 text-white/55")
+                      }
+                    >
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: b.color }} />
+                      {b.name}
+                      <span className="tabular-nums text-white/45">{Math.round(b.remaining * 100)}%</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
           </div>
@@ -3214,17 +3305,17 @@ export default function WaterBottleTracker() {
                 <div
                   className="absolute left-[3px] text-[13px] font-extrabold leading-none text-white/50"
                   style={{
-                    top: `${flagTop}px`,
+                    top: `${flagTop + flagShiftPx}px`,
                     animation: pacingStatus === "ahead" ? "fadeOutLineUi 0.6s ease forwards" : undefined,
                   }}
                 >
-                  {formatClock12h(new Date())}
+                  {formatClock(new Date(), clock)}
                 </div>
               )}
               <BottleVector
-                shape={state.shape}
+                shape={activeShape}
                 level={displayRemaining}
-                className={shapeClasses(state.shape)}
+                className={shapeClasses(activeShape.id)}
                 targetLevel={targetLineRemainingFraction}
                 targetStatus={pacingStatus}
                 onMeniscusPointerDown={onMeniscusPointerDown}
@@ -3232,6 +3323,8 @@ export default function WaterBottleTracker() {
                 onMeniscusPointerUp={onMeniscusPointerUp}
                 onMeniscusPointerCancel={onMeniscusPointerCancel}
                 isMeniscusDragging={meniscusDragging}
+                fillColor={bottleFill(activeColor, 0.35)}
+                edgeColor={bottleFill(activeColor, 0.65)}
               />
               </div>
             </div>
@@ -3252,6 +3345,20 @@ export default function WaterBottleTracker() {
               >
                 Undo
               </button>
+              <button
+                onClick={async () => {
+                  try {
+                    await Haptics.impact({ style: ImpactStyle.Light });
+                  } catch {
+                    // ignore for web/simulators
+                  }
+                  redo();
+                }}
+                disabled={!state.redo || state.redo.length === 0}
+                className="h-10 px-5 rounded-2xl border border-white/15 bg-white/8 font-extrabold text-center disabled:opacity-40"
+              >
+                Redo
+              </button>
               <button
                 onClick={async () => {
                   try {
@@ -3260,16 +3367,17 @@ export default function WaterBottleTracker() {
                   setShowQuickAdd(true);
                 }}
                 className="h-10 w-10 rounded-2xl border border-white/10 bg-white/6 active:scale-[0.99] flex items-center justify-center"
-                aria-label="Add water"
-                title="Add water"
+                aria-label="Add a drink"
+                title="Add a drink"
               >
                 <DropletPlugIcon className="h-7 w-7" />
               </button>
             </div>
 
+            {trackPending && <WhenPicker value={trackAt} minAt={backdateMinAt} onChange={setTrackAt} clock={clock} className="w-full max-w-md" />}
             {state.extraML > 0 && (
               <div className="text-[12px] font-extrabold tabular-nums text-white/55 whitespace-nowrap">
-                Extra today: <span className="text-[#0A84FF]">+{Math.round(state.extraML)}ml</span>
+                Extra today: <span className="text-[#0A84FF]">{formatVolume(state.extraML, volUnit, { signed: true })}</span>
               </div>
             )}
             <input
@@ -3305,6 +3413,12 @@ export default function WaterBottleTracker() {
               </div>
             )}
             {scanError && <div className="text-xs text-[#FF453A]">{scanError}</div>}
+            {pendingQueuedScans > 0 && (
+              <div className="text-xs text-white/50">
+                {pendingQueuedScans === 1 ? "1 saved scan" : `${pendingQueuedScans} saved scans`} waiting to be read
+              </div>
+            )}
+            <ActivityTimeline events={todayTimeline} units={state.units} onRemove={removeTodayDrink} className="mt-3" />
           </div>
 
         </div>
@@ -3312,17 +3426,10 @@ export default function WaterBottleTracker() {
           onOpenSettings={() => setState((s) => ({ ...s, step: 6 }))}
           onOpenAnalytics={() => setShowAnalytics(true)}
           onTrack={() => {
-            triggerTrackHaptic();
-            commitScanToDailyProgress(pendingRemaining, "track");
-            if (isLowWater) setLowLevelTracked(true);
-            if (levelUpdatedTimeoutRef.current) window.clearTimeout(levelUpdatedTimeoutRef.current);
-            setShowLevelUpdated(true);
-            levelUpdatedTimeoutRef.current = window.setTimeout(() => {
-              setShowLevelUpdated(false);
-              levelUpdatedTimeoutRef.current = null;
-            }, 5000);
+            trackLevel(pendingRemaining, "track", trackAt === null ? undefined : Math.max(trackAt, backdateMinAt));
+            setTrackAt(null);
           }}
-          isTrackDisabled={Math.abs(pendingRemaining - state.remaining) < 1e-6}
+          isTrackDisabled={!trackPending}
           isRefill={isLowWater && lowLevelTracked}
           onRefill={() => {
             triggerTrackHaptic();
@@ -3330,6 +3437,28 @@ export default function WaterBottleTracker() {
           }}
           isAnalyticsEnabled
         />
+        {scanReview ? (
+          <ScanReviewSheet
+            imageDataUrl={scanReview.imageDataUrl}
+            estimate={scanReview.estimate}
+            profile={activeShapeAssets?.profile ?? null}
+            onConfirm={confirmScanReview}
+            onRetake={retakeScan}
+          />
+        ) : (
+          readyQueuedScan?.estimate && (
+            <ScanReviewSheet
+              key={readyQueuedScan.id}
+              imageDataUrl={readyQueuedScan.imageDataUrl}
+              estimate={readyQueuedScan.estimate}
+              capturedAt={readyQueuedScan.capturedAt}
+              profile={activeShapeAssets?.profile ?? null}
+              clock={clock}
+              onConfirm={(percent) => confirmQueuedScan(readyQueuedScan, percent)}
+              onRetake={() => discardQueuedScan(readyQueuedScan)}
+            />
+          )
+        )}
         {showMorningReset && <MorningResetModal onConfirm={handleMorningRefill} isClosing={morningResetClosing} />}
       </div>
     );
@@ -3339,6 +3468,17 @@ export default function WaterBottleTracker() {
   return (
     <div className="min-h-screen bg-[#0B0B0F] text-white select-none">
       <div className="max-w-xl mx-auto min-h-screen px-5 pt-6 pb-10 flex flex-col justify-center">
+        {importShapeFor && (
+          <ImportShapeSheet
+            defaultName={`Custom ${state.customShapes.length + 1}`}
+            onSave={(shape) => {
+              const bottleId = importShapeFor;
+              setImportShapeFor(null);
+              setState((s) => updateBottle(addCustomShape(s, shape), bottleId, { shapeId: shape.id }));
+            }}
+            onClose={() => setImportShapeFor(null)}
+          />
+        )}
         {state.step === 1 && (
           <OnboardingIntro1
             onContinue={() => setStep(2)}
@@ -3410,32 +3550,69 @@ export default function WaterBottleTracker() {
             <div className="mt-6 rounded-3xl border border-white/10 bg-white/6 p-5" style={{ animation: "selInSoft .6s cubic-bezier(0.2,0,0,1) .18s both" }}>
               <div className="flex flex-col items-center">
                 <div style={{ animation: "floatSel 3.2s ease-in-out .6s infinite" }} className="mt-2">
-                  <BottleVector shape="standard" level={1} className="w-[180px] [filter:drop-shadow(0_22px_55px_rgba(0,0,0,0.55))]" />
+                  <BottleVector shape={activeShape} level={1} className="w-[180px] [filter:drop-shadow(0_22px_55px_rgba(0,0,0,0.55))]" />
                 </div>
 
               </div>
             </div>
 
             <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={{ animation: "capIn .5s cubic-bezier(0.2,0,0,1) both" }}>
-              <div className="text-xs text-white/65">How much can the bottle hold? (ml)</div>
+              <div className="text-xs text-white/65">Which shape is closest?</div>
+              <div className="mt-3 flex gap-2 overflow-x-auto no-scrollbar">
+                {shapeOptions(state.customShapes).map((sh) => (
+                  <button
+                    key={sh.id}
+                    onClick={() => setState((s) => updateBottle(s, s.activeBottleId, { shapeId: sh.id }))}
+                    className={
+                      "flex shrink-0 flex-col items-center gap-1 rounded-2xl border px-3 py-2 " +
+                      (activeShape.id === sh.id ? "border-[#0A84FF]/60 bg-[#0A84FF]/15" : "border-white/12 bg-white/5")
+                    }
+                    aria-pressed={activeShape.id === sh.id}
+                  >
+                    <BottleShapePreview shape={sh} waterPct={60} className="h-[72px] w-[40px]" />
+                    <span className="text-[11px] font-extrabold text-white/80">{sh.label}</span>
+                  </button>
+                ))}
+                {canImportShape && (
+                  <button
+                    onClick={() => setImportShapeFor(state.activeBottleId)}
+                    className="flex shrink-0 flex-col items-center justify-center gap-1 rounded-2xl border border-dashed border-white/20 px-3 py-2 w-[64px]"
+                  >
+                    <span className="text-2xl text-white/60">+</span>
+                    <span className="text-[11px] font-extrabold text-white/60">Import</span>
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={{ animation: "capIn .5s cubic-bezier(0.2,0,0,1) both" }}>
+              <div className="text-xs text-white/65">How much can the bottle hold? ({volumeUnitLabel(volUnit)})</div>
               <input
                 className="mt-1 w-full px-4 py-3 rounded-2xl border border-white/15 bg-white/5 font-extrabold outline-none"
-                type="number"
-                min={100}
-                max={2000}
-                step={50}
-                value={state.bottleML || ""}
-                onChange={(e) => {
-                  const raw = (e.target as HTMLInputElement).value;
-                  setState((s) => ({ ...s, bottleML: raw === "" ? 0 : Number(raw) }));
-                }}
+                inputMode={volUnit === "ml" ? "numeric" : "decimal"}
+                value={bottleSizeDraft ?? volumeInputValue(state.bottleML, volUnit)}
+                onChange={(e) => setBottleSizeDraft(sanitizeVolumeInput(e.target.value, volUnit))}
               />
-              <div className="mt-2 text-xs text-white/55">Common sizes: 500, 750, 1000 ml</div>
+              <div className="mt-2 text-xs text-white/55">Common sizes: {[500, 750, 1000].map((ml) => formatVolume(ml, volUnit)).join(", ")}</div>
+
+              <input ref={labelFileRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={onLabelFileChange} />
+              <button
+                onClick={() => labelFileRef.current?.click()}
+                disabled={labelScan.busy}
+                className="mt-4 w-full px-4 py-3 rounded-2xl border border-white/15 bg-white/8 text-sm font-extrabold disabled:opacity-40"
+              >
+                {labelScan.busy ? "Reading label…" : "Scan label barcode"}
+              </button>
+              {labelScan.message && <div className="mt-2 text-xs text-white/60">{labelScan.message}</div>}
             </div>
 
             <div className="mt-6 flex gap-2" style={{ animation: "selIn .55s ease-out .32s both" }}>
               <button
-                onClick={() => setStep(4)}
+                onClick={() => {
+                  setBottleSizeDraft(null);
+                  setLabelScan({ busy: false, message: null, gtin: null });
+                  setStep(4);
+                }}
                 className="flex-1 px-4 py-4 rounded-2xl border border-white/15 bg-white/8 font-extrabold"
               >
                 Back
@@ -3443,10 +3620,20 @@ export default function WaterBottleTracker() {
 
               <button
                 onClick={() => {
-                  switchBottleKeepingConsumed({ shape: "standard" });
+                  // Resizing goes through the library, so today's total and undo carry over.
+                  const gtin = labelScan.gtin;
+                  setState((s) => {
+                    const next = updateBottle(s, s.activeBottleId, { capacityML: Math.round(bottleSizeML) });
+                    const live = activeBottle(next);
+                    if (!gtin || !live) return next;
+                    return { ...next, learnedLabels: learnLabel(next.learnedLabels, { gtin, name: live.name, capacityML: live.capacityML, shapeId: live.shapeId }) };
+                  });
+                  setBottleSizeDraft(null);
+                  setLabelScan({ busy: false, message: null, gtin: null });
                   setStep(bottleSizeFlowSource === "settings" ? 6 : 9);
                 }}
-                className="flex-1 px-4 py-4 rounded-2xl bg-[#0A84FF] font-extrabold"
+                disabled={!bottleSizeValid}
+                className="flex-1 px-4 py-4 rounded-2xl bg-[#0A84FF] font-extrabold disabled:opacity-40"
               >
                 Continue
               </button>
@@ -3524,7 +3711,7 @@ export default function WaterBottleTracker() {
               `}</style>
 
               <div className="mx-auto mb-6 flex h-[360px] items-center justify-center">
-                <ScanResultBottle fraction={scanFraction} />
+                <ScanResultBottle fraction={scanFraction} shape={activeShape} />
               </div>
 
               <div style={{ animation: "fadeUp .65s ease-out both" }} className="text-3xl font-extrabold">
@@ -3535,7 +3722,7 @@ export default function WaterBottleTracker() {
               <div className="mt-4 h-3 rounded-full bg-white/10 overflow-hidden max-w-md mx-auto">
                 <div className="h-full rounded-full bg-[#0A84FF]" style={{ width: `${Math.round(scanFraction * 100)}%` }} />
               </div>
-              <div className="mt-2 text-sm font-extrabold text-[#0A84FF]">+{drankMl} ml drank</div>
+              <div className="mt-2 text-sm font-extrabold text-[#0A84FF]">{formatVolume(drankMl, volUnit, { signed: true })} drank</div>
 
               <button
                 onClick={() => setStep(11)}
@@ -3572,11 +3759,15 @@ export default function WaterBottleTracker() {
                   type="text"
                   inputMode="numeric"
                   pattern="\\d*"
-                  value={state.wakeHour || ""}
+                  value={hourInputText(state.wakeHour, state.wakeMeridiem, clock)}
                   onChange={(e) => {
                     const raw = (e.target as HTMLInputElement).value.replace(/\\D/g, "");
                     if (raw.length > 2) return;
-                    setState((s) => ({ ...s, wakeHour: raw === "" ? 0 : Number(raw) }));
+                    setState((s) => {
+                      if (raw === "" || clock === "12h") return { ...s, wakeHour: raw === "" ? 0 : Number(raw) };
+                      const h = hourFromInput(raw, clock, s.wakeMeridiem);
+                      return { ...s, wakeHour: h.h12, wakeMeridiem: h.ampm };
+                    });
                   }}
                   onBlur={() => {
                     const h = normalizeHourInput(String(state.wakeHour || 0));
@@ -3600,23 +3791,25 @@ export default function WaterBottleTracker() {
                     setState((s) => ({ ...s, wakeMinute: m }));
                   }}
                 />
-                <div className="ml-2 flex gap-2">
-                  {(["AM", "PM"] as const).map((p) => {
-                    const active = state.wakeMeridiem === p;
-                    return (
-                      <button
-                        key={p}
-                        onClick={() => setState((s) => ({ ...s, wakeMeridiem: toMeridiem(p) }))}
-                        className={
-                          "px-3 py-2 rounded-xl border text-xs font-extrabold " +
-                          (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
-                        }
-                      >
-                        {p}
-                      </button>
-                    );
-                  })}
-                </div>
+                {clock === "12h" && (
+                  <div className="ml-2 flex gap-2">
+                    {(["AM", "PM"] as const).map((p) => {
+                      const active = state.wakeMeridiem === p;
+                      return (
+                        <button
+                          key={p}
+                          onClick={() => setState((s) => ({ ...s, wakeMeridiem: toMeridiem(p) }))}
+                          className={
+                            "px-3 py-2 rounded-xl border text-xs font-extrabold " +
+                            (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
+                          }
+                        >
+                          {p}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
               <div className="mt-1 text-[11px] text-white/45">Doesn’t have to be exact.</div>
 
@@ -3627,11 +3820,15 @@ export default function WaterBottleTracker() {
                   type="text"
                   inputMode="numeric"
                   pattern="\\d*"
-                  value={state.sleepHour || ""}
+                  value={hourInputText(state.sleepHour, state.sleepMeridiem, clock)}
                   onChange={(e) => {
                     const raw = (e.target as HTMLInputElement).value.replace(/\\D/g, "");
                     if (raw.length > 2) return;
-                    setState((s) => ({ ...s, sleepHour: raw === "" ? 0 : Number(raw) }));
+                    setState((s) => {
+                      if (raw === "" || clock === "12h") return { ...s, sleepHour: raw === "" ? 0 : Number(raw) };
+                      const h = hourFromInput(raw, clock, s.sleepMeridiem);
+                      return { ...s, sleepHour: h.h12, sleepMeridiem: h.ampm };
+                    });
                   }}
                   onBlur={() => {
                     const h = normalizeHourInput(String(state.sleepHour || 0));
@@ -3655,23 +3852,25 @@ export default function WaterBottleTracker() {
                     setState((s) => ({ ...s, sleepMinute: m }));
                   }}
                 />
-                <div className="ml-2 flex gap-2">
-                  {(["AM", "PM"] as const).map((p) => {
-                    const active = state.sleepMeridiem === p;
-                    return (
-                      <button
-                        key={p}
-                        onClick={() => setState((s) => ({ ...s, sleepMeridiem: toMeridiem(p) }))}
-                        className={
-                          "px-3 py-2 rounded-xl border text-xs font-extrabold " +
-                          (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
-                        }
-                      >
-                        {p}
-                      </button>
-                    );
-                  })}
-                </div>
+                {clock === "12h" && (
+                  <div className="ml-2 flex gap-2">
+                    {(["AM", "PM"] as const).map((p) => {
+                      const active = state.sleepMeridiem === p;
+                      return (
+                        <button
+                          key={p}
+                          onClick={() => setState((s) => ({ ...s, sleepMeridiem: toMeridiem(p) }))}
+                          className={
+                            "px-3 py-2 rounded-xl border text-xs font-extrabold " +
+                            (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
+                          }
+                        >
+                          {p}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
               <div className="mt-1 text-[11px] text-white/45">Doesn’t have to be exact.</div>
             </div>
@@ -3748,9 +3947,9 @@ export default function WaterBottleTracker() {
 
               <div className="mt-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-4 flex items-center justify-between">
                 <div>
-                  <div className="font-extrabold">Tall / Slim</div>
+                  <div className="font-extrabold">{activeBottle(state)?.name ?? activeShape.label}</div>
                   <div className="mt-1 text-xs text-white/60">
-                    {state.bottleML} ml • {state.shape === "tumbler" ? "Tumbler" : "Standard"}
+                    {formatVolume(state.bottleML, volUnit)} • {activeShape.label}
                   </div>
                 </div>
                 <div className="text-xs font-extrabold text-white/45">Selected</div>
@@ -3767,6 +3966,27 @@ export default function WaterBottleTracker() {
               </button>
             </div>
 
+            <BottleLibraryCard
+              bottles={savedBottles(state)}
+              shapes={shapeOptions(state.customShapes)}
+              activeBottleId={state.activeBottleId}
+              volume={volUnit}
+              onSwitch={switchBottle}
+              onAdd={(bottle) => setState((s) => addBottle(s, bottle))}
+              onUpdate={(id, patch) => {
+                if (id === state.activeBottleId && patch.capacityML !== undefined) syncLiveLevel(state.remaining);
+                setState((s) => updateBottle(s, id, patch));
+              }}
+              onRemove={(id) => {
+                const fallback = savedBottles(state).find((b) => b.id !== id);
+                if (id === state.activeBottleId && fallback) syncLiveLevel(fallback.remaining);
+                setState((s) => removeBottle(s, id));
+              }}
+              onImportShape={canImportShape ? setImportShapeFor : undefined}
+              onDeleteShape={(id) => setState((s) => removeCustomShape(s, id))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .20s both" }}
+            />
+
             <div
               className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5"
               style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .22s both" }}
@@ -3789,13 +4009,13 @@ export default function WaterBottleTracker() {
                       setWakeHourInput(raw);
                     }}
                     onBlur={() => {
-                      const h = normalizeHourInput(wakeHourInput);
+                      const h = hourFromInput(wakeHourInput, clock, timeParts(state.wakeMins).ampm);
                       const m = normalizeMinuteInput(wakeMinInput);
                       setState((s) => ({
                         ...s,
-                        wakeMins: toMinutes(h, m, timeParts(s.wakeMins).ampm),
+                        wakeMins: toMinutes(h.h12, m, h.ampm),
                       }));
-                      setWakeHourInput(String(h));
+                      setWakeHourInput(h.text);
                       setWakeMinInput(String(m).padStart(2, "0"));
                     }}
                   />
@@ -3812,38 +4032,40 @@ export default function WaterBottleTracker() {
                       setWakeMinInput(raw);
                     }}
                     onBlur={() => {
-                      const h = normalizeHourInput(wakeHourInput);
+                      const h = hourFromInput(wakeHourInput, clock, timeParts(state.wakeMins).ampm);
                       const m = normalizeMinuteInput(wakeMinInput);
                       setState((s) => ({
                         ...s,
-                        wakeMins: toMinutes(h, m, timeParts(s.wakeMins).ampm),
+                        wakeMins: toMinutes(h.h12, m, h.ampm),
                       }));
-                      setWakeHourInput(String(h));
+                      setWakeHourInput(h.text);
                       setWakeMinInput(String(m).padStart(2, "0"));
                     }}
                   />
-                  <div className="ml-2 flex gap-2">
-                    {(["AM", "PM"] as const).map((p) => {
-                      const active = timeParts(state.wakeMins).ampm === p;
-                      return (
-                        <button
-                          key={p}
-                          onClick={() =>
-                            setState((s) => ({
-                              ...s,
-                              wakeMins: toMinutes(timeParts(s.wakeMins).h12, timeParts(s.wakeMins).min, toMeridiem(p)),
-                            }))
-                          }
-                          className={
-                            "px-3 py-2 rounded-xl border text-xs font-extrabold " +
-                            (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
-                          }
-                        >
-                          {p}
-                        </button>
-                      );
-                    })}
-                  </div>
+                  {clock === "12h" && (
+                    <div className="ml-2 flex gap-2">
+                      {(["AM", "PM"] as const).map((p) => {
+                        const active = timeParts(state.wakeMins).ampm === p;
+                        return (
+                          <button
+                            key={p}
+                            onClick={() =>
+                              setState((s) => ({
+                                ...s,
+                                wakeMins: toMinutes(timeParts(s.wakeMins).h12, timeParts(s.wakeMins).min, toMeridiem(p)),
+                              }))
+                            }
+                            className={
+                              "px-3 py-2 rounded-xl border text-xs font-extrabold " +
+                              (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
+                            }
+                          >
+                            {p}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
                 <div className="mt-1 text-[11px] text-white/45">Doesn’t have to be exact.</div>
               </div>
@@ -3863,13 +4085,13 @@ export default function WaterBottleTracker() {
                       setSleepHourInput(raw);
                     }}
                     onBlur={() => {
-                      const h = normalizeHourInput(sleepHourInput);
+                      const h = hourFromInput(sleepHourInput, clock, timeParts(state.sleepMins).ampm);
                       const m = normalizeMinuteInput(sleepMinInput);
                       setState((s) => {
-                        const base = toMinutes(h, m, timeParts(s.sleepMins).ampm);
+                        const base = toMinutes(h.h12, m, h.ampm);
                         return { ...s, sleepMins: base <= s.wakeMins ? base + 1440 : base };
                       });
-                      setSleepHourInput(String(h));
+                      setSleepHourInput(h.text);
                       setSleepMinInput(String(m).padStart(2, "0"));
                     }}
                   />
@@ -3886,44 +4108,54 @@ export default function WaterBottleTracker() {
                       setSleepMinInput(raw);
                     }}
                     onBlur={() => {
-                      const h = normalizeHourInput(sleepHourInput);
+                      const h = hourFromInput(sleepHourInput, clock, timeParts(state.sleepMins).ampm);
                       const m = normalizeMinuteInput(sleepMinInput);
                       setState((s) => {
-                        const base = toMinutes(h, m, timeParts(s.sleepMins).ampm);
+                        const base = toMinutes(h.h12, m, h.ampm);
                         return { ...s, sleepMins: base <= s.wakeMins ? base + 1440 : base };
                       });
-                      setSleepHourInput(String(h));
+                      setSleepHourInput(h.text);
                       setSleepMinInput(String(m).padStart(2, "0"));
                     }}
                   />
-                  <div className="ml-2 flex gap-2">
-                    {(["AM", "PM"] as const).map((p) => {
-                      const active = timeParts(state.sleepMins).ampm === p;
-                      return (
-                        <button
-                          key={p}
-                          onClick={() =>
-                            setState((s) => {
-                              const base = toMinutes(timeParts(s.sleepMins).h12, timeParts(s.sleepMins).min, toMeridiem(p));
-                              return { ...s, sleepMins: base <= s.wakeMins ? base + 1440 : base };
-                            })
-                          }
-                          className={
-                            "px-3 py-2 rounded-xl border text-xs font-extrabold " +
-                            (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
-                          }
-                        >
-                          {p}
-                        </button>
-                      );
-                    })}
-                  </div>
+                  {clock === "12h" && (
+                    <div className="ml-2 flex gap-2">
+                      {(["AM", "PM"] as const).map((p) => {
+                        const active = timeParts(state.sleepMins).ampm === p;
+                        return (
+                          <button
+                            key={p}
+                            onClick={() =>
+                              setState((s) => {
+                                const base = toMinutes(timeParts(s.sleepMins).h12, timeParts(s.sleepMins).min, toMeridiem(p));
+                                return { ...s, sleepMins: base <= s.wakeMins ? base + 1440 : base };
+                              })
+                            }
+                            className={
+                              "px-3 py-2 rounded-xl border text-xs font-extrabold " +
+                              (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/20 text-white" : "border-white/15 bg-white/5 text-white/70")
+                            }
+                          >
+                            {p}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
                   {timeParts(state.sleepMins).dayOffset === 1 && <div className="text-[11px] text-white/45">(+1)</div>}
                 </div>
                 <div className="mt-1 text-[11px] text-white/45">Doesn’t have to be exact.</div>
               </div>
             </div>
 
+            <WeekScheduleCard
+              wakeMins={state.wakeMins}
+              sleepMins={state.sleepMins}
+              week={state.weekSchedule}
+              onChange={(weekSchedule) => setState((s) => ({ ...s, weekSchedule }))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .24s both" }}
+            />
+
             <div className="mt-4" style={{ animation: "setupIn .55s ease-out .26s both" }}>
               <button
                 onClick={() => setStep(7)}
@@ -3932,6 +4164,37 @@ export default function WaterBottleTracker() {
                 Change water target
               </button>
             </div>
+
+            <PacingCard
+              settings={state.pacing}
+              learned={learnedPacing}
+              onChange={(pacing) => setState((s) => ({ ...s, pacing }))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .26s both" }}
+            />
+
+            <BeverageFactorsCard
+              factors={state.beverageFactors}
+              onChange={(beverageFactors) => setState((s) => ({ ...s, beverageFactors }))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .265s both" }}
+            />
+
+            <UnitsCard
+              units={state.units}
+              onChange={(units) => setState((s) => ({ ...s, units }))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .268s both" }}
+            />
+
+            <FillEstimatorCard
+              settings={state.fillEstimator}
+              onChange={(fillEstimator) => setState((s) => ({ ...s, fillEstimator }))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .27s both" }}
+            />
+
+            <DataBackupCard
+              state={state}
+              onImport={(preview, mode) => setState((s) => applyImport(s, preview, mode))}
+              style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .30s both" }}
+            />
           </div>
         )}
 
@@ -3954,17 +4217,17 @@ export default function WaterBottleTracker() {
               style={{ animation: "setupInSoft .6s cubic-bezier(0.2,0,0,1) .18s both" }}
             >
               <label className="block">
-                <div className="text-xs text-white/65">Weight (kg)</div>
+                <div className="text-xs text-white/65">Weight ({weightUnit})</div>
                 <input
                   className="mt-1 w-full px-4 py-3 rounded-2xl border border-white/15 bg-white/5 font-extrabold outline-none"
                   type="number"
-                  min={30}
-                  max={200}
-                  step={0.5}
-                  value={state.weightKg || ""}
+                  min={weightUnit === "kg" ? 30 : 66}
+                  max={weightUnit === "kg" ? 200 : 440}
+                  step={weightUnit === "kg" ? 0.5 : 1}
+                  value={state.weightKg ? Math.round(kgToUnit(state.weightKg, weightUnit) * 10) / 10 : ""}
                   onChange={(e) => {
                     const raw = (e.target as HTMLInputElement).value;
-                    setState((s) => ({ ...s, weightKg: raw === "" ? 0 : Number(raw) }));
+                    setState((s) => ({ ...s, weightKg: raw === "" ? 0 : unitToKg(Number(raw), weightUnit) }));
                   }}
                 />
               </label>
@@ -4007,8 +4270,8 @@ export default function WaterBottleTracker() {
 
               <div className="mt-5 rounded-2xl border border-white/10 bg-white/5 p-4">
                 <div className="text-xs text-white/65">Recommended</div>
-                <div className="mt-1 text-xl font-extrabold tabular-nums">{rec ? `${rec.ml} ml` : "—"}</div>
-                <div className="mt-1 text-sm text-white/70">{rec ? `Range: ${rec.low}–${rec.high} ml` : "Enter your weight to calculate."}</div>
+                <div className="mt-1 text-xl font-extrabold tabular-nums">{rec ? formatVolume(rec.ml, volUnit) : "—"}</div>
+                <div className="mt-1 text-sm text-white/70">{rec ? `Range: ${formatVolume(rec.low, volUnit)} – ${formatVolume(rec.high, volUnit)}` : "Enter your weight to calculate."}</div>
 
                 <button
                   onClick={applyRecommendation}
@@ -4019,23 +4282,40 @@ export default function WaterBottleTracker() {
                 </button>
 
                 <div className="mt-3">
-                  <div className="text-xs text-white/65">Or set your own goal (ml)</div>
+                  <div className="text-xs text-white/65">Or set your own goal ({volumeUnitLabel(volUnit)})</div>
                   <input
                     className="mt-1 w-full px-4 py-3 rounded-2xl border border-white/15 bg-white/5 font-extrabold outline-none"
                     type="number"
-                    min={500}
-                    max={6000}
-                    step={50}
-                    value={state.goalML || ""}
+                    min={volUnit === "ml" ? 500 : 17}
+                    max={volUnit === "ml" ? 6000 : 200}
+                    step={volUnit === "ml" ? 50 : 1}
+                    value={state.goalML ? volumeInputValue(state.goalML, volUnit) : ""}
                     onChange={(e) => {
                       const raw = (e.target as HTMLInputElement).value;
-                      setState((s) => ({ ...s, goalML: raw === "" ? 0 : Number(raw) }));
+                      setState((s) => ({ ...s, goalML: parseVolumeInput(raw, volUnit) ?? 0 }));
                     }}
                   />
                 </div>
               </div>
             </div>
 
+            <GoalScheduleCard
+              goalML={state.goalML}
+              overrides={state.goalOverrides}
+              todayKey={state.dayKey}
+              volume={volUnit}
+              onChange={(goalOverrides) => setState((s) => ({ ...s, goalOverrides }))}
+              style={{ animation: "setupIn .55s ease-out .26s both" }}
+            />
+
+            <SafetyLimitCard
+              limitML={state.safetyLimitML}
+              goalML={state.goalML}
+              volume={volUnit}
+              onChange={(safetyLimitML) => setState((s) => ({ ...s, safetyLimitML }))}
+              style={{ animation: "setupIn .55s ease-out .28s both" }}
+            />
+
             <div className="mt-6 flex gap-2" style={{ animation: "setupIn .55s ease-out .30s both" }}>
               <button onClick={() => setStep(5)} className="flex-1 px-4 py-4 rounded-2xl border border-white/15 bg-white/8 font-extrabold">
                 Back
@@ -4054,12 +4334,12 @@ export default function WaterBottleTracker() {
 
             <div className="mt-6 rounded-3xl border border-white/10 bg-white/6 p-5">
               <div className="text-xs text-white/65">Daily goal</div>
-              <div className="mt-1 text-3xl font-extrabold tabular-nums">{state.goalML} ml</div>
+              <div className="mt-1 text-3xl font-extrabold tabular-nums">{formatVolume(state.goalML, volUnit)}</div>
 
               <div className="mt-5 grid grid-cols-2 gap-3">
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
                   <div className="text-xs text-white/65">Bottle size</div>
-                  <div className="mt-1 text-xl font-extrabold tabular-nums">{state.bottleML} ml</div>
+                  <div className="mt-1 text-xl font-extrabold tabular-nums">{formatVolume(state.bottleML, volUnit)}</div>
                 </div>
                 <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
                   <div className="text-xs text-white/65">Bottles / day</div>
@@ -4080,12 +4360,13 @@ export default function WaterBottleTracker() {
                     ...s,
                     hasOnboarded: true,
                     step: 0,
-                    dayKey: dayKeyByWake(new Date(), s.wakeMins),
+                    dayKey: dayKeyByWake(new Date(), wakeTimes(s)),
                     completedBottles: 0,
                     remaining: 1,
                     carryML: 0,
                     extraML: 0,
                     history: [],
+                    redo: [],
                     celebrate: null,
                   }));
                   setNotifPromptPending(true);
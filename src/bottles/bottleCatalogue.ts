@@ -0,0 +1,81 @@
+// Offline catalogue of reusable bottles, keyed by GTIN (the number under an EAN/UPC
+// barcode, or inside a GS1 Digital Link QR code). Lookups never touch the network.
+//
+// Codes are 13 digits; 12-digit UPC-A codes are stored with a leading zero. Only codes
+// read off real, verified bottle labels belong in the bundled list. Labels it doesn't
+// know are remembered once the user sets that bottle's size and shape (`learnedLabels`
+// in AppState), so scanning the same label again fills them in.
+
+export type CatalogueBottle = {
+  gtin: string;
+  name: string;
+  capacityML: number;
+  // Id from BOTTLE_SHAPES.
+  shapeId: string;
+};
+
+export const BOTTLE_CATALOGUE: CatalogueBottle[] = [];
+
+export const MAX_LEARNED_LABELS = 20;
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function checkDigitOk(digits: string) {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const n = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? n * 3 : n;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+// Normalises what a barcode or QR code says into a 13-digit GTIN, or null. A 14-digit
+// code whose indicator digit isn't 0 names a case or pack, which has no 13-digit form.
+export function gtinFromCode(text: string): string | null {
+  const trimmed = text.trim();
+  // GS1 Digital Link, e.g. https://id.example.com/01/00012345678905
+  const link = trimmed.match(/\/01\/(\d{12,14})(?:[/?#]|$)/);
+  const digits = link ? link[1] : /^\d{12,14}$/.test(trimmed) ? trimmed : null;
+  if (!digits || !checkDigitOk(digits)) return null;
+  if (digits.length === 14 && digits[0] !== "0") return null;
+  return digits.padStart(13, "0").slice(-13);
+}
+
+// The user's own answer for a label wins over the bundled list.
+export function lookupBottle(text: string, learned: CatalogueBottle[] = []): CatalogueBottle | null {
+  const gtin = gtinFromCode(text);
+  if (!gtin) return null;
+  return learned.find((b) => b.gtin === gtin) ?? BOTTLE_CATALOGUE.find((b) => b.gtin === gtin) ?? null;
+}
+
+// Newest last; relearning a code replaces its old entry.
+export function learnLabel(learned: CatalogueBottle[], bottle: CatalogueBottle): CatalogueBottle[] {
+  return [...learned.filter((b) => b.gtin !== bottle.gtin), bottle].slice(-MAX_LEARNED_LABELS);
+}
+
+function repairLearnedLabel(v: unknown, shapeIds: string[]): CatalogueBottle | null {
+  if (!isObject(v) || typeof v.gtin !== "string" || gtinFromCode(v.gtin) !== v.gtin) return null;
+  if (typeof v.capacityML !== "number" || !Number.isFinite(v.capacityML) || v.capacityML <= 0 || v.capacityML > 10000) return null;
+  if (typeof v.shapeId !== "string" || !shapeIds.includes(v.shapeId)) return null;
+  return {
+    gtin: v.gtin,
+    name: typeof v.name === "string" && v.name.trim() ? v.name.trim().slice(0, 40) : "Bottle",
+    capacityML: Math.round(v.capacityML),
+    shapeId: v.shapeId,
+  };
+}
+
+export function repairLearnedLabels(raw: unknown, issues: string[], shapeIds: string[]): CatalogueBottle[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push("learnedLabels");
+    return [];
+  }
+  const labels = raw.map((v) => repairLearnedLabel(v, shapeIds)).filter((b): b is CatalogueBottle => b !== null);
+  const unique = labels.filter((b, i) => !labels.slice(i + 1).some((x) => x.gtin === b.gtin)).slice(-MAX_LEARNED_LABELS);
+  if (unique.length !== raw.length) issues.push("learnedLabels");
+  return unique;
+}
@@ -0,0 +1,167 @@
+import type { AppState } from "../state/appState";
+import { totalConsumedFromState } from "../state/appState";
+import { detachHistory } from "../state/undo";
+import { BOTTLE_SHAPES } from "./bottleShapes";
+
+// The user's saved bottles. One is active at a time; its size and level live in the
+// top-level `bottleML` / `remaining` fields the tracker already runs on, so the copy in
+// `bottles` is only authoritative for the others until they're switched to.
+
+export type SavedBottle = {
+  id: string;
+  name: string;
+  capacityML: number;
+  // Id from BOTTLE_SHAPES or the user's custom shapes.
+  shapeId: string;
+  color: string;
+  remaining: number;
+};
+
+export const BOTTLE_COLORS = ["#0A84FF", "#30D158", "#FF9F0A", "#BF5AF2", "#FF375F", "#64D2FF"];
+
+export const MAX_BOTTLES = 8;
+
+type LibraryFields = Pick<AppState, "bottles" | "activeBottleId" | "bottleML" | "remaining">;
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export function newBottleId() {
+  return `bottle-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function makeBottle(
+  fields: { name: string; capacityML: number; shapeId?: string; color?: string },
+  id: string = newBottleId()
+): SavedBottle {
+  return {
+    id,
+    name: fields.name.trim() || "Bottle",
+    capacityML: Math.round(fields.capacityML),
+    shapeId: fields.shapeId ?? BOTTLE_SHAPES[0]?.id ?? "",
+    color: fields.color ?? BOTTLE_COLORS[0],
+    remaining: 1,
+  };
+}
+
+// The library with the active bottle's live size and level filled in.
+export function savedBottles(s: LibraryFields): SavedBottle[] {
+  return (s.bottles || []).map((b) => (b.id === s.activeBottleId ? { ...b, capacityML: s.bottleML, remaining: s.remaining } : b));
+}
+
+export function activeBottle(s: LibraryFields): SavedBottle | null {
+  return savedBottles(s).find((b) => b.id === s.activeBottleId) ?? null;
+}
+
+// Makes `next` the live bottle without changing today's total: what was drunk so far is
+// folded into `carryML`, minus what the incoming bottle's own level already accounts for.
+// Today's undo steps are kept, scoped to the bottle each was taken on.
+function goLive(s: AppState, next: SavedBottle, library: SavedBottle[]): AppState {
+  const consumed = totalConsumedFromState(s);
+  const extra = Math.round((s.extraML || 0) as number);
+  const inBottle = Math.round((1 - next.remaining) * next.capacityML);
+  return {
+    ...s,
+    bottles: library,
+    activeBottleId: next.id,
+    bottleML: next.capacityML,
+    remaining: clamp(next.remaining, 0, 1),
+    completedBottles: 0,
+    carryML: clamp(consumed - extra - inBottle, 0, 100000),
+    history: detachHistory(s.history || [], s.activeBottleId),
+    redo: [],
+    celebrate: null,
+  };
+}
+
+export function switchActiveBottle(s: AppState, id: string): AppState {
+  if (id === s.activeBottleId) return s;
+  const library = savedBottles(s);
+  const next = library.find((b) => b.id === id);
+  if (!next) return s;
+  return goLive(s, next, library);
+}
+
+export function addBottle(s: AppState, bottle: SavedBottle): AppState {
+  if ((s.bottles || []).length >= MAX_BOTTLES) return s;
+  return { ...s, bottles: [...savedBottles(s), bottle] };
+}
+
+export function updateBottle(
+  s: AppState,
+  id: string,
+  patch: Partial<Pick<SavedBottle, "name" | "capacityML" | "shapeId" | "color">>
+): AppState {
+  const library = savedBottles(s).map((b) => (b.id === id ? { ...b, ...patch } : b));
+  const updated = library.find((b) => b.id === id);
+  if (!updated) return s;
+  if (id !== s.activeBottleId || updated.capacityML === s.bottleML) return { ...s, bottles: library };
+  // Resizing the live bottle keeps today's total and its current level.
+  return goLive(s, updated, library);
+}
+
+// The last bottle can't be removed; removing the live one switches to the first other.
+export function removeBottle(s: AppState, id: string): AppState {
+  const library = savedBottles(s);
+  if (library.length <= 1 || !library.some((b) => b.id === id)) return s;
+  const rest = library.filter((b) => b.id !== id);
+  if (id !== s.activeBottleId) return { ...s, bottles: rest };
+  return goLive(s, rest[0], rest);
+}
+
+// Every bottle starts the day full.
+export function refillAllBottles(bottles: SavedBottle[]): SavedBottle[] {
+  return (bottles || []).map((b) => (b.remaining === 1 ? b : { ...b, remaining: 1 }));
+}
+
+export function bottleFill(color: string, alpha: number) {
+  const m = color.match(/^#([0-9a-f]{6})$/i);
+  if (!m) return `rgba(10,132,255,${alpha})`;
+  const n = parseInt(m[1], 16);
+  return `rgba(${(n >> 16) & 255},${(n >> 8) & 255},${n & 255},${alpha})`;
+}
+
+function repairBottle(v: unknown, shapeIds: string[]): SavedBottle | null {
+  if (!isObject(v) || typeof v.id !== "string" || !v.id) return null;
+  if (typeof v.capacityML !== "number" || !Number.isFinite(v.capacityML) || v.capacityML <= 0 || v.capacityML > 10000) return null;
+  return {
+    id: v.id,
+    name: typeof v.name === "string" && v.name.trim() ? v.name.trim().slice(0, 40) : "Bottle",
+    capacityML: Math.round(v.capacityML),
+    shapeId: typeof v.shapeId === "string" && shapeIds.includes(v.shapeId) ? v.shapeId : (BOTTLE_SHAPES[0]?.id ?? ""),
+    color: typeof v.color === "string" && /^#[0-9a-f]{6}$/i.test(v.color) ? v.color : BOTTLE_COLORS[0],
+    remaining: typeof v.remaining === "number" && Number.isFinite(v.remaining) ? clamp(v.remaining, 0, 1) : 1,
+  };
+}
+
+// Keeps valid, uniquely-keyed bottles and guarantees the active one exists; otherwise
+// the live size becomes a single bottle under `fallbackId`.
+export function repairBottles(
+  rawBottles: unknown,
+  rawActiveId: unknown,
+  live: { bottleML: number; remaining: number; fallbackId: string },
+  issues: string[],
+  shapeIds: string[] = BOTTLE_SHAPES.map((sh) => sh.id)
+): { bottles: SavedBottle[]; activeBottleId: string } {
+  const bottles: SavedBottle[] = [];
+  if (Array.isArray(rawBottles)) {
+    for (const v of rawBottles) {
+      const b = repairBottle(v, shapeIds);
+      if (b && !bottles.some((x) => x.id === b.id)) bottles.push(b);
+    }
+    if (bottles.length !== rawBottles.length) issues.push("bottles");
+  } else if (rawBottles !== undefined) {
+    issues.push("bottles");
+  }
+  if (bottles.length === 0) {
+    bottles.push({ ...makeBottle({ name: "My bottle", capacityML: live.bottleML || 500 }, live.fallbackId), remaining: live.remaining });
+  }
+  const active = typeof rawActiveId === "string" ? bottles.find((b) => b.id === rawActiveId) : undefined;
+  if (!active && rawActiveId !== undefined) issues.push("activeBottleId");
+  return { bottles: bottles.slice(0, MAX_BOTTLES), activeBottleId: (active ?? bottles[0]).id };
+}
@@ -1,6 +1,32 @@
 export type BottleShape = { id: string; label: string; outlinePath: string; cavityPath: string };
 
+// The original hand-drawn silhouettes, drawn in a 140×300 box. They have no separate
+// cavity, so the outline doubles as one.
+export const CLASSIC_BOTTLE_PATHS = {
+  standard:
+    "M58 8 C53 10 51 18 51 26 L51 44 C41 52 36 65 36 80 L36 270 C36 286 49 294 70 294 C91 294 104 286 104 270 L104 80 C104 65 99 52 89 44 L89 26 C89 18 87 10 82 8 Z",
+  tall: "M62 8 C56 10 54 18 54 26 L54 42 C43 48 38 61 38 75 L38 270 C38 286 49 294 70 294 C91 294 102 286 102 270 L102 75 C102 61 97 48 86 42 L86 26 C86 18 84 10 78 8 Z",
+  wide: "M55 8 C50 10 48 18 48 26 L48 46 C38 54 32 68 32 85 L32 268 C32 286 48 294 70 294 C92 294 108 286 108 268 L108 85 C108 68 102 54 92 46 L92 26 C92 18 90 10 85 8 Z",
+  tumbler:
+    "M40 18 C40 12 45 8 52 8 L88 8 C95 8 100 12 100 18 L100 30 C100 36 95 40 88 40 L86 40 L98 276 C99 289 88 294 70 294 C52 294 41 289 42 276 L54 40 L52 40 C45 40 40 36 40 30 Z",
+};
+
+export function svgDataUrl(svg: string) {
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+function classicShape(id: keyof typeof CLASSIC_BOTTLE_PATHS, label: string): BottleShape {
+  const url = svgDataUrl(
+    `<svg viewBox="0 0 140 300" xmlns="http://www.w3.org/2000/svg"><path d="${CLASSIC_BOTTLE_PATHS[id]}"/></svg>`
+  );
+  return { id, label, outlinePath: url, cavityPath: url };
+}
+
 export const BOTTLE_SHAPES: BottleShape[] = [
+  classicShape("standard", "Standard"),
+  classicShape("tall", "Tall / Slim"),
+  classicShape("wide", "Wide"),
+  classicShape("tumbler", "Tumbler"),
   {
     id: "sports",
     label: "Sports",
@@ -8,3 +34,13 @@ export const BOTTLE_SHAPES: BottleShape[] = [
     cavityPath: new URL("./shapes/sports/bottle-cavity.svg", import.meta.url).href,
   },
 ];
+
+// Built-in shapes followed by the user's imported ones.
+export function shapeOptions(customShapes: BottleShape[] = []): BottleShape[] {
+  return [...BOTTLE_SHAPES, ...customShapes];
+}
+
+// Unknown ids (e.g. a shape that was removed) draw as the first shape.
+export function bottleShapeById(id: string | undefined, customShapes: BottleShape[] = []): BottleShape {
+  return shapeOptions(customShapes).find((sh) => sh.id === id) ?? BOTTLE_SHAPES[0];
+}
@@ -0,0 +1,180 @@
+import type { AppState } from "../state/appState";
+import type { Pixels } from "../scan/fillAnalysis";
+import { BOTTLE_SHAPES, type BottleShape, svgDataUrl } from "./bottleShapes";
+import { decodeSvgDataUrl, extractPathDs, extractViewBox } from "./shapeAssets";
+
+// Silhouettes the user imported, either from an SVG file or traced from a side-on photo.
+// They're stored in AppState as plain BottleShapes whose SVGs are inline data URLs, so
+// they render and scan exactly like the built-in ones.
+
+export const MAX_CUSTOM_SHAPES = 6;
+const MAX_SVG_CHARS = 200_000;
+const MAX_PATH_CHARS = 20_000;
+// Only path geometry is kept; anything else in the file (styles, scripts) is dropped.
+const PATH_DATA = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,\s+-]+$/;
+
+export class CustomShapeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomShapeError";
+  }
+}
+
+export function isCustomShapeId(id: string) {
+  return id.startsWith("custom-");
+}
+
+function newCustomShapeId() {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function shapeSvg(viewBox: string, ds: string[]) {
+  return `<svg viewBox="${viewBox}" xmlns="http://www.w3.org/2000/svg">${ds.map((d) => `<path d="${d}"/>`).join("")}</svg>`;
+}
+
+// The first path is the cavity; every path is drawn as the outline.
+function makeShape(label: string, viewBox: string, ds: string[], id = newCustomShapeId()): BottleShape {
+  return {
+    id,
+    label: label.trim().slice(0, 24) || "Custom",
+    outlinePath: svgDataUrl(shapeSvg(viewBox, ds)),
+    cavityPath: svgDataUrl(shapeSvg(viewBox, ds.slice(0, 1))),
+  };
+}
+
+export function shapeFromSvg(svgText: string, label: string): BottleShape {
+  if (svgText.length > MAX_SVG_CHARS) throw new CustomShapeError("That SVG is too large to use as a bottle.");
+  const ds = extractPathDs(svgText).filter((d) => d.length <= MAX_PATH_CHARS && PATH_DATA.test(d));
+  if (ds.length === 0) throw new CustomShapeError("That SVG has no path to use as the bottle outline.");
+  const vb = extractViewBox(svgText);
+  if (!vb) throw new CustomShapeError("That SVG needs a viewBox.");
+  return makeShape(label, `${vb.x} ${vb.y} ${vb.width} ${vb.height}`, ds.slice(0, 4));
+}
+
+function median(xs: number[]) {
+  const s = [...xs].sort((a, b) => a - b);
+  return s.length ? s[Math.floor(s.length / 2)] : 0;
+}
+
+// Finds the bottle against a plain background: every row's outermost pixels that differ
+// from the border colour, kept over the tallest run of rows, mirrored about the middle.
+export function traceSilhouette(px: Pixels): string {
+  const { data, width: w, height: h } = px;
+  const border: [number, number, number][] = [];
+  for (let x = 0; x < w; x++) {
+    for (const y of [0, 1, h - 2, h - 1]) {
+      const i = (y * w + x) * 4;
+      border.push([data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (const x of [0, 1, w - 2, w - 1]) {
+      const i = (y * w + x) * 4;
+      border.push([data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+  const bg = [0, 1, 2].map((c) => median(border.map((p) => p[c])));
+
+  const spans: ([number, number] | null)[] = [];
+  for (let y = 0; y < h; y++) {
+    let lo = -1;
+    let hi = -1;
+    for (let x = 2; x < w - 2; x++) {
+      const i = (y * w + x) * 4;
+      const diff = Math.abs(data[i] - bg[0]) + Math.abs(data[i + 1] - bg[1]) + Math.abs(data[i + 2] - bg[2]);
+      if (diff > 60) {
+        if (lo < 0) lo = x;
+        hi = x;
+      }
+    }
+    spans.push(lo >= 0 && hi - lo >= Math.max(3, w * 0.06) ? [lo, hi] : null);
+  }
+
+  // Tallest run of bottle rows, bridging gaps of a couple of rows (labels, glare).
+  let best = { from: 0, to: -1 };
+  let from = -1;
+  let gap = 0;
+  for (let y = 0; y <= h; y++) {
+    if (y < h && spans[y]) {
+      if (from < 0) from = y;
+      gap = 0;
+    } else if (from >= 0 && (y === h || ++gap > 2)) {
+      const to = y === h ? h - 1 - gap : y - gap;
+      if (to - from > best.to - best.from) best = { from, to };
+      from = -1;
+      gap = 0;
+    }
+  }
+  if (best.to - best.from < h * 0.3) {
+    throw new CustomShapeError("Couldn’t find a bottle in that photo. Shoot it side-on against a plain background.");
+  }
+
+  const rows: { y: number; half: number }[] = [];
+  const centre = median(
+    spans.slice(best.from, best.to + 1).flatMap((s) => (s ? [(s[0] + s[1]) / 2] : []))
+  );
+  for (let y = best.from; y <= best.to; y += 2) {
+    const near = spans.slice(Math.max(best.from, y - 2), Math.min(best.to, y + 2) + 1).filter((s) => s !== null);
+    if (near.length === 0) continue;
+    rows.push({ y, half: median(near.map((s) => Math.max(centre - s[0], s[1] - centre))) });
+  }
+
+  const maxHalf = Math.max(...rows.map((r) => r.half));
+  const pad = 4;
+  const cx = maxHalf + pad;
+  const top = best.from - pad;
+  const fmt = (n: number) => String(Math.round(n * 10) / 10);
+  const right = rows.map((r) => `${fmt(cx + r.half)} ${fmt(r.y - top)}`);
+  const left = [...rows].reverse().map((r) => `${fmt(cx - r.half)} ${fmt(r.y - top)}`);
+  const d = `M${[...right, ...left].join(" L")} Z`;
+  return shapeSvg(`0 0 ${fmt(cx * 2)} ${best.to - best.from + pad * 2}`, [d]);
+}
+
+export function shapeFromPhoto(px: Pixels, label: string): BottleShape {
+  return shapeFromSvg(traceSilhouette(px), label);
+}
+
+export function addCustomShape(s: AppState, shape: BottleShape): AppState {
+  if (s.customShapes.length >= MAX_CUSTOM_SHAPES) return s;
+  return { ...s, customShapes: [...s.customShapes, shape] };
+}
+
+// Bottles drawn with a deleted shape fall back to the first built-in one.
+export function removeCustomShape(s: AppState, id: string): AppState {
+  if (!s.customShapes.some((sh) => sh.id === id)) return s;
+  return {
+    ...s,
+    customShapes: s.customShapes.filter((sh) => sh.id !== id),
+    bottles: s.bottles.map((b) => (b.shapeId === id ? { ...b, shapeId: BOTTLE_SHAPES[0].id } : b)),
+  };
+}
+
+function repairCustomShape(v: unknown): BottleShape | null {
+  if (typeof v !== "object" || v === null) return null;
+  const o = v as Record<string, unknown>;
+  if (typeof o.id !== "string" || !isCustomShapeId(o.id) || typeof o.outlinePath !== "string") return null;
+  const svg = decodeSvgDataUrl(o.outlinePath);
+  if (svg === null) return null;
+  try {
+    const shape = shapeFromSvg(svg, typeof o.label === "string" ? o.label : "");
+    return { ...shape, id: o.id };
+  } catch {
+    return null;
+  }
+}
+
+// Stored shapes are re-parsed, so only sanitised path data survives a load or import.
+export function repairCustomShapes(raw: unknown, issues: string[]): BottleShape[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push("customShapes");
+    return [];
+  }
+  const shapes: BottleShape[] = [];
+  for (const v of raw) {
+    const shape = repairCustomShape(v);
+    if (shape && !shapes.some((s) => s.id === shape.id)) shapes.push(shape);
+  }
+  if (shapes.length !== raw.length) issues.push("customShapes");
+  return shapes.slice(0, MAX_CUSTOM_SHAPES);
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import type { BottleShape } from "./bottleShapes";
+
+// Geometry read out of a shape's outline and cavity SVGs. Everything is expressed in
+// the outline's viewBox; the cavity is centred in it, which is how the pairs are drawn.
+
+export type ViewBox = { x: number; y: number; width: number; height: number };
+
+export type ShapeAssets = {
+  viewBox: ViewBox;
+  outlineDs: string[];
+  cavityD: string;
+  // Moves the cavity from its own viewBox into the outline's.
+  cavityOffset: { x: number; y: number };
+  // Share of the cavity's volume below each of PROFILE_STEPS + 1 evenly spaced heights,
+  // from the bottom of the viewBox to the top. Null where paths can't be measured.
+  profile: number[] | null;
+};
+
+const DEFAULT_VIEWBOX: ViewBox = { x: 0, y: 0, width: 140, height: 300 };
+const PROFILE_STEPS = 64;
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function extractPathDs(svgText: string): string[] {
+  return Array.from(svgText.matchAll(/<path[^>]*\sd=(["'])([^"']+)\1/gi), (m) => m[2]);
+}
+
+export function extractViewBox(svgText: string): ViewBox | null {
+  const match = svgText.match(/viewBox=(["'])([^"']+)\1/i);
+  const nums = match ? match[2].trim().split(/[\s,]+/).map(Number) : [];
+  if (nums.length !== 4 || nums.some((n) => !Number.isFinite(n)) || nums[2] <= 0 || nums[3] <= 0) return null;
+  return { x: nums[0], y: nums[1], width: nums[2], height: nums[3] };
+}
+
+// Points along a path, measured by a hidden SVG element. Null outside the browser.
+export function samplePathPoints(d: string, count: number): { x: number; y: number }[] | null {
+  if (typeof document === "undefined") return null;
+  const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+  svg.setAttribute("style", "position:absolute;width:0;height:0;visibility:hidden");
+  const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+  path.setAttribute("d", d);
+  svg.appendChild(path);
+  document.body.appendChild(svg);
+  try {
+    const total = path.getTotalLength();
+    if (!(total > 0)) return null;
+    return Array.from({ length: count }, (_, i) => {
+      const p = path.getPointAtLength((total * i) / count);
+      return { x: p.x, y: p.y };
+    });
+  } catch {
+    return null;
+  } finally {
+    svg.remove();
+  }
+}
+
+// Treats each slice of the cavity as round, so its volume goes with its width squared.
+export function volumeProfile(points: { x: number; y: number }[], viewBox: ViewBox): number[] | null {
+  const areas: number[] = [];
+  for (let i = 0; i < PROFILE_STEPS; i++) {
+    const y = viewBox.y + viewBox.height - ((i + 0.5) / PROFILE_STEPS) * viewBox.height;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let j = 0; j < points.length; j++) {
+      const p = points[j];
+      const q = points[(j + 1) % points.length];
+      if (p.y === q.y || (p.y - y) * (q.y - y) > 0) continue;
+      const x = p.x + ((y - p.y) / (q.y - p.y)) * (q.x - p.x);
+      min = Math.min(min, x);
+      max = Math.max(max, x);
+    }
+    areas.push(max > min ? (max - min) ** 2 : 0);
+  }
+  const total = areas.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) return null;
+  const profile = [0];
+  for (const a of areas) profile.push(profile[profile.length - 1] + a / total);
+  profile[PROFILE_STEPS] = 1;
+  return profile;
+}
+
+// Remaining fraction of the bottle for a water surface at `height` (0 = bottom of the
+// viewBox, 1 = top). Without a profile the bottle is treated as straight-sided.
+export function fractionForHeight(profile: number[] | null, height: number) {
+  const h = clamp(height, 0, 1);
+  if (!profile) return h;
+  const x = h * PROFILE_STEPS;
+  const i = Math.min(PROFILE_STEPS - 1, Math.floor(x));
+  return clamp(profile[i] + (profile[i + 1] - profile[i]) * (x - i), 0, 1);
+}
+
+// Inverse of fractionForHeight: where the water surface sits for a remaining fraction.
+export function heightForFraction(profile: number[] | null, fraction: number) {
+  const f = clamp(fraction, 0, 1);
+  if (!profile) return f;
+  if (f <= 0) return 0;
+  let i = 0;
+  while (i < PROFILE_STEPS - 1 && profile[i + 1] < f) i++;
+  const span = profile[i + 1] - profile[i];
+  return clamp((i + (span > 0 ? (f - profile[i]) / span : 0)) / PROFILE_STEPS, 0, 1);
+}
+
+export function parseShapeAssets(outlineSvg: string, cavitySvg: string): ShapeAssets | null {
+  const outlineDs = extractPathDs(outlineSvg);
+  const cavityD = extractPathDs(cavitySvg)[0];
+  if (!cavityD || outlineDs.length === 0) return null;
+  const viewBox = extractViewBox(outlineSvg) ?? DEFAULT_VIEWBOX;
+  const cavityBox = extractViewBox(cavitySvg) ?? viewBox;
+  const cavityOffset = {
+    x: viewBox.x + (viewBox.width - cavityBox.width) / 2 - cavityBox.x,
+    y: viewBox.y + (viewBox.height - cavityBox.height) / 2 - cavityBox.y,
+  };
+  const points = samplePathPoints(cavityD, 400);
+  const profile = points
+    ? volumeProfile(
+        points.map((p) => ({ x: p.x + cavityOffset.x, y: p.y + cavityOffset.y })),
+        viewBox
+      )
+    : null;
+  return { viewBox, outlineDs, cavityD, cavityOffset, profile };
+}
+
+// Inline `data:` SVGs can be read without a fetch, so they render on the first frame.
+export function decodeSvgDataUrl(url: string): string | null {
+  const m = url.match(/^data:image\/svg\+xml(;base64)?,(.*)$/s);
+  if (!m) return null;
+  try {
+    return m[1] ? atob(m[2]) : decodeURIComponent(m[2]);
+  } catch {
+    return null;
+  }
+}
+
+async function readSvg(url: string) {
+  const inline = decodeSvgDataUrl(url);
+  if (inline !== null) return inline;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Couldn’t load ${url}`);
+  return res.text();
+}
+
+const cache = new Map<string, ShapeAssets | null>();
+const pending = new Map<string, Promise<ShapeAssets | null>>();
+
+function cacheKey(shape: BottleShape) {
+  return `${shape.outlinePath}|${shape.cavityPath}`;
+}
+
+// Assets that are available right now: already loaded, or inline.
+export function peekShapeAssets(shape: BottleShape): ShapeAssets | null {
+  const key = cacheKey(shape);
+  if (cache.has(key)) return cache.get(key) ?? null;
+  const outline = decodeSvgDataUrl(shape.outlinePath);
+  const cavity = decodeSvgDataUrl(shape.cavityPath);
+  if (outline === null || cavity === null) return null;
+  const assets = parseShapeAssets(outline, cavity);
+  cache.set(key, assets);
+  return assets;
+}
+
+export function loadShapeAssets(shape: BottleShape): Promise<ShapeAssets | null> {
+  const key = cacheKey(shape);
+  if (cache.has(key)) return Promise.resolve(cache.get(key) ?? null);
+  let p = pending.get(key);
+  if (!p) {
+    p = Promise.all([readSvg(shape.outlinePath), readSvg(shape.cavityPath)])
+      .then(([outline, cavity]) => parseShapeAssets(outline, cavity))
+      .catch(() => null)
+      .then((assets) => {
+        cache.set(key, assets);
+        pending.delete(key);
+        return assets;
+      });
+    pending.set(key, p);
+  }
+  return p;
+}
+
+// Null until the shape's SVGs have loaded (or when they can't be read).
+export function useShapeAssets(shape: BottleShape): ShapeAssets | null {
+  const key = cacheKey(shape);
+  const ready = peekShapeAssets(shape);
+  const [loaded, setLoaded] = useState<{ key: string; assets: ShapeAssets | null } | null>(null);
+
+  useEffect(() => {
+    if (ready) return;
+    let cancelled = false;
+    void loadShapeAssets(shape).then((assets) => {
+      if (!cancelled) setLoaded({ key, assets });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, ready, shape]);
+
+  return ready ?? (loaded?.key === key ? loaded.assets : null);
+}
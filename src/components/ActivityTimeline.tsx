@@ -0,0 +1,55 @@
+import { type DrinkEvent, SOURCE_LABELS } from "../state/journal";
+import { beverageById } from "../state/beverages";
+import { type UnitPrefs, formatClock, formatVolume } from "../state/units";
+
+// Today's drinks, newest first, each removable on its own.
+export default function ActivityTimeline({
+  events,
+  units,
+  onRemove,
+  className = "",
+}: {
+  events: DrinkEvent[];
+  units: UnitPrefs;
+  onRemove: (id: string) => void;
+  className?: string;
+}) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className={"w-full max-w-md rounded-3xl border border-white/10 bg-white/6 p-4 " + className}>
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-extrabold">Today</div>
+        <div className="text-[11px] text-white/50 tabular-nums">{events.filter((e) => e.ml !== 0).length} logged</div>
+      </div>
+      <div className="mt-2 max-h-56 overflow-y-auto no-scrollbar divide-y divide-white/8">
+        {events.map((e) => {
+          const b = e.beverage ? beverageById(e.beverage) : null;
+          return (
+            <div key={e.id} className="flex items-center gap-3 py-2">
+              <div className="w-16 shrink-0 text-xs font-extrabold tabular-nums text-white/70">{formatClock(e.at, units.clock)}</div>
+              <div className="flex-1 min-w-0 truncate text-xs text-white/55">
+                {b ? `${b.emoji} ${b.label} · ${formatVolume(e.volumeML ?? e.ml, units.volume)}` : SOURCE_LABELS[e.source]}
+                {e.backfilled ? " • added later" : ""}
+              </div>
+              {e.ml !== 0 && (
+                <div className={"text-sm font-extrabold tabular-nums " + (e.ml < 0 ? "text-[#FF453A]" : "text-[#0A84FF]")}>
+                  {formatVolume(e.ml, units.volume, { signed: true })}
+                </div>
+              )}
+              {e.ml > 0 && (
+                <button
+                  onClick={() => onRemove(e.id)}
+                  className="h-7 w-7 shrink-0 rounded-lg border border-white/12 bg-white/8 text-xs text-white/60 active:bg-white/12"
+                  aria-label={`Remove ${formatClock(e.at, units.clock)} drink`}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { beverageBreakdown } from "../state/beverages";
+import type { DrinkEvent } from "../state/journal";
+import { type VolumeUnit, formatVolume } from "../state/units";
+
+// One line per beverage drunk that day, with caffeine and sugar when there were any.
+export default function BeverageBreakdown({
+  events,
+  volume = "ml",
+  className = "",
+}: {
+  events: DrinkEvent[];
+  volume?: VolumeUnit;
+  className?: string;
+}) {
+  const { rows, caffeineMg, sugarG } = beverageBreakdown(events);
+  if (rows.length === 0) return null;
+
+  return (
+    <div className={"rounded-2xl border border-white/10 bg-white/5 px-3 py-2 " + className}>
+      {rows.map((r) => (
+        <div key={r.beverage.id} className="flex items-center justify-between py-1 text-xs">
+          <div className="font-extrabold text-white/80">
+            {r.beverage.emoji} {r.beverage.label}
+          </div>
+          <div className="tabular-nums text-white/60">
+            {formatVolume(r.volumeML, volume)}
+            {r.countedML !== r.volumeML && <span className="text-white/40"> · counts {formatVolume(r.countedML, volume)}</span>}
+          </div>
+        </div>
+      ))}
+      {(caffeineMg > 0 || sugarG > 0) && (
+        <div className="mt-1 border-t border-white/10 pt-1.5 text-[11px] tabular-nums text-white/45">
+          {[caffeineMg > 0 ? `~${caffeineMg} mg caffeine` : null, sugarG > 0 ? `~${sugarG} g sugar` : null].filter(Boolean).join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { CSSProperties } from "react";
+import { BEVERAGES, type BeverageFactors, MAX_BEVERAGE_FACTOR, makeDefaultBeverageFactors } from "../state/beverages";
+
+const STEP = 0.05;
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+export default function BeverageFactorsCard({
+  factors,
+  onChange,
+  style,
+}: {
+  factors: BeverageFactors;
+  onChange: (next: BeverageFactors) => void;
+  style?: CSSProperties;
+}) {
+  const defaults = makeDefaultBeverageFactors();
+  const changed = BEVERAGES.some((b) => factors[b.id] !== defaults[b.id]);
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Drinks</div>
+      <div className="mt-1 text-xs text-white/60">How much of each drink counts towards your goal when you add it with Quick Add.</div>
+
+      <div className="mt-4 space-y-2">
+        {BEVERAGES.map((b) => {
+          const f = factors[b.id];
+          const set = (v: number) => onChange({ ...factors, [b.id]: round2(Math.max(0, Math.min(MAX_BEVERAGE_FACTOR, v))) });
+          return (
+            <div key={b.id} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-extrabold">
+                  {b.emoji} {b.label}
+                </div>
+                {(b.caffeineMgPer100ml > 0 || b.sugarGPer100ml > 0) && (
+                  <div className="text-[10px] text-white/45 tabular-nums">
+                    {[
+                      b.caffeineMgPer100ml > 0 ? `${b.caffeineMgPer100ml} mg caffeine` : null,
+                      b.sugarGPer100ml > 0 ? `${b.sugarGPer100ml} g sugar` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}{" "}
+                    per 100 ml
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => set(f - STEP)}
+                disabled={f <= 0}
+                className="h-8 w-8 rounded-xl border border-white/12 bg-white/8 text-white/70 active:bg-white/12 disabled:opacity-40"
+                aria-label={`Lower ${b.label}`}
+              >
+                −
+              </button>
+              <div className="w-12 text-center text-sm font-extrabold tabular-nums">{Math.round(f * 100)}%</div>
+              <button
+                onClick={() => set(f + STEP)}
+                disabled={f >= MAX_BEVERAGE_FACTOR}
+                className="h-8 w-8 rounded-xl border border-white/12 bg-white/8 text-white/70 active:bg-white/12 disabled:opacity-40"
+                aria-label={`Raise ${b.label}`}
+              >
+                +
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {changed && (
+        <button onClick={() => onChange(defaults)} className="mt-4 text-xs font-extrabold text-[#0A84FF]">
+          Reset to defaults
+        </button>
+      )}
+    </div>
+  );
+}
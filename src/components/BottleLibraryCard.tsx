@@ -0,0 +1,213 @@
+import { type CSSProperties, useState } from "react";
+import type { BottleShape } from "../bottles/bottleShapes";
+import { isCustomShapeId } from "../bottles/customShapes";
+import { BOTTLE_COLORS, MAX_BOTTLES, type SavedBottle, makeBottle } from "../bottles/bottleLibrary";
+import {
+  type VolumeUnit,
+  formatVolume,
+  parseVolumeInput,
+  sanitizeVolumeInput,
+  volumeInputValue,
+  volumeUnitLabel,
+} from "../state/units";
+
+type BottlePatch = Partial<Pick<SavedBottle, "name" | "capacityML" | "shapeId" | "color">>;
+
+function BottleEditor({
+  bottle,
+  shapes,
+  volume,
+  canRemove,
+  onUpdate,
+  onRemove,
+  onImportShape,
+  onDeleteShape,
+}: {
+  bottle: SavedBottle;
+  shapes: BottleShape[];
+  volume: VolumeUnit;
+  canRemove: boolean;
+  onUpdate: (patch: BottlePatch) => void;
+  onRemove: () => void;
+  onImportShape?: () => void;
+  onDeleteShape: (shapeId: string) => void;
+}) {
+  const [name, setName] = useState(bottle.name);
+  const [capacity, setCapacity] = useState(volumeInputValue(bottle.capacityML, volume));
+  const ml = parseVolumeInput(capacity, volume) ?? NaN;
+  const capacityError = !Number.isFinite(ml) || ml < 100 || ml > 5000;
+
+  return (
+    <div className="mt-3 grid gap-3">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value.slice(0, 40))}
+          onBlur={() => {
+            if (name.trim()) onUpdate({ name: name.trim() });
+            else setName(bottle.name);
+          }}
+          placeholder="Name"
+          className="flex-1 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-sm font-extrabold text-white placeholder:text-white/30"
+          aria-label="Bottle name"
+        />
+        <input
+          value={capacity}
+          onChange={(e) => setCapacity(sanitizeVolumeInput(e.target.value, volume))}
+          onBlur={() => {
+            if (!capacityError) onUpdate({ capacityML: Math.round(ml) });
+          }}
+          inputMode={volume === "ml" ? "numeric" : "decimal"}
+          className="w-24 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-right text-sm font-extrabold tabular-nums text-white"
+          aria-label={`Capacity in ${volumeUnitLabel(volume)}`}
+        />
+        <div className="self-center text-sm text-white/60">{volumeUnitLabel(volume)}</div>
+      </div>
+      {capacityError && (
+        <div className="text-xs text-[#FF453A]">
+          Capacity must be {formatVolume(100, volume)}–{formatVolume(5000, volume)}.
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {shapes.map((sh) => (
+          <button
+            key={sh.id}
+            onClick={() => onUpdate({ shapeId: sh.id })}
+            className={
+              "px-3 py-1.5 rounded-xl border text-xs font-extrabold " +
+              (bottle.shapeId === sh.id ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/12 bg-white/6 text-white/70")
+            }
+          >
+            {sh.label}
+          </button>
+        ))}
+        {onImportShape && (
+          <button
+            onClick={onImportShape}
+            className="px-3 py-1.5 rounded-xl border border-dashed border-white/20 text-xs font-extrabold text-white/60"
+          >
+            + Import
+          </button>
+        )}
+      </div>
+      {isCustomShapeId(bottle.shapeId) && (
+        <button onClick={() => onDeleteShape(bottle.shapeId)} className="self-start text-xs font-extrabold text-white/50">
+          Delete this custom shape
+        </button>
+      )}
+
+      <div className="flex items-center gap-2">
+        {BOTTLE_COLORS.map((c) => (
+          <button
+            key={c}
+            onClick={() => onUpdate({ color: c })}
+            className={"h-7 w-7 rounded-full border-2 " + (bottle.color === c ? "border-white" : "border-transparent")}
+            style={{ backgroundColor: c }}
+            aria-label={`Colour ${c}`}
+          />
+        ))}
+        {canRemove && (
+          <button onClick={onRemove} className="ml-auto text-xs font-extrabold text-[#FF453A]">
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function BottleLibraryCard({
+  bottles,
+  shapes,
+  activeBottleId,
+  volume,
+  onSwitch,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onImportShape,
+  onDeleteShape,
+  style,
+}: {
+  bottles: SavedBottle[];
+  shapes: BottleShape[];
+  activeBottleId: string;
+  volume: VolumeUnit;
+  onSwitch: (id: string) => void;
+  onAdd: (bottle: SavedBottle) => void;
+  onUpdate: (id: string, patch: BottlePatch) => void;
+  onRemove: (id: string) => void;
+  // Omitted once the custom shape limit is reached.
+  onImportShape?: (bottleId: string) => void;
+  onDeleteShape: (shapeId: string) => void;
+  style?: CSSProperties;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Your bottles</div>
+      <div className="mt-1 text-xs text-white/60">Each bottle keeps its own level. Switch from the main screen.</div>
+
+      <div className="mt-4 grid gap-2">
+        {bottles.map((b) => (
+          <div key={b.id} className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+            <div className="flex items-center gap-3">
+              <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: b.color }} />
+              <button onClick={() => setEditingId((id) => (id === b.id ? null : b.id))} className="flex-1 text-left">
+                <div className="font-extrabold">{b.name}</div>
+                <div className="text-xs text-white/60 tabular-nums">
+                  {formatVolume(b.capacityML, volume)} • {Math.round(b.remaining * 100)}% left
+                </div>
+              </button>
+              {b.id === activeBottleId ? (
+                <div className="text-xs font-extrabold text-white/45">In use</div>
+              ) : (
+                <button
+                  onClick={() => onSwitch(b.id)}
+                  className="px-3 py-1.5 rounded-xl border border-white/15 bg-white/8 text-xs font-extrabold"
+                >
+                  Use
+                </button>
+              )}
+            </div>
+            {editingId === b.id && (
+              <BottleEditor
+                key={b.id}
+                bottle={b}
+                shapes={shapes}
+                volume={volume}
+                canRemove={bottles.length > 1}
+                onUpdate={(patch) => onUpdate(b.id, patch)}
+                onRemove={() => {
+                  setEditingId(null);
+                  onRemove(b.id);
+                }}
+                onImportShape={onImportShape && (() => onImportShape(b.id))}
+                onDeleteShape={onDeleteShape}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {bottles.length < MAX_BOTTLES && (
+        <button
+          onClick={() => {
+            const bottle = makeBottle({
+              name: `Bottle ${bottles.length + 1}`,
+              capacityML: 500,
+              color: BOTTLE_COLORS[bottles.length % BOTTLE_COLORS.length],
+            });
+            onAdd(bottle);
+            setEditingId(bottle.id);
+          }}
+          className="mt-3 w-full px-4 py-3 rounded-2xl border border-white/15 bg-white/8 text-sm font-extrabold"
+        >
+          + Add bottle
+        </button>
+      )}
+    </div>
+  );
+}
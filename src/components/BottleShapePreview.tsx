@@ -1,60 +1,42 @@
 import { useId } from "react";
-
-function extractFirstPathD(svgText: string): string | null {
-  const match = svgText.match(/<path[^>]*\sd=(["'])([^"']+)\1/i);
-  return match ? match[2] : null;
-}
-
-function extractViewBox(svgText: string): string {
-  const match = svgText.match(/viewBox="([^"]+)"/);
-  return match ? match[1] : "0 0 236 768";
-}
-
-function extractSvgInner(svgText: string): string {
-  const start = svgText.indexOf(">");
-  const end = svgText.lastIndexOf("</svg>");
-  if (start === -1 || end === -1 || end <= start) return svgText;
-  return svgText.slice(start + 1, end).trim();
-}
+import type { BottleShape } from "../bottles/bottleShapes";
+import { heightForFraction, useShapeAssets } from "../bottles/shapeAssets";
 
 export default function BottleShapePreview({
-  outlineSvg,
-  cavitySvg,
+  shape,
   waterPct = 70,
+  className = "h-[260px] w-[120px]",
 }: {
-  outlineSvg: string;
-  cavitySvg: string;
+  shape: BottleShape;
   waterPct?: number;
+  className?: string;
 }) {
   const clipId = useId();
-  const cavityD = extractFirstPathD(cavitySvg);
-  const outlineViewBox = extractViewBox(outlineSvg);
-  const [ovx, ovy, ovw, ovh] = outlineViewBox.split(/\s+/).map((n) => Number(n));
-  const vbWidth = Number.isFinite(ovw) ? ovw : 236;
-  const vbHeight = Number.isFinite(ovh) ? ovh : 768;
-  const pct = Math.max(0, Math.min(100, waterPct));
-  const waterHeight = (vbHeight * pct) / 100;
-  const baseX = Number.isFinite(ovx) ? ovx : 0;
-  const baseY = Number.isFinite(ovy) ? ovy : 0;
-  const y = baseY + vbHeight - waterHeight;
+  const assets = useShapeAssets(shape);
 
-  if (!cavityD) {
-    return <div className="text-xs text-white/60">Invalid bottle SVG</div>;
+  if (!assets) {
+    return <div className={className} aria-hidden="true" />;
   }
 
-  const outlineInner = extractSvgInner(outlineSvg);
+  const { x, y, width, height } = assets.viewBox;
+  const pct = Math.max(0, Math.min(100, waterPct));
+  const waterHeight = height * heightForFraction(assets.profile, pct / 100);
+  const stroke = height / 150;
+
   return (
-    <svg viewBox={outlineViewBox} preserveAspectRatio="xMidYMid meet" className="h-[260px] w-[120px]" aria-hidden="true">
+    <svg viewBox={`${x} ${y} ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className={className} aria-hidden="true">
       <defs>
         <clipPath id={`bottle-clip-${clipId}`}>
-          <path d={cavityD} />
+          <path d={assets.cavityD} transform={`translate(${assets.cavityOffset.x} ${assets.cavityOffset.y})`} />
         </clipPath>
       </defs>
       <g clipPath={`url(#bottle-clip-${clipId})`}>
-        <rect x={baseX} y={baseY} width={vbWidth} height={vbHeight} fill="rgba(255,255,255,0.04)" />
-        <rect x={baseX} y={y} width={vbWidth} height={waterHeight} fill="rgba(10,132,255,0.65)" />
+        <rect x={x} y={y} width={width} height={height} fill="rgba(255,255,255,0.04)" />
+        <rect x={x} y={y + height - waterHeight} width={width} height={waterHeight} fill="rgba(10,132,255,0.65)" />
       </g>
-      <g dangerouslySetInnerHTML={{ __html: outlineInner }} />
+      {assets.outlineDs.map((d, i) => (
+        <path key={i} d={d} fill="none" stroke="rgba(255,255,255,0.35)" strokeWidth={stroke * 2} />
+      ))}
     </svg>
   );
 }
@@ -0,0 +1,142 @@
+import { type CSSProperties, type ChangeEvent, useRef, useState } from "react";
+import type { AppState } from "../state/appState";
+import {
+  type ImportMode,
+  type ImportPreview,
+  BackupImportError,
+  backupFileName,
+  buildBackupJson,
+  buildDailyLogCsv,
+  parseImportFile,
+  saveTextFile,
+} from "../state/backup";
+
+export default function DataBackupCard({
+  state,
+  onImport,
+  style,
+}: {
+  state: AppState;
+  onImport: (preview: ImportPreview, mode: ImportMode) => void;
+  style?: CSSProperties;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const dayCount = Object.keys(state.dailyLog || {}).length;
+
+  async function onExport(kind: "json" | "csv") {
+    setError(null);
+    setMessage(null);
+    try {
+      if (kind === "json") await saveTextFile(backupFileName("json"), buildBackupJson(state), "application/json");
+      else await saveTextFile(backupFileName("csv"), buildDailyLogCsv(state), "text/csv");
+    } catch {
+      setError("Couldn’t export your data. Try again.");
+    }
+  }
+
+  async function onFileChange(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    try {
+      setPreview(parseImportFile(await file.text(), file.name, state));
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof BackupImportError ? err.message : "Couldn’t read that file.");
+    }
+  }
+
+  function confirm(mode: ImportMode) {
+    if (!preview) return;
+    onImport(preview, mode);
+    setMessage(
+      mode === "merge"
+        ? `Merged ${preview.dayCount} day${preview.dayCount === 1 ? "" : "s"} into your history.`
+        : preview.source === "json"
+          ? "Backup restored."
+          : `Replaced your history with ${preview.dayCount} day${preview.dayCount === 1 ? "" : "s"}.`
+    );
+    setPreview(null);
+  }
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Your data</div>
+      <div className="mt-1 text-xs text-white/60">
+        {dayCount} day{dayCount === 1 ? "" : "s"} of history on this device. Export a backup or bring one back in.
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 gap-2">
+        <button
+          onClick={() => void onExport("json")}
+          className="px-4 py-3 rounded-2xl border border-white/15 bg-white/8 font-extrabold active:scale-[0.99]"
+        >
+          Export backup
+        </button>
+        <button
+          onClick={() => void onExport("csv")}
+          className="px-4 py-3 rounded-2xl border border-white/15 bg-white/8 font-extrabold active:scale-[0.99]"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        className="hidden"
+        onChange={onFileChange}
+      />
+      <button
+        onClick={() => fileRef.current?.click()}
+        className="mt-2 w-full px-4 py-3 rounded-2xl border border-[#0A84FF]/35 bg-[#0A84FF]/10 text-[#85C0E7] font-extrabold active:scale-[0.99]"
+      >
+        Import…
+      </button>
+
+      {preview && (
+        <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="font-extrabold">{preview.fileName}</div>
+          <div className="mt-1 text-xs text-white/60">
+            {preview.source === "json" ? "Full backup" : "Daily log CSV"} • {preview.dayCount} day{preview.dayCount === 1 ? "" : "s"}
+            {preview.firstDay && preview.lastDay ? ` (${preview.firstDay} → ${preview.lastDay})` : ""}
+          </div>
+          {preview.overlapping > 0 && (
+            <div className="mt-1 text-xs text-white/60">
+              {preview.overlapping} day{preview.overlapping === 1 ? "" : "s"} already logged here —{" "}
+              {preview.source === "csv" ? "merge replaces them with the file’s rows." : "merge keeps the most recently updated copy."}
+            </div>
+          )}
+          {state.dayKey in preview.dailyLog && (preview.source === "csv" || preview.state?.dayKey !== state.dayKey) && (
+            <div className="mt-1 text-xs text-white/60">Today stays as tracked here.</div>
+          )}
+          {preview.issues.length > 0 && (
+            <div className="mt-1 text-xs text-[#F6C945]">
+              {preview.issues.length} invalid field{preview.issues.length === 1 ? " was" : "s were"} repaired or skipped.
+            </div>
+          )}
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            <button onClick={() => setPreview(null)} className="px-3 py-3 rounded-2xl border border-white/15 bg-white/8 text-sm font-extrabold">
+              Cancel
+            </button>
+            <button onClick={() => confirm("merge")} className="px-3 py-3 rounded-2xl bg-[#0A84FF] text-sm font-extrabold">
+              Merge
+            </button>
+            <button onClick={() => confirm("replace")} className="px-3 py-3 rounded-2xl bg-[#FF453A] text-sm font-extrabold">
+              Replace
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <div className="mt-3 text-xs text-green-500">{message}</div>}
+      {error && <div className="mt-3 text-xs text-[#FF453A]">{error}</div>}
+    </div>
+  );
+}
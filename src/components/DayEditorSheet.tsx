@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { type DrinkEvent, SOURCE_LABELS, effectiveDrinkEvents } from "../state/journal";
+import { dateFromDayKey } from "../state/dayKeys";
+import { beverageById } from "../state/beverages";
+import {
+  type UnitPrefs,
+  formatClock,
+  formatVolume,
+  formatVolumeRatio,
+  parseVolumeInput,
+  sanitizeVolumeInput,
+  volumeInputValue,
+  volumeUnitLabel,
+} from "../state/units";
+import BeverageBreakdown from "./BeverageBreakdown";
+
+const QUICK_ML = [150, 250, 330, 500];
+
+function minsFromTimeInput(v: string) {
+  const [h, m] = v.split(":").map((n) => Number(n));
+  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
+  return h * 60 + m;
+}
+
+export default function DayEditorSheet({
+  dayKey,
+  events,
+  goalML,
+  defaultMins,
+  units,
+  onAdd,
+  onRemove,
+  onClose,
+}: {
+  dayKey: string;
+  events: DrinkEvent[];
+  goalML: number;
+  defaultMins: number;
+  units: UnitPrefs;
+  onAdd: (mins: number, ml: number) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [time, setTime] = useState(
+    `${String(Math.floor(defaultMins / 60) % 24).padStart(2, "0")}:${String(defaultMins % 60).padStart(2, "0")}`
+  );
+  const [ml, setMl] = useState(() => volumeInputValue(250, units.volume));
+
+  const drinks = effectiveDrinkEvents(events)
+    .filter((e) => e.ml !== 0 || !!e.volumeML)
+    .sort((a, b) => a.at - b.at);
+  const consumedML = Math.max(0, drinks.reduce((sum, e) => sum + e.ml, 0));
+  const pct = goalML > 0 ? Math.round((consumedML / goalML) * 100) : 0;
+  const title = dateFromDayKey(dayKey).toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" });
+  const mins = minsFromTimeInput(time);
+  const amount = parseVolumeInput(ml, units.volume) ?? NaN;
+  const canAdd = mins !== null && Number.isFinite(amount) && amount > 0 && amount <= 5000;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className="absolute inset-0 flex items-center justify-center px-5">
+        <div className="mx-auto w-full max-w-md max-h-[85vh] overflow-y-auto no-scrollbar rounded-3xl border border-white/10 bg-[#121218]/95 shadow-[0_20px_60px_rgba(0,0,0,.55)]">
+          <div className="px-5 pt-4 pb-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-lg font-extrabold">{title}</div>
+                <div className="mt-1 text-xs text-white/60 tabular-nums">
+                  {formatVolumeRatio(consumedML, goalML, units.volume)} ({pct}%)
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="h-10 w-10 rounded-2xl border border-white/12 bg-white/8 active:bg-white/12 flex items-center justify-center"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="px-5 pb-5">
+            <BeverageBreakdown events={events} volume={units.volume} className="mb-3" />
+            <div className="grid gap-2">
+              {drinks.length === 0 && <div className="py-3 text-sm text-white/50">No drinks logged for this day.</div>}
+              {drinks.map((e) => (
+                <div key={e.id} className="flex items-center justify-between rounded-2xl border border-white/12 bg-white/6 px-4 py-3">
+                  <div>
+                    <div className="font-extrabold tabular-nums">{formatClock(e.at, units.clock)}</div>
+                    <div className="text-[11px] text-white/50">
+                      {e.beverage ? `${beverageById(e.beverage).label} · ${formatVolume(e.volumeML ?? e.ml, units.volume)}` : SOURCE_LABELS[e.source]}
+                      {e.backfilled ? " • added later" : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className={"font-extrabold tabular-nums " + (e.ml < 0 ? "text-[#FF453A]" : "text-[#0A84FF]")}>
+                      {formatVolume(e.ml, units.volume, { signed: true })}
+                    </div>
+                    <button
+                      onClick={() => onRemove(e.id)}
+                      className="h-8 w-8 rounded-xl border border-white/12 bg-white/8 text-white/70 active:bg-white/12"
+                      aria-label="Remove drink"
+                    >
+                      −
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <div className="text-sm font-extrabold">Add a drink</div>
+              <div className="mt-3 flex gap-2">
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="flex-1 rounded-xl border border-white/12 bg-white/8 px-3 py-2 font-extrabold text-white"
+                />
+                <input
+                  value={ml}
+                  onChange={(e) => setMl(sanitizeVolumeInput(e.target.value, units.volume))}
+                  inputMode={units.volume === "ml" ? "numeric" : "decimal"}
+                  className="w-24 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-right font-extrabold tabular-nums text-white"
+                  aria-label={`Amount in ${volumeUnitLabel(units.volume)}`}
+                />
+                <div className="self-center text-sm text-white/60">{volumeUnitLabel(units.volume)}</div>
+              </div>
+              <div className="mt-2 flex gap-2">
+                {QUICK_ML.map((v) => (
+                  <button
+                    key={v}
+                    onClick={() => setMl(volumeInputValue(v, units.volume))}
+                    className={
+                      "flex-1 rounded-xl border px-2 py-1.5 text-xs font-extrabold tabular-nums " +
+                      (ml === volumeInputValue(v, units.volume) ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-[#85C0E7]" : "border-white/12 bg-white/6 text-white/70")
+                    }
+                  >
+                    {volumeInputValue(v, units.volume)}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => {
+                  if (mins === null || !canAdd) return;
+                  onAdd(mins, amount);
+                }}
+                disabled={!canAdd}
+                className="mt-3 w-full px-4 py-3 rounded-2xl bg-[#0A84FF] font-extrabold active:scale-[0.99] disabled:opacity-40"
+              >
+                Add drink
+              </button>
+            </div>
+
+            <div className="mt-3 text-xs text-white/60">Changes here are marked as added later and update this day’s score.</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
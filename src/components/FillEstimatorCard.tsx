@@ -0,0 +1,64 @@
+import { type CSSProperties, useState } from "react";
+import {
+  DEFAULT_FILL_ESTIMATE_URL,
+  FILL_ESTIMATOR_OPTIONS,
+  type FillEstimatorSettings,
+  isValidEndpoint,
+} from "../scan/fillEstimators";
+
+export default function FillEstimatorCard({
+  settings,
+  onChange,
+  style,
+}: {
+  settings: FillEstimatorSettings;
+  onChange: (next: FillEstimatorSettings) => void;
+  style?: CSSProperties;
+}) {
+  const [endpoint, setEndpoint] = useState(settings.endpoint);
+  const trimmed = endpoint.trim();
+  const endpointError = trimmed !== "" && !isValidEndpoint(trimmed);
+  const active = FILL_ESTIMATOR_OPTIONS.find((o) => o.kind === settings.kind) ?? FILL_ESTIMATOR_OPTIONS[0];
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Bottle scanning</div>
+      <div className="mt-1 text-xs text-white/60">{active.detail}</div>
+
+      <div className="mt-4 grid grid-cols-3 gap-2">
+        {FILL_ESTIMATOR_OPTIONS.map((o) => (
+          <button
+            key={o.kind}
+            onClick={() => onChange({ ...settings, kind: o.kind })}
+            className={
+              "px-3 py-3 rounded-2xl border text-sm font-extrabold active:scale-[0.99] " +
+              (settings.kind === o.kind ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/15 bg-white/8 text-white/70")
+            }
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.kind === "http" && (
+        <div className="mt-4">
+          <div className="text-xs text-white/60">Endpoint (leave empty for the default)</div>
+          <input
+            value={endpoint}
+            onChange={(e) => setEndpoint(e.target.value)}
+            onBlur={() => {
+              if (!endpointError) onChange({ ...settings, endpoint: trimmed });
+            }}
+            placeholder={DEFAULT_FILL_ESTIMATE_URL}
+            inputMode="url"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            className="mt-2 w-full rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-sm text-white placeholder:text-white/30"
+          />
+          {endpointError && <div className="mt-2 text-xs text-[#FF453A]">Enter a full http(s) URL.</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { type CSSProperties, useState } from "react";
+import { dateFromDayKey, isDayKey } from "../state/dayKeys";
+import { type GoalOverrides, MAX_GOAL_ML, MIN_GOAL_ML, setDayGoal, setWeekdayGoal } from "../state/goalSchedule";
+import { WEEKDAY_LABELS } from "../state/weekSchedule";
+import {
+  type VolumeUnit,
+  formatVolume,
+  formatVolumeShort,
+  parseVolumeInput,
+  sanitizeVolumeInput,
+  volumeInputValue,
+  volumeUnitLabel,
+} from "../state/units";
+
+// Monday first, matching the week schedule.
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function parseGoal(v: string, volume: VolumeUnit) {
+  const n = parseVolumeInput(v, volume);
+  return n !== null && n >= MIN_GOAL_ML && n <= MAX_GOAL_ML ? n : null;
+}
+
+function formatDay(key: string) {
+  return dateFromDayKey(key).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+export default function GoalScheduleCard({
+  goalML,
+  overrides,
+  todayKey,
+  volume,
+  onChange,
+  style,
+}: {
+  goalML: number;
+  overrides: GoalOverrides;
+  todayKey: string;
+  volume: VolumeUnit;
+  onChange: (next: GoalOverrides) => void;
+  style?: CSSProperties;
+}) {
+  const [weekday, setWeekday] = useState<number | null>(null);
+  const [weekdayInput, setWeekdayInput] = useState("");
+  const [dayInput, setDayInput] = useState(todayKey);
+  const [dayGoalInput, setDayGoalInput] = useState("");
+
+  const weekdayGoal = parseGoal(weekdayInput, volume);
+  const dayGoal = parseGoal(dayGoalInput, volume);
+  const unitLabel = volumeUnitLabel(volume);
+  const canAddDay = dayGoal !== null && isDayKey(dayInput) && dayInput >= todayKey;
+  const upcoming = Object.keys(overrides.days)
+    .filter((k) => k >= todayKey)
+    .sort();
+
+  function pickWeekday(day: number) {
+    setWeekday(day === weekday ? null : day);
+    setWeekdayInput(volumeInputValue(overrides.weekdays[day] ?? goalML, volume));
+  }
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Different goals on some days</div>
+      <div className="mt-1 text-xs text-white/60">A bigger goal for long-run Sundays or a hot day. Other days use {formatVolume(goalML, volume)}.</div>
+
+      <div className="mt-4 grid grid-cols-7 gap-1.5">
+        {DISPLAY_ORDER.map((day) => {
+          const g = overrides.weekdays[day];
+          return (
+            <button
+              key={day}
+              onClick={() => pickWeekday(day)}
+              className={
+                "rounded-xl border px-1 py-2 text-center active:scale-[0.99] " +
+                (weekday === day
+                  ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white"
+                  : g !== null
+                    ? "border-white/25 bg-white/12 text-white"
+                    : "border-white/15 bg-white/8 text-white/70")
+              }
+            >
+              <div className="text-[11px] font-extrabold">{WEEKDAY_LABELS[day]}</div>
+              <div className="mt-0.5 text-[10px] tabular-nums text-white/60">{g !== null ? formatVolumeShort(g, volume) : "—"}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      {weekday !== null && (
+        <div className="mt-3 flex items-center gap-2">
+          <div className="w-12 text-xs font-extrabold text-white/70">{WEEKDAY_LABELS[weekday]}</div>
+          <input
+            value={weekdayInput}
+            onChange={(e) => setWeekdayInput(sanitizeVolumeInput(e.target.value, volume))}
+            inputMode={volume === "ml" ? "numeric" : "decimal"}
+            className="w-24 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-right font-extrabold tabular-nums text-white"
+            aria-label={`${WEEKDAY_LABELS[weekday]} goal in ${unitLabel}`}
+          />
+          <div className="text-sm text-white/60">{unitLabel}</div>
+          <button
+            onClick={() => {
+              onChange(setWeekdayGoal(overrides, weekday, weekdayGoal));
+              setWeekday(null);
+            }}
+            disabled={weekdayGoal === null}
+            className="ml-auto px-3 py-2 rounded-xl bg-[#0A84FF] text-xs font-extrabold disabled:opacity-40"
+          >
+            Set
+          </button>
+          {overrides.weekdays[weekday] !== null && (
+            <button
+              onClick={() => {
+                onChange(setWeekdayGoal(overrides, weekday, null));
+                setWeekday(null);
+              }}
+              className="px-3 py-2 rounded-xl border border-white/15 bg-white/8 text-xs font-extrabold text-white/70"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="mt-5 text-xs text-white/65">One-off day</div>
+      <div className="mt-2 flex items-center gap-2">
+        <input
+          type="date"
+          value={dayInput}
+          min={todayKey}
+          onChange={(e) => setDayInput(e.target.value)}
+          className="flex-1 min-w-0 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-sm font-extrabold text-white"
+          aria-label="Day"
+        />
+        <input
+          value={dayGoalInput}
+          onChange={(e) => setDayGoalInput(sanitizeVolumeInput(e.target.value, volume))}
+          inputMode={volume === "ml" ? "numeric" : "decimal"}
+          placeholder={volumeInputValue(goalML, volume)}
+          className="w-20 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-right font-extrabold tabular-nums text-white placeholder:text-white/30"
+          aria-label={`Goal for that day in ${unitLabel}`}
+        />
+        <button
+          onClick={() => {
+            if (dayGoal === null) return;
+            onChange(setDayGoal(overrides, dayInput, dayGoal));
+            setDayGoalInput("");
+          }}
+          disabled={!canAddDay}
+          className="px-3 py-2 rounded-xl bg-[#0A84FF] text-xs font-extrabold disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+
+      {upcoming.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {upcoming.map((k) => (
+            <div key={k} className="flex items-center justify-between rounded-2xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="text-sm font-extrabold">{k === todayKey ? "Today" : formatDay(k)}</div>
+              <div className="flex items-center gap-3">
+                <div className="text-sm tabular-nums text-white/70">{formatVolume(overrides.days[k], volume)}</div>
+                <button
+                  onClick={() => onChange(setDayGoal(overrides, k, null))}
+                  className="h-8 w-8 rounded-xl border border-white/12 bg-white/8 text-white/70 active:bg-white/12"
+                  aria-label="Remove day goal"
+                >
+                  −
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
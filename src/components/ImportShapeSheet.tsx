@@ -0,0 +1,129 @@
+import { type ChangeEvent, useRef, useState } from "react";
+import type { BottleShape } from "../bottles/bottleShapes";
+import { CustomShapeError, shapeFromPhoto, shapeFromSvg } from "../bottles/customShapes";
+import { readPixels } from "../scan/fillEstimators";
+import BottleShapePreview from "./BottleShapePreview";
+
+function errorMessage(err: unknown) {
+  if (err instanceof CustomShapeError) return err.message;
+  return "Couldn’t read that file. Try another one.";
+}
+
+export default function ImportShapeSheet({
+  defaultName,
+  onSave,
+  onClose,
+}: {
+  defaultName: string;
+  onSave: (shape: BottleShape) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<BottleShape | null>(null);
+  const [name, setName] = useState(defaultName);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const svgInputRef = useRef<HTMLInputElement | null>(null);
+  const photoInputRef = useRef<HTMLInputElement | null>(null);
+
+  async function onSvgChange(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      setDraft(shapeFromSvg(await file.text(), name));
+    } catch (err) {
+      setDraft(null);
+      setError(errorMessage(err));
+    }
+  }
+
+  async function onPhotoChange(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    const url = URL.createObjectURL(file);
+    try {
+      setDraft(shapeFromPhoto(await readPixels(url, 160), name));
+    } catch (err) {
+      setDraft(null);
+      setError(errorMessage(err));
+    } finally {
+      URL.revokeObjectURL(url);
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className="absolute inset-0 flex items-center justify-center px-5">
+        <div className="mx-auto w-full max-w-md max-h-[85vh] overflow-y-auto no-scrollbar rounded-3xl border border-white/10 bg-[#121218]/95 shadow-[0_20px_60px_rgba(0,0,0,.55)]">
+          <div className="px-5 pt-4 pb-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-lg font-extrabold">Import a bottle shape</div>
+                <div className="mt-1 text-xs text-white/60">
+                  Use an SVG outline, or trace one from a side-on photo on a plain background.
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="h-10 w-10 shrink-0 rounded-2xl border border-white/12 bg-white/8 active:bg-white/12 flex items-center justify-center"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="px-5 pb-5">
+            <input ref={svgInputRef} type="file" accept=".svg,image/svg+xml" className="hidden" onChange={onSvgChange} />
+            <input ref={photoInputRef} type="file" accept="image/*" className="hidden" onChange={onPhotoChange} />
+
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={() => svgInputRef.current?.click()}
+                className="flex-1 px-4 py-3 rounded-2xl border border-white/15 bg-white/8 text-sm font-extrabold"
+              >
+                Choose SVG file
+              </button>
+              <button
+                onClick={() => photoInputRef.current?.click()}
+                disabled={busy}
+                className="flex-1 px-4 py-3 rounded-2xl border border-white/15 bg-white/8 text-sm font-extrabold disabled:opacity-40"
+              >
+                {busy ? "Tracing…" : "Trace from photo"}
+              </button>
+            </div>
+
+            {error && <div className="mt-3 text-xs text-[#FF453A]">{error}</div>}
+
+            {draft && (
+              <div className="mt-4 flex items-center gap-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+                <BottleShapePreview shape={draft} waterPct={60} className="h-[160px] w-[80px]" />
+                <div className="flex-1">
+                  <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value.slice(0, 24))}
+                    placeholder="Name"
+                    className="w-full rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-sm font-extrabold text-white placeholder:text-white/30"
+                    aria-label="Shape name"
+                  />
+                  <button
+                    onClick={() => onSave({ ...draft, label: name.trim() || draft.label })}
+                    className="mt-3 w-full px-4 py-3 rounded-2xl bg-[#0A84FF] text-sm font-extrabold"
+                  >
+                    Save shape
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
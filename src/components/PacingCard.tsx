@@ -0,0 +1,169 @@
+import { type CSSProperties, type PointerEvent, useRef, useState } from "react";
+import {
+  DEFAULT_PACING_POINTS,
+  type LearnedPacing,
+  MIN_LEARN_DAYS,
+  PACING_OPTIONS,
+  type PacingPoint,
+  type PacingSettings,
+  expectedShare,
+  movePacingPoint,
+  pacingPoints,
+} from "../state/pacing";
+
+// Chart box in SVG units; the curve is drawn inside the padding.
+const W = 300;
+const H = 180;
+const PAD = 16;
+
+function toSvg([t, pct]: PacingPoint) {
+  return { x: PAD + t * (W - PAD * 2), y: H - PAD - pct * (H - PAD * 2) };
+}
+
+function polyline(points: PacingPoint[]) {
+  return [[0, 0] as PacingPoint, ...points, [1, 1] as PacingPoint]
+    .map(toSvg)
+    .map((p) => `${p.x},${p.y}`)
+    .join(" ");
+}
+
+function PacingCurve({
+  points,
+  compareTo,
+  editable,
+  onChange,
+}: {
+  points: PacingPoint[];
+  // Drawn faintly behind, e.g. the default curve next to a learned one.
+  compareTo?: PacingPoint[];
+  editable: boolean;
+  onChange: (points: PacingPoint[]) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  function moveTo(index: number, e: PointerEvent<SVGElement>) {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width <= 0 || rect.height <= 0) return;
+    const x = ((e.clientX - rect.left) / rect.width) * W;
+    const y = ((e.clientY - rect.top) / rect.height) * H;
+    onChange(movePacingPoint(points, index, (x - PAD) / (W - PAD * 2), (H - PAD - y) / (H - PAD * 2)));
+  }
+
+  return (
+    <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="mt-4 w-full select-none" style={{ touchAction: "none" }}>
+      {[0.25, 0.5, 0.75].map((g) => (
+        <line
+          key={g}
+          x1={PAD}
+          x2={W - PAD}
+          y1={toSvg([0, g]).y}
+          y2={toSvg([0, g]).y}
+          stroke="rgba(255,255,255,0.08)"
+          strokeWidth="1"
+        />
+      ))}
+      <line x1={PAD} x2={W - PAD} y1={H - PAD} y2={PAD} stroke="rgba(255,255,255,0.15)" strokeWidth="1" strokeDasharray="4 4" />
+      {compareTo && (
+        <polyline points={polyline(compareTo)} fill="none" stroke="rgba(255,255,255,0.35)" strokeWidth="2" strokeDasharray="6 4" />
+      )}
+      <polyline points={polyline(points)} fill="none" stroke="#0A84FF" strokeWidth="3" strokeLinejoin="round" />
+      {editable &&
+        points.map((p, i) => {
+          const { x, y } = toSvg(p);
+          return (
+            <circle
+              key={i}
+              cx={x}
+              cy={y}
+              r={dragging === i ? 11 : 8}
+              fill="#0A84FF"
+              stroke="white"
+              strokeWidth="2"
+              style={{ cursor: "grab" }}
+              onPointerDown={(e) => {
+                e.preventDefault();
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDragging(i);
+              }}
+              onPointerMove={(e) => {
+                if (dragging === i) moveTo(i, e);
+              }}
+              onPointerUp={() => setDragging(null)}
+              onPointerCancel={() => setDragging(null)}
+            />
+          );
+        })}
+      <text x={PAD} y={H - 2} fontSize="10" fill="rgba(255,255,255,0.45)">
+        Wake
+      </text>
+      <text x={W - PAD} y={H - 2} fontSize="10" fill="rgba(255,255,255,0.45)" textAnchor="end">
+        Sleep
+      </text>
+    </svg>
+  );
+}
+
+function percent(share: number) {
+  return `${Math.round(share * 100)}%`;
+}
+
+export default function PacingCard({
+  settings,
+  learned,
+  onChange,
+  style,
+}: {
+  settings: PacingSettings;
+  learned: LearnedPacing | null;
+  onChange: (next: PacingSettings) => void;
+  style?: CSSProperties;
+}) {
+  const active = PACING_OPTIONS.find((o) => o.profile === settings.profile) ?? PACING_OPTIONS[0];
+  const points = pacingPoints(settings, learned);
+  const isLearned = settings.profile === "learned";
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Pacing</div>
+      <div className="mt-1 text-xs text-white/60">{active.detail}</div>
+
+      <div className="mt-4 grid grid-cols-5 gap-2">
+        {PACING_OPTIONS.map((o) => (
+          <button
+            key={o.profile}
+            onClick={() => onChange({ ...settings, profile: o.profile })}
+            className={
+              "px-2 py-3 rounded-2xl border text-xs font-extrabold active:scale-[0.99] " +
+              (settings.profile === o.profile ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/15 bg-white/8 text-white/70")
+            }
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+
+      <PacingCurve
+        points={points}
+        compareTo={isLearned && learned ? DEFAULT_PACING_POINTS : undefined}
+        editable={settings.profile === "custom"}
+        onChange={(customPoints) => onChange({ ...settings, customPoints })}
+      />
+      {isLearned && !learned ? (
+        <div className="mt-1 text-[11px] text-white/45">
+          Log at least {MIN_LEARN_DAYS} days to learn your rhythm. Balanced is used until then.
+        </div>
+      ) : isLearned && learned ? (
+        <div className="mt-1 text-[11px] text-white/45 tabular-nums">
+          From {learned.days} day{learned.days === 1 ? "" : "s"}: you usually drink {percent(expectedShare(0.4, learned.learnedPoints))} by
+          the 40% mark, against {percent(expectedShare(0.4, DEFAULT_PACING_POINTS))} on Balanced (dashed). Your pace
+          follows your history {percent(learned.weight)} of the way; more days move it further.
+        </div>
+      ) : (
+        <div className="mt-1 text-[11px] text-white/45 tabular-nums">
+          About {percent(expectedShare(0.5, points))} of your goal halfway through your day.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { BEVERAGES, type BeverageFactors, type BeverageId, beverageById, hydrationML } from "../state/beverages";
+import {
+  MAX_QUICK_ADD_ML,
+  MAX_QUICK_ADD_PRESETS,
+  MIN_QUICK_ADD_ML,
+  PRESET_ICONS,
+  type QuickAddPreset,
+  type RecentDrink,
+} from "../state/quickAdd";
+import {
+  type ClockFormat,
+  type VolumeUnit,
+  formatVolume,
+  parseVolumeInput,
+  sanitizeVolumeInput,
+  volumeInputValue,
+  volumeUnitLabel,
+} from "../state/units";
+import WhenPicker from "./WhenPicker";
+
+function CountsAs({ ml, beverage, factors, volume }: { ml: number; beverage: BeverageId; factors: BeverageFactors; volume: VolumeUnit }) {
+  const counted = hydrationML(ml, beverage, factors);
+  if (counted === ml) return null;
+  return <div className="text-[10px] tabular-nums text-white/50">counts as {formatVolume(counted, volume)}</div>;
+}
+
+export default function QuickAddSheet({
+  factors,
+  presets,
+  recent,
+  minAt,
+  volume,
+  clock,
+  onAdd,
+  onSavePreset,
+  onDeletePreset,
+  onClose,
+}: {
+  factors: BeverageFactors;
+  presets: QuickAddPreset[];
+  recent: RecentDrink[];
+  minAt: number;
+  volume: VolumeUnit;
+  clock: ClockFormat;
+  onAdd: (ml: number, beverage: BeverageId, at?: number) => void;
+  onSavePreset: (preset: Omit<QuickAddPreset, "id">) => void;
+  onDeletePreset: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [beverage, setBeverage] = useState<BeverageId>("water");
+  const [amountText, setAmountText] = useState(() => volumeInputValue(250, volume));
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [label, setLabel] = useState("");
+  const [icon, setIcon] = useState(PRESET_ICONS[0]);
+  const [at, setAt] = useState<number | null>(null);
+
+  const amount = parseVolumeInput(amountText, volume) ?? 0;
+  const amountOk = amount >= MIN_QUICK_ADD_ML && amount <= MAX_QUICK_ADD_ML;
+  const defaultLabel = `${beverageById(beverage).label} ${formatVolume(amount, volume)}`;
+
+  function add(ml: number, b: BeverageId) {
+    onAdd(ml, b, at ?? undefined);
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className="absolute inset-0 flex items-center justify-center px-5">
+        <div className="mx-auto w-full max-w-md max-h-[85vh] overflow-y-auto no-scrollbar rounded-3xl border border-white/10 bg-[#121218]/95 shadow-[0_20px_60px_rgba(0,0,0,.55)]">
+          <div className="px-5 pt-4 pb-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-lg font-extrabold">Add a drink</div>
+                <div className="mt-1 text-xs font-extrabold text-[#0A84FF]">
+                  Tip: use this when you drank something from somewhere else (café, glass, can, etc.).
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="h-10 w-10 shrink-0 rounded-2xl border border-white/12 bg-white/8 active:bg-white/12 flex items-center justify-center"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="px-5 pb-5">
+            <WhenPicker value={at} minAt={minAt} onChange={setAt} clock={clock} className="mb-4" />
+
+            {recent.length > 0 && (
+              <>
+                <div className="text-xs text-white/65">Recent</div>
+                <div className="mt-2 flex gap-2 overflow-x-auto no-scrollbar">
+                  {recent.map((r) => {
+                    const b = beverageById(r.beverage);
+                    return (
+                      <button
+                        key={`${r.beverage}-${r.ml}`}
+                        onClick={() => add(r.ml, r.beverage)}
+                        className="shrink-0 rounded-full border border-white/12 bg-white/6 px-3 py-1.5 text-xs font-extrabold tabular-nums active:scale-[0.98]"
+                      >
+                        {b.emoji} {formatVolume(r.ml, volume)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+
+            <div className="mt-4 flex items-center justify-between">
+              <div className="text-xs text-white/65">Presets</div>
+              {presets.length > 0 && (
+                <button onClick={() => setEditing((v) => !v)} className="text-xs font-extrabold text-[#0A84FF]">
+                  {editing ? "Done" : "Edit"}
+                </button>
+              )}
+            </div>
+            <div className="mt-2 grid gap-2">
+              {presets.map((p) => (
+                <div key={p.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => add(p.ml, p.beverage)}
+                    disabled={editing}
+                    className="flex-1 rounded-2xl border border-white/12 bg-white/6 px-4 py-3 text-left active:scale-[0.99] disabled:active:scale-100"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="font-extrabold">
+                        {p.icon} {p.label}
+                      </div>
+                      <div className="text-right">
+                        <div className="font-extrabold tabular-nums text-[#0A84FF]">{formatVolume(p.ml, volume, { signed: true })}</div>
+                        <CountsAs ml={p.ml} beverage={p.beverage} factors={factors} volume={volume} />
+                      </div>
+                    </div>
+                  </button>
+                  {editing && (
+                    <button
+                      onClick={() => onDeletePreset(p.id)}
+                      className="h-10 w-10 shrink-0 rounded-2xl border border-white/12 bg-white/8 text-white/70 active:bg-white/12"
+                      aria-label={`Delete ${p.label}`}
+                    >
+                      −
+                    </button>
+                  )}
+                </div>
+              ))}
+              {presets.length === 0 && <div className="py-2 text-xs text-white/50">No presets yet. Save one below.</div>}
+            </div>
+
+            <div className="mt-5 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <div className="text-sm font-extrabold">Something else</div>
+              <div className="mt-3 grid grid-cols-4 gap-2">
+                {BEVERAGES.map((b) => (
+                  <button
+                    key={b.id}
+                    onClick={() => setBeverage(b.id)}
+                    className={
+                      "rounded-2xl border px-1 py-2 text-center active:scale-[0.99] " +
+                      (beverage === b.id ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/15 bg-white/8 text-white/70")
+                    }
+                  >
+                    <div className="text-lg leading-none">{b.emoji}</div>
+                    <div className="mt-1 text-[10px] font-extrabold leading-tight">{b.label}</div>
+                  </button>
+                ))}
+              </div>
+
+              <div className="mt-4 flex items-center gap-2">
+                <input
+                  value={amountText}
+                  onChange={(e) => setAmountText(sanitizeVolumeInput(e.target.value, volume))}
+                  inputMode={volume === "ml" ? "numeric" : "decimal"}
+                  className="w-24 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-right font-extrabold tabular-nums text-white"
+                  aria-label={`Amount in ${volumeUnitLabel(volume)}`}
+                />
+                <div className="text-sm text-white/60">{volumeUnitLabel(volume)}</div>
+                <div className="ml-auto">
+                  <CountsAs ml={amount} beverage={beverage} factors={factors} volume={volume} />
+                </div>
+              </div>
+              <input
+                type="range"
+                min={50}
+                max={1000}
+                step={10}
+                value={Math.min(1000, Math.max(50, amount))}
+                onChange={(e) => setAmountText(volumeInputValue(Number(e.target.value), volume))}
+                className="mt-3 w-full accent-[#0A84FF]"
+                aria-label="Amount slider"
+              />
+
+              {saving ? (
+                <div className="mt-3">
+                  <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+                    {PRESET_ICONS.map((i) => (
+                      <button
+                        key={i}
+                        onClick={() => setIcon(i)}
+                        className={
+                          "h-9 w-9 shrink-0 rounded-xl border text-lg " +
+                          (icon === i ? "border-[#0A84FF]/60 bg-[#0A84FF]/15" : "border-white/12 bg-white/6")
+                        }
+                        aria-label={`Icon ${i}`}
+                      >
+                        {i}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="mt-2 flex gap-2">
+                    <input
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value.slice(0, 24))}
+                      placeholder={defaultLabel}
+                      className="flex-1 min-w-0 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-sm font-extrabold text-white placeholder:text-white/30"
+                      aria-label="Preset name"
+                    />
+                    <button
+                      onClick={() => {
+                        onSavePreset({ label: label.trim() || defaultLabel, ml: amount, beverage, icon });
+                        setSaving(false);
+                        setLabel("");
+                      }}
+                      disabled={!amountOk}
+                      className="px-4 py-2 rounded-xl bg-[#0A84FF] text-sm font-extrabold disabled:opacity-40"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-3 flex gap-2">
+                  <button
+                    onClick={() => add(amount, beverage)}
+                    disabled={!amountOk}
+                    className="flex-1 px-4 py-3 rounded-2xl bg-[#0A84FF] text-sm font-extrabold disabled:opacity-40"
+                  >
+                    Add {amountOk ? formatVolume(amount, volume) : ""}
+                  </button>
+                  <button
+                    onClick={() => setSaving(true)}
+                    disabled={!amountOk || presets.length >= MAX_QUICK_ADD_PRESETS}
+                    className="px-4 py-3 rounded-2xl border border-white/15 bg-white/8 text-sm font-extrabold disabled:opacity-40"
+                  >
+                    Save preset
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-3 text-xs text-white/60">This won’t change your bottle level.</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { type CSSProperties, useState } from "react";
+import { DEFAULT_SAFETY_LIMIT_ML } from "../state/goalSchedule";
+import {
+  type VolumeUnit,
+  formatVolume,
+  parseVolumeInput,
+  sanitizeVolumeInput,
+  volumeInputValue,
+  volumeUnitLabel,
+} from "../state/units";
+
+export default function SafetyLimitCard({
+  limitML,
+  goalML,
+  volume,
+  onChange,
+  style,
+}: {
+  limitML: number | null;
+  goalML: number;
+  volume: VolumeUnit;
+  onChange: (next: number | null) => void;
+  style?: CSSProperties;
+}) {
+  const [input, setInput] = useState(volumeInputValue(limitML ?? DEFAULT_SAFETY_LIMIT_ML, volume));
+  const enabled = limitML !== null;
+  const parsed = parseVolumeInput(input, volume) ?? NaN;
+  const valid = Number.isFinite(parsed) && parsed > goalML && parsed <= 20000;
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-lg font-extrabold">Safety limit</div>
+          <div className="mt-1 text-xs text-white/60">Warns you when a day’s total gets unusually high.</div>
+        </div>
+        <button
+          onClick={() => onChange(enabled ? null : valid ? parsed : Math.max(DEFAULT_SAFETY_LIMIT_ML, goalML * 2))}
+          className={"h-8 w-14 shrink-0 rounded-full p-1 transition " + (enabled ? "bg-[#0A84FF]" : "bg-white/15")}
+          aria-label="Toggle safety limit"
+        >
+          <div className={"h-6 w-6 rounded-full bg-white transition " + (enabled ? "translate-x-6" : "translate-x-0")} />
+        </button>
+      </div>
+
+      {enabled && (
+        <div className="mt-4 flex items-center gap-2">
+          <input
+            value={input}
+            onChange={(e) => setInput(sanitizeVolumeInput(e.target.value, volume))}
+            onBlur={() => {
+              if (valid) onChange(parsed);
+              else setInput(volumeInputValue(limitML, volume));
+            }}
+            inputMode={volume === "ml" ? "numeric" : "decimal"}
+            className="w-28 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-right font-extrabold tabular-nums text-white"
+            aria-label={`Safety limit in ${volumeUnitLabel(volume)}`}
+          />
+          <div className="text-sm text-white/60">{volumeUnitLabel(volume)} a day</div>
+        </div>
+      )}
+      {enabled && !valid && <div className="mt-2 text-[11px] text-[#FF453A]">Set it above your {formatVolume(goalML, volume)} goal.</div>}
+    </div>
+  );
+}
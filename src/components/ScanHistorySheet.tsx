@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { FILL_ESTIMATOR_OPTIONS } from "../scan/fillEstimators";
+import { type ScanRecord, summarizeScansByBottle } from "../scan/scanHistory";
+import { type ClockFormat, type VolumeUnit, formatClock, formatVolume } from "../state/units";
+
+function formatWhen(ms: number, clock: ClockFormat) {
+  const day = new Date(ms).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `${day}, ${formatClock(ms, clock)}`;
+}
+
+function estimatorLabel(kind: ScanRecord["estimator"]) {
+  return FILL_ESTIMATOR_OPTIONS.find((o) => o.kind === kind)?.label ?? kind;
+}
+
+function signed(n: number) {
+  return `${n > 0 ? "+" : ""}${n}`;
+}
+
+export default function ScanHistorySheet({
+  records,
+  volume,
+  clock,
+  onClear,
+  onClose,
+}: {
+  records: ScanRecord[];
+  volume: VolumeUnit;
+  clock: ClockFormat;
+  onClear: () => void;
+  onClose: () => void;
+}) {
+  const [confirmClear, setConfirmClear] = useState(false);
+  const summaries = summarizeScansByBottle(records);
+  const newestFirst = [...records].sort((a, b) => b.at - a.at);
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className="absolute inset-0 flex items-center justify-center px-5">
+        <div className="mx-auto w-full max-w-md max-h-[85vh] overflow-y-auto no-scrollbar rounded-3xl border border-white/10 bg-[#121218]/95 shadow-[0_20px_60px_rgba(0,0,0,.55)]">
+          <div className="px-5 pt-4 pb-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-lg font-extrabold">Scan history</div>
+                <div className="mt-1 text-xs text-white/60">
+                  {records.length === 0 ? "No scans yet." : `Last ${records.length} scan${records.length === 1 ? "" : "s"}`}
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="h-10 w-10 rounded-2xl border border-white/12 bg-white/8 active:bg-white/12 flex items-center justify-center"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="px-5 pb-5">
+            {summaries.length > 0 && (
+              <div className="grid gap-2">
+                {summaries.map((b) => (
+                  <div key={b.bottleId} className="rounded-2xl border border-white/10 bg-white/5 p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm font-extrabold">
+                        {b.bottleName}
+                        {b.capacityML !== null && ` • ${formatVolume(b.capacityML, volume)}`}
+                      </div>
+                      <div className="text-xs text-white/60 tabular-nums">
+                        {b.corrected}/{b.used} corrected
+                      </div>
+                    </div>
+                    <div className="mt-1 text-xs text-white/60 tabular-nums">
+                      {b.used === 0
+                        ? "No scans used yet."
+                        : `Avg correction ${signed(b.meanCorrection)} pts (±${b.meanAbsCorrection})`}
+                      {b.used > 0 && Math.abs(b.meanCorrection) >= 5 && (
+                        <span className="text-[#F6C945]"> • reads {b.meanCorrection > 0 ? "low" : "high"}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-4 grid grid-cols-3 gap-2">
+              {newestFirst.map((r) => (
+                <div key={r.id} className="overflow-hidden rounded-2xl border border-white/10 bg-white/5">
+                  {r.thumbnail ? (
+                    <img src={r.thumbnail} alt="" className="block aspect-[3/4] w-full object-cover" />
+                  ) : (
+                    <div className="aspect-[3/4] w-full bg-white/5" />
+                  )}
+                  <div className="px-2 py-1.5">
+                    <div className="text-xs font-extrabold tabular-nums">
+                      {Math.round(r.estimatedPercent)}%
+                      {r.finalPercent === null ? (
+                        <span className="text-white/40"> • discarded</span>
+                      ) : (
+                        r.corrected && <span className="text-[#F6C945]"> → {r.finalPercent}%</span>
+                      )}
+                    </div>
+                    <div className="text-[10px] text-white/50">{estimatorLabel(r.estimator)}</div>
+                    <div className="text-[10px] text-white/40">{formatWhen(r.at, clock)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {records.length > 0 && (
+              <button
+                onClick={() => {
+                  if (!confirmClear) {
+                    setConfirmClear(true);
+                    return;
+                  }
+                  setConfirmClear(false);
+                  onClear();
+                }}
+                className={
+                  "mt-4 w-full px-4 py-3 rounded-2xl border text-sm font-extrabold " +
+                  (confirmClear ? "border-[#FF453A]/50 bg-[#FF453A]/15 text-[#FF453A]" : "border-white/15 bg-white/8 text-white/70")
+                }
+              >
+                {confirmClear ? "Tap again to clear" : "Clear scan history"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
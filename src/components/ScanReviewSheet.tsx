@@ -0,0 +1,133 @@
+import { type PointerEvent, useRef, useState } from "react";
+import { type FillEstimate, type WaterLine, percentForWaterLine, waterLineForPercent } from "../scan/fillEstimators";
+import { fractionForHeight } from "../bottles/shapeAssets";
+import { type ClockFormat, formatClock } from "../state/units";
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+function confidenceLabel(c: number | null) {
+  if (c === null) return { text: "Confidence unknown", className: "text-white/60" };
+  if (c >= 0.75) return { text: "High confidence", className: "text-green-500" };
+  if (c >= 0.45) return { text: "Medium confidence", className: "text-[#F6C945]" };
+  return { text: "Low confidence", className: "text-[#FF453A]" };
+}
+
+export default function ScanReviewSheet({
+  imageDataUrl,
+  estimate,
+  capturedAt,
+  profile = null,
+  clock = "12h",
+  onConfirm,
+  onRetake,
+}: {
+  imageDataUrl: string;
+  estimate: FillEstimate;
+  // Set for photos read later from the offline queue; they're tracked at this time.
+  capturedAt?: number;
+  // Volume profile of the bottle's shape: the line marks a height, what's tracked is volume.
+  profile?: number[] | null;
+  clock?: ClockFormat;
+  onConfirm: (percent: number) => void;
+  onRetake: () => void;
+}) {
+  const [line, setLine] = useState<WaterLine>(() => estimate.waterLine ?? waterLineForPercent(estimate.percent));
+  const [dragging, setDragging] = useState(false);
+  const [adjusted, setAdjusted] = useState(false);
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const volumePercent = (heightPercent: number) => Math.round(fractionForHeight(profile, heightPercent / 100) * 100);
+  const percent = volumePercent(percentForWaterLine(line));
+  const confidence = confidenceLabel(estimate.confidence);
+
+  function moveTo(clientY: number) {
+    const el = frameRef.current;
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    if (rect.height <= 0) return;
+    const y = clamp((clientY - rect.top) / rect.height, line.top, line.bottom);
+    setLine((l) => ({ ...l, y }));
+    setAdjusted(true);
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(true);
+    moveTo(e.clientY);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/60" />
+      <div className="absolute inset-0 flex items-center justify-center px-5">
+        <div className="w-full max-w-md rounded-3xl border border-white/10 bg-[#121218]/95 p-5 shadow-[0_20px_60px_rgba(0,0,0,.55)]">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="text-lg font-extrabold">Check the water line</div>
+              {capturedAt !== undefined && (
+                <div className="mt-1 text-xs text-white/60">Saved scan from {formatClock(capturedAt, clock)}</div>
+              )}
+              <div className={"mt-1 text-xs font-extrabold " + confidence.className}>
+                {confidence.text}
+                {estimate.confidence !== null ? ` (${Math.round(estimate.confidence * 100)}%)` : ""}
+              </div>
+            </div>
+            <div className="text-3xl font-extrabold tabular-nums">{percent}%</div>
+          </div>
+
+          <div className="mt-4 flex justify-center">
+            <div
+              ref={frameRef}
+              className="relative w-fit touch-none select-none overflow-hidden rounded-2xl border border-white/10"
+              onPointerDown={onPointerDown}
+              onPointerMove={(e) => {
+                if (dragging) moveTo(e.clientY);
+              }}
+              onPointerUp={() => setDragging(false)}
+              onPointerCancel={() => setDragging(false)}
+            >
+              <img src={imageDataUrl} alt="Your bottle scan" className="block max-h-[50vh] max-w-full" draggable={false} />
+              <div
+                className="pointer-events-none absolute left-0 right-0 border-t border-dashed border-white/40"
+                style={{ top: `${line.top * 100}%` }}
+              />
+              <div
+                className="pointer-events-none absolute left-0 right-0 border-t border-dashed border-white/40"
+                style={{ top: `${line.bottom * 100}%` }}
+              />
+              <div
+                className="pointer-events-none absolute left-0 right-0 bg-[#0A84FF]/20"
+                style={{ top: `${line.y * 100}%`, bottom: `${(1 - line.bottom) * 100}%` }}
+              />
+              <div className="pointer-events-none absolute left-0 right-0" style={{ top: `${line.y * 100}%` }}>
+                <div className={"h-[3px] -translate-y-1/2 bg-[#0A84FF] shadow-[0_0_10px_rgba(10,132,255,.8)] " + (dragging ? "opacity-100" : "opacity-90")} />
+                <div className="absolute right-2 -translate-y-1/2 rounded-full bg-[#0A84FF] px-2 py-0.5 text-[10px] font-extrabold">
+                  ⇕ drag
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-3 text-xs text-white/60">
+            {adjusted
+              ? `Adjusted from ${volumePercent(estimate.percent)}%.`
+              : estimate.confidence !== null && estimate.confidence < 0.45
+                ? "Not sure about this one — drag the line to where the water is."
+                : "Drag the line if it isn’t on the water level."}
+          </div>
+
+          <div className="mt-5 flex gap-3">
+            <button onClick={onRetake} className="flex-1 px-4 py-4 rounded-2xl border border-white/15 bg-white/8 font-extrabold">
+              {capturedAt !== undefined ? "Discard" : "Retake"}
+            </button>
+            <button onClick={() => onConfirm(percent)} className="flex-1 px-4 py-4 rounded-2xl bg-[#0A84FF] font-extrabold active:scale-[0.99]">
+              Use {percent}%
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
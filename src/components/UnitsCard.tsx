@@ -0,0 +1,55 @@
+import type { CSSProperties } from "react";
+import { CLOCK_FORMATS, type UnitPrefs, VOLUME_UNITS, WEIGHT_UNITS } from "../state/units";
+
+function Chips<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (v: T) => void;
+}) {
+  return (
+    <div className="mt-2 flex gap-2">
+      {options.map((o) => (
+        <button
+          key={o.id}
+          onClick={() => onChange(o.id)}
+          className={
+            "flex-1 rounded-xl border px-2 py-2 text-xs font-extrabold active:scale-[0.99] " +
+            (value === o.id ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/15 bg-white/8 text-white/70")
+          }
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function UnitsCard({
+  units,
+  onChange,
+  style,
+}: {
+  units: UnitPrefs;
+  onChange: (next: UnitPrefs) => void;
+  style?: CSSProperties;
+}) {
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Units</div>
+      <div className="mt-1 text-xs text-white/60">How amounts, weight and times are shown and entered.</div>
+
+      <div className="mt-4 text-xs text-white/65">Volume</div>
+      <Chips options={VOLUME_UNITS} value={units.volume} onChange={(volume) => onChange({ ...units, volume })} />
+
+      <div className="mt-4 text-xs text-white/65">Weight</div>
+      <Chips options={WEIGHT_UNITS} value={units.weight} onChange={(weight) => onChange({ ...units, weight })} />
+
+      <div className="mt-4 text-xs text-white/65">Clock</div>
+      <Chips options={CLOCK_FORMATS} value={units.clock} onChange={(clock) => onChange({ ...units, clock })} />
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { type CSSProperties, useState } from "react";
+import {
+  type DayWindow,
+  type SchedulePreset,
+  WEEKDAY_LABELS,
+  type WeekSchedule,
+  makeDefaultWeekSchedule,
+  normalizeDayWindow,
+  schedulePreset,
+  weekendSchedule,
+} from "../state/weekSchedule";
+
+const PRESETS: { preset: SchedulePreset; label: string }[] = [
+  { preset: "same", label: "Every day" },
+  { preset: "weekend", label: "Weekends differ" },
+  { preset: "custom", label: "Each day" },
+];
+
+// Monday first, the way most people read their week.
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function toTimeValue(mins: number) {
+  const m = ((Math.round(mins) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+function minsFromTimeInput(v: string) {
+  const [h, m] = v.split(":").map((n) => Number(n));
+  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
+  return h * 60 + m;
+}
+
+function WindowInputs({ label, window, onChange }: { label: string; window: DayWindow; onChange: (next: DayWindow) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-20 text-xs font-extrabold text-white/70">{label}</div>
+      <input
+        type="time"
+        value={toTimeValue(window.wakeMins)}
+        onChange={(e) => {
+          const wake = minsFromTimeInput(e.target.value);
+          if (wake !== null) onChange(normalizeDayWindow(wake, window.sleepMins));
+        }}
+        className="flex-1 min-w-0 rounded-xl border border-white/12 bg-white/8 px-2 py-1.5 text-sm font-extrabold text-white"
+        aria-label={`${label} wake time`}
+      />
+      <span className="text-white/40">–</span>
+      <input
+        type="time"
+        value={toTimeValue(window.sleepMins)}
+        onChange={(e) => {
+          const sleep = minsFromTimeInput(e.target.value);
+          if (sleep !== null) onChange(normalizeDayWindow(window.wakeMins, sleep));
+        }}
+        className="flex-1 min-w-0 rounded-xl border border-white/12 bg-white/8 px-2 py-1.5 text-sm font-extrabold text-white"
+        aria-label={`${label} sleep time`}
+      />
+    </div>
+  );
+}
+
+export default function WeekScheduleCard({
+  wakeMins,
+  sleepMins,
+  week,
+  onChange,
+  style,
+}: {
+  wakeMins: number;
+  sleepMins: number;
+  week: WeekSchedule;
+  onChange: (next: WeekSchedule) => void;
+  style?: CSSProperties;
+}) {
+  // "Each day" can be picked before any day differs, so the choice is kept here too.
+  const [preset, setPreset] = useState<SchedulePreset>(() => schedulePreset(week));
+  const everyday: DayWindow = { wakeMins, sleepMins };
+  const weekend = week[6] ?? week[0] ?? normalizeDayWindow(wakeMins + 60, sleepMins + 60);
+
+  function choose(next: SchedulePreset) {
+    setPreset(next);
+    if (next === "same") onChange(makeDefaultWeekSchedule());
+    if (next === "weekend") onChange(weekendSchedule(weekend));
+  }
+
+  return (
+    <div className="mt-5 rounded-3xl border border-white/10 bg-white/6 p-5" style={style}>
+      <div className="text-lg font-extrabold">Week schedule</div>
+      <div className="mt-1 text-xs text-white/60">
+        Sleeping in on some days? Each day resets and paces from that day’s wake time.
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-2">
+        {PRESETS.map((p) => (
+          <button
+            key={p.preset}
+            onClick={() => choose(p.preset)}
+            className={
+              "px-2 py-3 rounded-2xl border text-xs font-extrabold active:scale-[0.99] " +
+              (preset === p.preset ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/15 bg-white/8 text-white/70")
+            }
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {preset === "weekend" && (
+        <div className="mt-4">
+          <WindowInputs label="Sat & Sun" window={weekend} onChange={(w) => onChange(weekendSchedule(w))} />
+          <div className="mt-2 text-[11px] text-white/45">Weekdays use your hydration window above.</div>
+        </div>
+      )}
+
+      {preset === "custom" && (
+        <div className="mt-4 space-y-2">
+          {DISPLAY_ORDER.map((day) => (
+            <WindowInputs
+              key={day}
+              label={WEEKDAY_LABELS[day]}
+              window={week[day] ?? everyday}
+              onChange={(w) => onChange(week.map((d, i) => (i === day ? w : d)))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { type ClockFormat, formatClock } from "../state/units";
+
+// "When did you drink it?" for logging after the fact. `value` null means now; earlier
+// times are limited to `minAt`, the start of the current hydration window.
+
+const OFFSETS_MIN = [15, 30, 60, 120];
+
+function formatOffset(mins: number) {
+  return mins < 60 ? `${mins}m ago` : `${mins / 60}h ago`;
+}
+
+function toTimeValue(ms: number) {
+  const d = new Date(ms);
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+// The most recent wall-clock `HH:MM` at or before `now`.
+function atFromTimeInput(v: string, now: number) {
+  const [h, m] = v.split(":").map((n) => Number(n));
+  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
+  const d = new Date(now);
+  d.setHours(h, m, 0, 0);
+  if (d.getTime() > now) d.setDate(d.getDate() - 1);
+  return d.getTime();
+}
+
+export default function WhenPicker({
+  value,
+  minAt,
+  onChange,
+  clock = "12h",
+  className = "",
+}: {
+  value: number | null;
+  minAt: number;
+  onChange: (at: number | null) => void;
+  clock?: ClockFormat;
+  className?: string;
+}) {
+  const [now] = useState(() => Date.now());
+  const [picking, setPicking] = useState(false);
+  const offsets = OFFSETS_MIN.filter((m) => now - m * 60 * 1000 >= minAt);
+  const activeOffset = value === null ? null : Math.round((now - value) / 60000);
+  const custom = value !== null && !OFFSETS_MIN.includes(activeOffset ?? -1);
+
+  const chip = (active: boolean) =>
+    "shrink-0 rounded-full border px-3 py-1.5 text-xs font-extrabold tabular-nums active:scale-[0.98] " +
+    (active ? "border-[#0A84FF]/60 bg-[#0A84FF]/15 text-white" : "border-white/12 bg-white/6 text-white/60");
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
+        <span className="shrink-0 text-xs text-white/50">When?</span>
+        <button onClick={() => onChange(null)} className={chip(value === null)}>
+          Now
+        </button>
+        {offsets.map((m) => (
+          <button key={m} onClick={() => onChange(now - m * 60 * 1000)} className={chip(activeOffset === m)}>
+            {formatOffset(m)}
+          </button>
+        ))}
+        <button onClick={() => setPicking((v) => !v)} className={chip(custom)}>
+          {custom && value !== null ? formatClock(value, clock) : "Other…"}
+        </button>
+      </div>
+      {picking && (
+        <input
+          type="time"
+          value={value === null ? toTimeValue(now) : toTimeValue(value)}
+          onChange={(e) => {
+            const at = atFromTimeInput(e.target.value, now);
+            if (at === null) return;
+            onChange(at >= now - 60 * 1000 ? null : Math.max(minAt, at));
+          }}
+          className="mt-2 rounded-xl border border-white/12 bg-white/8 px-3 py-2 text-sm font-extrabold text-white"
+          aria-label="Time you drank it"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// Bookkeeping for the local nudges (morning reset, behind/late-behind, praise).
+// Persisted inside AppState so it is written and reset together with it.
+export type NotificationLedger = {
+  lastMorningResetToken: string | null;
+  lastAppOpenDayKey: string | null;
+  lastRefillOrLogDayKey: string | null;
+  lastRefillOrLogAt: number | null;
+  lastBehindNudgeDayKey: string | null;
+  behindNudgeScheduledDayKey: string | null;
+  behindNudgeScheduledAtMs: number | null;
+  lastEarlyBehindFiredAt: number | null;
+  lastLateBehindDayKey: string | null;
+  lastPraiseDateKey: string | null;
+  notifPrompted: boolean;
+};
+
+export type LedgerAction =
+  | { type: "appOpened"; dayKey: string }
+  | { type: "appResumed"; dayKey: string; atMs: number }
+  | { type: "refillOrLog"; dayKey: string; atMs: number }
+  | { type: "morningResetConfirmed"; token: string }
+  | { type: "behindNudgeScheduled"; dayKey: string; atMs: number }
+  | { type: "behindNudgeCancelled" }
+  | { type: "lateBehindNudgeScheduled"; dayKey: string }
+  | { type: "praiseSent"; dayKey: string }
+  | { type: "notifPrompted" };
+
+export function makeDefaultLedger(): NotificationLedger {
+  return {
+    lastMorningResetToken: null,
+    lastAppOpenDayKey: null,
+    lastRefillOrLogDayKey: null,
+    lastRefillOrLogAt: null,
+    lastBehindNudgeDayKey: null,
+    behindNudgeScheduledDayKey: null,
+    behindNudgeScheduledAtMs: null,
+    lastEarlyBehindFiredAt: null,
+    lastLateBehindDayKey: null,
+    lastPraiseDateKey: null,
+    notifPrompted: false,
+  };
+}
+
+export function ledgerReducer(l: NotificationLedger, action: LedgerAction): NotificationLedger {
+  switch (action.type) {
+    case "appOpened":
+      return l.lastAppOpenDayKey === action.dayKey ? l : { ...l, lastAppOpenDayKey: action.dayKey };
+    case "appResumed": {
+      // Coming back to the app cancels a pending behind nudge; if it was due already, it counts as fired.
+      const next = { ...l, lastAppOpenDayKey: action.dayKey };
+      if (!l.behindNudgeScheduledDayKey) return next;
+      const fired = typeof l.behindNudgeScheduledAtMs === "number" && action.atMs >= l.behindNudgeScheduledAtMs;
+      return {
+        ...next,
+        lastBehindNudgeDayKey: fired ? action.dayKey : l.lastBehindNudgeDayKey,
+        behindNudgeScheduledDayKey: null,
+        behindNudgeScheduledAtMs: null,
+      };
+    }
+    case "refillOrLog":
+      return {
+        ...l,
+        lastRefillOrLogDayKey: action.dayKey,
+        lastRefillOrLogAt: action.atMs,
+        behindNudgeScheduledDayKey: null,
+        behindNudgeScheduledAtMs: null,
+      };
+    case "morningResetConfirmed":
+      return { ...l, lastMorningResetToken: action.token };
+    case "behindNudgeScheduled":
+      return {
+        ...l,
+        behindNudgeScheduledDayKey: action.dayKey,
+        behindNudgeScheduledAtMs: action.atMs,
+        lastEarlyBehindFiredAt: action.atMs,
+      };
+    case "behindNudgeCancelled":
+      return { ...l, behindNudgeScheduledDayKey: null, behindNudgeScheduledAtMs: null };
+    case "lateBehindNudgeScheduled":
+      return { ...l, lastLateBehindDayKey: action.dayKey };
+    case "praiseSent":
+      return { ...l, lastPraiseDateKey: action.dayKey };
+    case "notifPrompted":
+      return { ...l, notifPrompted: true };
+  }
+}
+
+const LEGACY_KEYS = {
+  lastMorningResetToken: "v3_lastMorningResetToken",
+  lastAppOpenDayKey: "v3_lastAppOpenDayKey",
+  lastRefillOrLogDayKey: "v3_lastRefillOrLogDayKey",
+  lastRefillOrLogAt: "v3_lastRefillOrLogAt",
+  lastBehindNudgeDayKey: "v3_lastBehindNudgeDayKey",
+  behindNudgeScheduledDayKey: "v3_behindNudgeScheduledDayKey",
+  behindNudgeScheduledAtMs: "v3_behindNudgeScheduledAtMs",
+  lastEarlyBehindFiredAt: "v3_lastEarlyBehindFiredAt",
+  lastLateBehindDayKey: "v3_lastLateBehindDayKey",
+  lastPraiseDateKey: "v3_lastPraiseDateKey",
+  notifPrompted: "v3_notifPrompted",
+} as const satisfies Record<keyof NotificationLedger, string>;
+
+// Reads the per-field `v3_*` keys older builds wrote; used once by the schema migration.
+export function readLegacyLedger(): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  try {
+    for (const [field, key] of Object.entries(LEGACY_KEYS)) {
+      const raw = localStorage.getItem(key);
+      if (raw === null) continue;
+      if (field === "notifPrompted") out[field] = raw === "1";
+      else if (field.endsWith("At") || field.endsWith("AtMs")) out[field] = Number(raw);
+      else out[field] = raw;
+    }
+  } catch {
+    // ignore
+  }
+  return out;
+}
+
+export function clearLegacyLedgerKeys() {
+  try {
+    for (const key of Object.values(LEGACY_KEYS)) localStorage.removeItem(key);
+  } catch {
+    // ignore
+  }
+}
+
+export function repairLedger(v: unknown, issues: string[]): NotificationLedger {
+  const d = makeDefaultLedger();
+  if (v === undefined) return d;
+  if (typeof v !== "object" || v === null || Array.isArray(v)) {
+    issues.push("notifications");
+    return d;
+  }
+  const raw = v as Record<string, unknown>;
+  const out = { ...d } as Record<keyof NotificationLedger, unknown>;
+  for (const field of Object.keys(d) as Array<keyof NotificationLedger>) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    const expected = typeof d[field] === "boolean" ? "boolean" : field.endsWith("At") || field.endsWith("AtMs") ? "number" : "string";
+    const ok = expected === "number" ? typeof value === "number" && Number.isFinite(value) : typeof value === expected;
+    if (ok) out[field] = value;
+    else issues.push(`notifications.${field}`);
+  }
+  return out as NotificationLedger;
+}
@@ -0,0 +1,173 @@
+import { type ClockTimes, clockTimeOn, dayKey } from "../state/dayKeys";
+import type { NotificationLedger } from "./ledger";
+import { type VolumeUnit, formatVolume } from "../state/units";
+
+// Pure scheduling decisions for the local nudges. App.tsx feeds in the ledger and the
+// current pacing numbers, then performs the LocalNotifications calls these describe.
+
+export const MORNING_RESET_ID = 1001;
+export const BEHIND_NUDGE_ID = 1002;
+export const LATE_BEHIND_NUDGE_ID = 1003;
+export const PRAISE_ID = 1004;
+
+export type NudgePlan = { kind: "schedule"; at: Date; dayKey: string } | { kind: "cancel" } | { kind: "none" };
+export type NudgeInput = { now: Date; wakeMins: ClockTimes; sleepMins: ClockTimes; behindBottles: number };
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+function format1(v: number) {
+  const s = Number(v || 0).toFixed(1);
+  return s.endsWith(".0") ? s.slice(0, -2) : s;
+}
+
+// Rounds and clamps every entry; null if any of them isn't a number.
+function clampTimes(times: ClockTimes, max: number): ClockTimes | null {
+  const list = typeof times === "number" ? [times] : times;
+  if (!list.every((t) => Number.isFinite(t))) return null;
+  return typeof times === "number" ? clamp(Math.round(times), 0, max) : times.map((t) => clamp(Math.round(t), 0, max));
+}
+
+function windowOnDate(date: Date, wakeMins: number, sleepMins: number) {
+  const wake = new Date(date);
+  wake.setHours(Math.floor(wakeMins / 60), wakeMins % 60, 0, 0);
+  const sleep = new Date(date);
+  sleep.setHours(Math.floor((sleepMins % 1440) / 60), sleepMins % 60, 0, 0);
+  if (sleepMins >= 1440 || sleepMins <= wakeMins) {
+    sleep.setDate(sleep.getDate() + 1);
+  }
+  return { wake, sleep };
+}
+
+// Today's window, or tomorrow's (with tomorrow's times) once today's has ended.
+export function getWindowForSchedule(now: Date, wakeMins: ClockTimes, sleepMins: ClockTimes) {
+  const today = windowOnDate(now, clockTimeOn(now, wakeMins), clockTimeOn(now, sleepMins));
+  if (now.getTime() <= today.sleep.getTime()) return today;
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return windowOnDate(tomorrow, clockTimeOn(tomorrow, wakeMins), clockTimeOn(tomorrow, sleepMins));
+}
+
+export function computeWindowProgress(now: Date, wake: Date, sleep: Date) {
+  if (now.getTime() <= wake.getTime()) return 0;
+  if (now.getTime() >= sleep.getTime()) return 1;
+  const total = sleep.getTime() - wake.getTime();
+  return total > 0 ? clamp((now.getTime() - wake.getTime()) / total, 0, 1) : 0;
+}
+
+export function morningResetToken(now: Date, wakeMins: ClockTimes) {
+  return `${dayKey(now)}-${clamp(Math.round(clockTimeOn(now, wakeMins)), 0, 1439)}`;
+}
+
+export function shouldShowMorningReset(l: NotificationLedger, now: Date, wakeMins: ClockTimes) {
+  const nowMins = now.getHours() * 60 + now.getMinutes();
+  const wake = clamp(Math.round(clockTimeOn(now, wakeMins)), 0, 1439);
+  return nowMins >= wake && l.lastMorningResetToken !== morningResetToken(now, wakeMins);
+}
+
+// Wake + 7 minutes on the next wake, unless the user already opened the app or logged that day.
+export function planMorningReset(l: NotificationLedger, now: Date, wakeMins: ClockTimes): Date | null {
+  const times = clampTimes(wakeMins, 1439);
+  if (times === null) return null;
+  const at = (date: Date) => {
+    const wake = clockTimeOn(date, times);
+    const target = new Date(date);
+    target.setHours(Math.floor(wake / 60), wake % 60, 0, 0);
+    target.setMinutes(target.getMinutes() + 7);
+    return target;
+  };
+  let target = at(now);
+  if (target.getTime() <= now.getTime()) {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    target = at(tomorrow);
+  }
+  const targetDayKey = dayKey(target);
+  if (l.lastAppOpenDayKey === targetDayKey || l.lastRefillOrLogDayKey === targetDayKey) return null;
+  return target;
+}
+
+export function planBehindNudge(l: NotificationLedger, input: NudgeInput): NudgePlan {
+  const wakeMins = clampTimes(input.wakeMins, 1439);
+  const sleepMins = clampTimes(input.sleepMins, 1439);
+  if (wakeMins === null || sleepMins === null) return { kind: "none" };
+  const { now, behindBottles } = input;
+  const { wake, sleep } = getWindowForSchedule(now, wakeMins, sleepMins);
+
+  if (l.behindNudgeScheduledDayKey && l.behindNudgeScheduledDayKey === dayKey(now) && behindBottles < 0.3) {
+    return { kind: "cancel" };
+  }
+
+  const wakePlus20 = new Date(wake.getTime() + 20 * 60 * 1000);
+  const quarterPoint = new Date(wake.getTime() + 0.25 * (sleep.getTime() - wake.getTime()));
+  const at = new Date(Math.max(now.getTime() + 60 * 1000, wakePlus20.getTime(), quarterPoint.getTime()));
+  const targetDayKey = dayKey(at);
+
+  if (l.lastBehindNudgeDayKey === targetDayKey) return { kind: "none" };
+  if (l.lastRefillOrLogDayKey === targetDayKey) return { kind: "none" };
+  if (behindBottles < 0.3) return { kind: "none" };
+  if (l.behindNudgeScheduledDayKey === targetDayKey) return { kind: "none" };
+  return { kind: "schedule", at, dayKey: targetDayKey };
+}
+
+export function planLateBehindNudge(l: NotificationLedger, input: NudgeInput): NudgePlan {
+  const wakeMins = clampTimes(input.wakeMins, 1439);
+  const sleepMins = clampTimes(input.sleepMins, 1439);
+  if (wakeMins === null || sleepMins === null) return { kind: "none" };
+  const { now, behindBottles } = input;
+  const { wake, sleep } = getWindowForSchedule(now, wakeMins, sleepMins);
+  const wakePlus70 = new Date(wake.getTime() + 0.7 * (sleep.getTime() - wake.getTime()));
+  const at = new Date(Math.max(now.getTime() + 2 * 60 * 1000, wakePlus70.getTime()));
+  const targetDayKey = dayKey(at);
+  const alreadyFired = l.lastLateBehindDayKey === targetDayKey;
+  const refilledAfterEarly =
+    typeof l.lastEarlyBehindFiredAt === "number" &&
+    typeof l.lastRefillOrLogAt === "number" &&
+    l.lastRefillOrLogAt > l.lastEarlyBehindFiredAt;
+  const shouldScheduleLate = behindBottles >= 0.5 && !alreadyFired && !refilledAfterEarly;
+
+  if (import.meta.env.DEV) {
+    console.log("LateBehind check", {
+      windowProgress: computeWindowProgress(now, wake, sleep),
+      behindBottles,
+      earlyAt: l.lastEarlyBehindFiredAt,
+      refillAt: l.lastRefillOrLogAt,
+      refilledAfterEarly,
+      alreadyFired,
+      shouldScheduleLate,
+    });
+  }
+
+  if (!shouldScheduleLate) {
+    return behindBottles < 0.5 || refilledAfterEarly ? { kind: "cancel" } : { kind: "none" };
+  }
+  return { kind: "schedule", at, dayKey: targetDayKey };
+}
+
+// `deltaBottles` is actual minus expected consumption right now, in bottles. With
+// `bottleML`, the lead is also spelled out in the user's volume unit.
+export function planPraise(
+  l: NotificationLedger,
+  input: { now: Date; wakeMins: ClockTimes; sleepMins: ClockTimes; deltaBottles: number; bottleML?: number; volume?: VolumeUnit }
+): { title: string; body: string; dayKey: string } | null {
+  const { now, deltaBottles } = input;
+  const todayKey = dayKey(now);
+  if (l.lastAppOpenDayKey !== todayKey) return null;
+  if (l.lastPraiseDateKey === todayKey) return null;
+  if (l.lastBehindNudgeDayKey === todayKey || l.lastLateBehindDayKey === todayKey) return null;
+
+  const { wake, sleep } = getWindowForSchedule(now, input.wakeMins, input.sleepMins);
+  if (computeWindowProgress(now, wake, sleep) < 0.25) return null;
+  if (deltaBottles < 0) return null;
+
+  if (Math.abs(deltaBottles) <= 0.2) {
+    return { title: "Nice one 💧", body: "You’re right on pace.", dayKey: todayKey };
+  }
+  if (deltaBottles >= 0.3) {
+    const aheadBy = format1(Math.round(deltaBottles * 10) / 10);
+    const volume = input.bottleML ? ` (${formatVolume(deltaBottles * input.bottleML, input.volume ?? "ml")})` : "";
+    return { title: "Good job 💧", body: `You’re ahead by ~${aheadBy} bottles${volume}.`, dayKey: todayKey };
+  }
+  return null;
+}
@@ -0,0 +1,140 @@
+import type { Pixels } from "./fillAnalysis";
+import { readPixels } from "./fillEstimators";
+
+// Reads a product barcode (or QR code) from a label photo. The platform BarcodeDetector
+// is used where the WebView has one; otherwise EAN-13 / UPC-A is decoded here from a
+// handful of scanlines, which covers most bottle labels.
+
+// Module widths (space, bar, space, bar) of the L-code digits; R-codes share them and
+// G-codes are their mirror image.
+const DIGIT_WIDTHS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"].map((s) =>
+  Array.from(s, Number)
+);
+// L/G parity of the left six digits, which encodes the leading digit.
+const FIRST_DIGIT_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// Guard bars plus 12 digits: 3 + 6·4 + 5 + 6·4 + 3 runs over 95 modules.
+const EAN13_RUNS = 59;
+const EAN13_MODULES = 95;
+
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorLike = { detect(source: ImageBitmapSource): Promise<DetectedBarcode[]> };
+type BarcodeDetectorCtor = new (opts: { formats: string[] }) => BarcodeDetectorLike;
+
+function matchDigit(runs: number[], mirrored: boolean) {
+  const total = runs.reduce((a, b) => a + b, 0);
+  let best = { digit: -1, err: Infinity };
+  DIGIT_WIDTHS.forEach((w, digit) => {
+    const pattern = mirrored ? [...w].reverse() : w;
+    const err = runs.reduce((e, r, i) => e + Math.abs((r / total) * 7 - pattern[i]), 0);
+    if (err < best.err) best = { digit, err };
+  });
+  return best;
+}
+
+// `reversed` reads a symbol scanned right to left (an upside-down photo): its halves come
+// swapped, R-codes first, and every digit's runs are mirrored.
+function decodeRuns(runs: number[], reversed = false): string | null {
+  const module = runs.reduce((a, b) => a + b, 0) / EAN13_MODULES;
+  const guardOk = (from: number, count: number) => runs.slice(from, from + count).every((r) => r > module * 0.4 && r < module * 1.8);
+  if (!guardOk(0, 3) || !guardOk(27, 5) || !guardOk(56, 3)) return null;
+
+  // The four runs of printed digit `k` (0–11, left to right).
+  const group = (k: number) => {
+    const j = reversed ? 11 - k : k;
+    const from = j < 6 ? 3 + j * 4 : 32 + (j - 6) * 4;
+    return runs.slice(from, from + 4);
+  };
+
+  let parity = "";
+  const digits: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    const l = matchDigit(group(i), reversed);
+    const g = matchDigit(group(i), !reversed);
+    const pick = l.err <= g.err ? l : g;
+    if (pick.err > 1.6) return null;
+    parity += l.err <= g.err ? "L" : "G";
+    digits.push(pick.digit);
+  }
+  for (let i = 6; i < 12; i++) {
+    const r = matchDigit(group(i), reversed);
+    if (r.err > 1.6) return null;
+    digits.push(r.digit);
+  }
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first < 0) return null;
+  const code = [first, ...digits];
+  const sum = code.slice(0, 12).reduce((acc, n, i) => acc + n * (i % 2 === 0 ? 1 : 3), 0);
+  if ((10 - (sum % 10)) % 10 !== code[12]) return null;
+  return code.join("");
+}
+
+function decodeRow(lum: Float32Array): string | null {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const v of lum) {
+    lo = Math.min(lo, v);
+    hi = Math.max(hi, v);
+  }
+  if (hi - lo < 40) return null;
+  const threshold = (lo + hi) / 2;
+
+  // Alternating run lengths, starting with whatever colour the row starts on.
+  const runs: number[] = [];
+  const dark: boolean[] = [];
+  for (let x = 0; x < lum.length; x++) {
+    const isDark = lum[x] < threshold;
+    if (dark.length && dark[dark.length - 1] === isDark) runs[runs.length - 1]++;
+    else {
+      runs.push(1);
+      dark.push(isDark);
+    }
+  }
+
+  for (let i = 1; i + EAN13_RUNS <= runs.length; i++) {
+    // A symbol starts on a bar after a quiet zone at least a few bars wide, whichever way
+    // up it was photographed.
+    if (!dark[i] || runs[i - 1] < runs[i] * 3) continue;
+    const symbol = runs.slice(i, i + EAN13_RUNS);
+    const code = decodeRuns(symbol) ?? decodeRuns(symbol, true);
+    if (code) return code;
+  }
+  return null;
+}
+
+// Tries rows across the middle of the photo; labels are rarely framed exactly.
+export function decodeEan13(px: Pixels): string | null {
+  const { data, width: w, height: h } = px;
+  for (const t of [0.5, 0.4, 0.6, 0.3, 0.7, 0.2, 0.8, 0.45, 0.55, 0.35, 0.65]) {
+    const y = Math.round(t * (h - 1));
+    const lum = new Float32Array(w);
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 4;
+      lum[x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    const code = decodeRow(lum);
+    if (code) return code;
+  }
+  return null;
+}
+
+async function detectWithPlatform(imageDataUrl: string): Promise<string | null | undefined> {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+  if (!Detector) return undefined;
+  try {
+    const img = new Image();
+    img.src = imageDataUrl;
+    await img.decode();
+    const found = await new Detector({ formats: ["ean_13", "upc_a", "qr_code"] }).detect(img);
+    return found[0]?.rawValue ?? null;
+  } catch {
+    return undefined;
+  }
+}
+
+// The barcode's text, or null when none could be read.
+export async function readBarcode(imageDataUrl: string): Promise<string | null> {
+  const platform = await detectWithPlatform(imageDataUrl);
+  if (platform) return platform;
+  return decodeEan13(await readPixels(imageDataUrl, 800));
+}
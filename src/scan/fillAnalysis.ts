@@ -0,0 +1,218 @@
+// Pure pixel analysis behind the on-device estimator. Nothing here touches the DOM, so
+// it runs the same on a canvas readback or on synthetic pixels.
+
+export type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+// Cavity outline, normalised to its own bounding box (0–1 on both axes).
+export type CavityOutline = { points: { x: number; y: number }[]; aspect: number };
+
+export type FillAnalysis = {
+  percent: number;
+  confidence: number;
+  // Where the cavity was found and the water line row, in pixel coordinates.
+  box: { x: number; y: number; w: number; h: number } | null;
+  lineY: number;
+};
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function normaliseOutline(points: { x: number; y: number }[]): CavityOutline | null {
+  if (points.length < 3) return null;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const w = Math.max(...xs) - minX;
+  const h = Math.max(...ys) - minY;
+  if (w <= 0 || h <= 0) return null;
+  return { points: points.map((p) => ({ x: (p.x - minX) / w, y: (p.y - minY) / h })), aspect: w / h };
+}
+
+// Horizontal extent of the outline at normalised height `y`, or null outside it.
+function spanAt(outline: CavityOutline, y: number): [number, number] | null {
+  const pts = outline.points;
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i];
+    const b = pts[(i + 1) % pts.length];
+    if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+      const x = a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x);
+      lo = Math.min(lo, x);
+      hi = Math.max(hi, x);
+    }
+  }
+  return lo < hi ? [lo, hi] : null;
+}
+
+function gradientMagnitude(px: Pixels) {
+  const { data, width: w, height: h } = px;
+  const luma = new Float32Array(w * h);
+  for (let i = 0; i < w * h; i++) luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  const grad = new Float32Array(w * h);
+  let total = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const gx = luma[y * w + x + 1] - luma[y * w + x - 1];
+      const gy = luma[(y + 1) * w + x] - luma[(y - 1) * w + x];
+      const g = Math.hypot(gx, gy);
+      grad[y * w + x] = g;
+      total += g;
+    }
+  }
+  return { grad, mean: total / Math.max(1, (w - 2) * (h - 2)) };
+}
+
+// Slides and scales the outline over the image and keeps the placement with the most of
+// its boundary on an edge (coverage, 0–1). Counting edge hits rather than summing their
+// strength stops one strong edge, like the water line itself, from winning on its own.
+function fitOutline(px: Pixels, outline: CavityOutline) {
+  const { width: w, height: h } = px;
+  const { grad, mean } = gradientMagnitude(px);
+  const edge = Math.max(4, mean * 1.5);
+  const samples = outline.points.filter((_, i) => i % Math.max(1, Math.floor(outline.points.length / 64)) === 0);
+  let best = { x: 0, y: 0, w: 0, h: 0, coverage: 0 };
+  const tryBox = (bx: number, by: number, bw: number, bh: number) => {
+    if (bw < 6 || bx < 0 || by < 0 || bx + bw > w || by + bh > h) return;
+    let hits = 0;
+    for (const p of samples) {
+      const sx = Math.min(w - 1, Math.round(bx + p.x * (bw - 1)));
+      const sy = Math.min(h - 1, Math.round(by + p.y * (bh - 1)));
+      if (grad[sy * w + sx] >= edge) hits++;
+    }
+    const coverage = hits / samples.length;
+    if (coverage > best.coverage || (coverage === best.coverage && bh > best.h)) best = { x: bx, y: by, w: bw, h: bh, coverage };
+  };
+
+  // Coarse pass over sizes and positions, then a pixel-level refinement around the winner.
+  const step = Math.max(2, Math.round(h * 0.04));
+  for (let bh = Math.round(h * 0.45); bh <= h; bh += step) {
+    for (const stretch of [0.85, 1, 1.15]) {
+      const bw = Math.round(bh * outline.aspect * stretch);
+      for (let by = 0; by + bh <= h; by += 2) {
+        for (let bx = 0; bx + bw <= w; bx += 2) tryBox(bx, by, bw, bh);
+      }
+    }
+  }
+  const coarse = best;
+  const stretch = coarse.h > 0 ? coarse.w / (coarse.h * outline.aspect) : 1;
+  for (let bh = coarse.h - step; bh <= coarse.h + step; bh++) {
+    const bw = Math.round(bh * outline.aspect * stretch);
+    for (let by = coarse.y - 3; by <= coarse.y + 3; by++) {
+      for (let bx = coarse.x - 3; bx <= coarse.x + 3; bx++) tryBox(bx, by, bw, bh);
+    }
+  }
+  return best;
+}
+
+// Mean colour of each row, taken from the middle of the given horizontal span per row.
+function rowColours(px: Pixels, rows: number, spanForRow: (r: number) => [number, number] | null) {
+  const { data, width: w } = px;
+  const out: ([number, number, number] | null)[] = [];
+  for (let r = 0; r < rows; r++) {
+    const span = spanForRow(r);
+    if (!span) {
+      out.push(null);
+      continue;
+    }
+    const inset = (span[1] - span[0]) * 0.15;
+    const x0 = clamp(Math.round(span[0] + inset), 0, w - 1);
+    const x1 = clamp(Math.round(span[1] - inset), x0 + 1, w);
+    let rs = 0;
+    let gs = 0;
+    let bs = 0;
+    for (let x = x0; x < x1; x++) {
+      const i = (r * w + x) * 4;
+      rs += data[i];
+      gs += data[i + 1];
+      bs += data[i + 2];
+    }
+    const n = x1 - x0;
+    out.push([rs / n, gs / n, bs / n]);
+  }
+  return out;
+}
+
+// The water line is the row with the sharpest colour change between the rows just
+// above and just below it. Returns the row, its strength and how much it stands out.
+function findWaterLine(colours: ([number, number, number] | null)[], from: number, to: number) {
+  const span = 2;
+  const strengths: number[] = [];
+  let bestRow = -1;
+  let best = 0;
+  for (let r = from; r < to; r++) {
+    const above = [0, 0, 0];
+    const below = [0, 0, 0];
+    let ok = true;
+    for (let k = 1; k <= span && ok; k++) {
+      const a = colours[r - k];
+      const b = colours[r + k - 1];
+      if (!a || !b) {
+        ok = false;
+        break;
+      }
+      for (let c = 0; c < 3; c++) {
+        above[c] += a[c] / span;
+        below[c] += b[c] / span;
+      }
+    }
+    const s = ok ? Math.hypot(above[0] - below[0], above[1] - below[1], above[2] - below[2]) : 0;
+    strengths.push(s);
+    if (s > best) {
+      best = s;
+      bestRow = r;
+    }
+  }
+  const sorted = [...strengths].sort((a, b) => a - b);
+  const noise = sorted[Math.floor(sorted.length / 2)] || 0;
+  // Strongest change well away from the winner, to tell a clear line from a busy label.
+  const gap = Math.max(3, Math.round((to - from) * 0.1));
+  const runnerUp = strengths.reduce((m, s, i) => (Math.abs(from + i - bestRow) > gap ? Math.max(m, s) : m), 0);
+  return { row: bestRow, strength: best, noise, runnerUp };
+}
+
+function lineQuality(line: { strength: number; noise: number; runnerUp: number }) {
+  if (line.strength <= 0) return 0;
+  const snr = clamp((line.strength / (line.noise + 1) - 2) / 6, 0, 1);
+  const distinct = clamp(1 - line.runnerUp / line.strength, 0, 1);
+  return snr * (0.5 + 0.5 * distinct);
+}
+
+// Locates the cavity in the photo, then the water line inside it. Percent is the
+// water height as a share of the cavity height.
+export function analyzeWithOutline(px: Pixels, outline: CavityOutline): FillAnalysis | null {
+  const fit = fitOutline(px, outline);
+  if (fit.h <= 0) return null;
+  const colours = rowColours(px, px.height, (r) => {
+    if (r < fit.y || r >= fit.y + fit.h) return null;
+    const span = spanAt(outline, (r + 0.5 - fit.y) / fit.h);
+    return span ? [fit.x + span[0] * fit.w, fit.x + span[1] * fit.w] : null;
+  });
+  const line = findWaterLine(colours, fit.y + Math.round(fit.h * 0.04), fit.y + Math.round(fit.h * 0.97));
+  if (line.row < 0) return null;
+  const fitQuality = clamp((fit.coverage - 0.3) / 0.5, 0, 1);
+  const confidence = Math.round((0.35 * fitQuality + 0.65 * lineQuality(line)) * 100) / 100;
+  return {
+    percent: clamp(Math.round(((fit.y + fit.h - line.row) / fit.h) * 100), 0, 100),
+    confidence,
+    box: { x: fit.x, y: fit.y, w: fit.w, h: fit.h },
+    lineY: line.row,
+  };
+}
+
+// Fallback without a silhouette: assume the bottle fills the frame and look for the
+// line in the middle third. Confidence is capped since the bottle was never located.
+export function analyzeCentreStrip(px: Pixels): FillAnalysis | null {
+  const { width: w, height: h } = px;
+  const colours = rowColours(px, h, () => [w / 3, (2 * w) / 3]);
+  const line = findWaterLine(colours, Math.round(h * 0.08), Math.round(h * 0.95));
+  if (line.row < 0) return null;
+  return {
+    percent: clamp(Math.round((1 - line.row / h) * 100), 0, 100),
+    confidence: Math.round(0.4 * lineQuality(line) * 100) / 100,
+    box: null,
+    lineY: line.row,
+  };
+}
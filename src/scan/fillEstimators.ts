@@ -0,0 +1,316 @@
+import { BOTTLE_SHAPES, type BottleShape } from "../bottles/bottleShapes";
+import { loadShapeAssets, samplePathPoints } from "../bottles/shapeAssets";
+import { type CavityOutline, type Pixels, analyzeCentreStrip, analyzeWithOutline, normaliseOutline } from "./fillAnalysis";
+
+// Backends that turn a bottle photo into a fill level. The scan flows only talk to
+// `FillEstimator`; which implementation runs is a user setting.
+
+export const DEFAULT_FILL_ESTIMATE_URL =
+  (import.meta.env.VITE_FILL_ESTIMATE_URL as string) ||
+  "https://onebottle-ai-bridge.vercel.app/api/fill-estimate";
+
+export type FillEstimatorKind = "http" | "local" | "mock";
+
+export type FillEstimatorSettings = { kind: FillEstimatorKind; endpoint: string };
+
+// Detected water line and the bottle's vertical extent, as fractions of the photo height
+// (0 = top). Lets the review sheet draw the line and turn a dragged line back into a percent.
+export type WaterLine = { y: number; top: number; bottom: number };
+
+// `percent` is 0–100. `confidence` is 0–1, or null when the backend doesn't say.
+export type FillEstimate = { percent: number; confidence: number | null; waterLine: WaterLine | null };
+
+export interface FillEstimator {
+  readonly kind: FillEstimatorKind;
+  estimate(imageDataUrl: string, signal?: AbortSignal): Promise<FillEstimate>;
+}
+
+export const FILL_ESTIMATOR_OPTIONS: { kind: FillEstimatorKind; label: string; detail: string }[] = [
+  { kind: "http", label: "Cloud", detail: "Send the photo to the scan service (or your own endpoint)." },
+  { kind: "local", label: "On-device", detail: "Finds the water line on this phone. Works offline, no rate limits." },
+  { kind: "mock", label: "Demo", detail: "Returns a stand-in reading. For testing only." },
+];
+
+export class RateLimitError extends Error {
+  retryAfterMs?: number;
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The scan service couldn't be reached at all (offline, DNS, 5xx from the bridge).
+// Like RateLimitError, worth retrying later with the same photo.
+export class ScanUnreachableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScanUnreachableError";
+  }
+}
+
+export function isRetryableScanError(err: unknown) {
+  return err instanceof RateLimitError || err instanceof ScanUnreachableError;
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+function parseRetryAfterToMs(retryAfter: string | null) {
+  if (!retryAfter) return null as number | null;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.round(seconds * 1000);
+  const asDate = Date.parse(retryAfter);
+  if (!Number.isNaN(asDate)) return Math.max(0, asDate - Date.now());
+  return null;
+}
+
+// Exponential backoff with jitter; `attempt` starts at 1.
+export function retryBackoffMs(attempt: number, capMs = 20000) {
+  const backoffMs = Math.min(capMs, 1200 * Math.pow(2, Math.max(0, attempt - 1)));
+  return backoffMs + Math.floor(Math.random() * 450);
+}
+
+// Honours the server's Retry-After when it gave one, else backs off.
+export function retryDelayMs(err: unknown, attempt: number, capMs?: number) {
+  if (err instanceof RateLimitError && typeof err.retryAfterMs === "number" && err.retryAfterMs > 0) return err.retryAfterMs;
+  return retryBackoffMs(attempt, capMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = window.setTimeout(() => {
+      cleanup();
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      window.clearTimeout(t);
+      cleanup();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+
+    const cleanup = () => {
+      if (signal) signal.removeEventListener("abort", onAbort);
+    };
+
+    if (signal) {
+      if (signal.aborted) {
+        window.clearTimeout(t);
+        cleanup();
+        reject(new DOMException("Aborted", "AbortError"));
+        return;
+      }
+      signal.addEventListener("abort", onAbort);
+    }
+  });
+}
+
+// Without a detected line, assume the bottle spans the whole photo.
+export function waterLineForPercent(percent: number, bounds: { top: number; bottom: number } = { top: 0, bottom: 1 }): WaterLine {
+  const p = clamp(percent, 0, 100) / 100;
+  return { y: bounds.bottom - p * (bounds.bottom - bounds.top), top: bounds.top, bottom: bounds.bottom };
+}
+
+export function percentForWaterLine(line: WaterLine) {
+  const span = line.bottom - line.top;
+  return span > 0 ? clamp(Math.round(((line.bottom - line.y) / span) * 100), 0, 100) : 0;
+}
+
+function readFraction(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= 1 ? v : null;
+}
+
+// Accepts `water_line: { y, top?, bottom? }` or a bare `water_line_y`, all 0–1 from the top.
+function parseWaterLine(obj: Record<string, unknown> | null): WaterLine | null {
+  const wl = obj?.water_line;
+  const nested = typeof wl === "object" && wl !== null ? (wl as Record<string, unknown>) : null;
+  const y = readFraction(nested?.y) ?? readFraction(obj?.water_line_y);
+  if (y === null) return null;
+  const top = readFraction(nested?.top) ?? 0;
+  const bottom = readFraction(nested?.bottom) ?? 1;
+  return bottom > top && y >= top && y <= bottom ? { y, top, bottom } : null;
+}
+
+export function isValidEndpoint(url: string) {
+  try {
+    const u = new URL(url);
+    return u.protocol === "https:" || u.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// POSTs `{ imageDataUrl }` and reads `percent_full` or `fill_fraction` from the reply.
+export function createHttpFillEstimator(url: string = DEFAULT_FILL_ESTIMATE_URL): FillEstimator {
+  return {
+    kind: "http",
+    async estimate(imageDataUrl, signal) {
+      const MAX_ATTEMPTS = 2;
+      let lastWaitMs: number | undefined;
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        let res: Response;
+        try {
+          res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ imageDataUrl }),
+            signal,
+          });
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          throw new ScanUnreachableError("Couldn’t reach the scan service. Check your connection.");
+        }
+
+        const raw = await res.text();
+        let data: unknown = null;
+        try {
+          data = raw ? JSON.parse(raw) : null;
+        } catch {
+          // non-JSON response (still useful for debugging)
+        }
+        const obj = (typeof data === "object" && data !== null) ? (data as Record<string, unknown>) : null;
+
+        if (res.status === 429) {
+          const retryAfterMs = parseRetryAfterToMs(res.headers.get("retry-after"));
+          const waitMs = (retryAfterMs != null && retryAfterMs > 0) ? retryAfterMs : retryBackoffMs(attempt);
+          lastWaitMs = waitMs;
+
+          // If we still have attempts left, wait and retry.
+          if (attempt < MAX_ATTEMPTS) {
+            await sleep(waitMs, signal);
+            continue;
+          }
+
+          // Final attempt still rate-limited.
+          throw new RateLimitError(
+            `Scan failed (429) - Gemini API rate limit. Please try again in ${Math.max(1, Math.ceil(waitMs / 1000))}s.`,
+            waitMs
+          );
+        }
+
+        if (res.status === 502 || res.status === 503 || res.status === 504) {
+          throw new ScanUnreachableError(`Scan service unavailable (${res.status}). Please try again later.`);
+        }
+
+        if (!res.ok) {
+          const msgFromApi = obj?.error || obj?.message;
+          const snippet = typeof raw === "string" ? raw.slice(0, 220) : "";
+          throw new Error(
+            `Scan failed (${res.status}) ${msgFromApi ? `- ${msgFromApi}` : snippet ? `- ${snippet}` : ""}`.trim()
+          );
+        }
+
+        const percentFull = typeof obj?.percent_full === "number" ? obj.percent_full : null;
+        const fillFrac = typeof obj?.fill_fraction === "number" ? obj.fill_fraction : null;
+        const confidence = typeof obj?.confidence === "number" ? clamp(obj.confidence, 0, 1) : null;
+        const waterLine = parseWaterLine(obj);
+        if (percentFull != null) return { percent: clamp(percentFull, 0, 100), confidence, waterLine };
+        if (fillFrac != null) return { percent: clamp(fillFrac * 100, 0, 100), confidence, waterLine };
+        throw new Error("Scan returned an unexpected response shape");
+      }
+
+      // Should be unreachable, but keeps TS happy.
+      throw new RateLimitError("Scan failed (rate limited). Please try again.", lastWaitMs);
+    },
+  };
+}
+
+function loadImage(dataUrl: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image (unsupported format?)"));
+    img.src = dataUrl;
+  });
+}
+
+export async function readPixels(imageDataUrl: string, width: number): Promise<Pixels> {
+  const img = await loadImage(imageDataUrl);
+  const w = width;
+  const h = Math.max(32, Math.round((img.height / Math.max(1, img.width)) * w));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("On-device scan isn’t supported here");
+  ctx.drawImage(img, 0, 0, w, h);
+  return { data: ctx.getImageData(0, 0, w, h).data, width: w, height: h };
+}
+
+const outlineCache = new Map<string, Promise<CavityOutline | null>>();
+
+// Samples the cavity path of a registered shape into a normalised polygon.
+function loadCavityOutline(shape: BottleShape) {
+  let pending = outlineCache.get(shape.cavityPath);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const d = (await loadShapeAssets(shape))?.cavityD;
+        const points = d ? samplePathPoints(d, 200) : null;
+        return points ? normaliseOutline(points) : null;
+      } catch {
+        return null;
+      }
+    })();
+    outlineCache.set(shape.cavityPath, pending);
+  }
+  return pending;
+}
+
+// Finds the bottle by fitting the shape's cavity outline to the photo's edges, then
+// reads the water line inside it. Runs entirely on the canvas, so it works offline.
+export function createLocalFillEstimator(shape: BottleShape | undefined = BOTTLE_SHAPES[0]): FillEstimator {
+  return {
+    kind: "local",
+    async estimate(imageDataUrl, signal) {
+      const [pixels, outline] = await Promise.all([
+        readPixels(imageDataUrl, 96),
+        shape ? loadCavityOutline(shape) : Promise.resolve(null),
+      ]);
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      const result = (outline && analyzeWithOutline(pixels, outline)) || analyzeCentreStrip(pixels);
+      if (!result) throw new Error("Couldn’t find the water line. Try a plain background.");
+      if (import.meta.env.DEV) {
+        console.log("[DEV] local fill estimate", { shape: shape?.id, withOutline: !!outline, ...result });
+      }
+      const h = pixels.height;
+      const waterLine = result.box
+        ? { y: result.lineY / h, top: result.box.y / h, bottom: (result.box.y + result.box.h) / h }
+        : waterLineForPercent(result.percent);
+      return { percent: result.percent, confidence: result.confidence, waterLine };
+    },
+  };
+}
+
+// Deterministic stand-in: the same photo always gives the same reading, or `percent`
+// when pinned. Pairs with scripts/mock-fill-server.mjs for exercising the HTTP path.
+export function createMockFillEstimator(opts: { percent?: number; delayMs?: number } = {}): FillEstimator {
+  return {
+    kind: "mock",
+    async estimate(imageDataUrl, signal) {
+      await sleep(opts.delayMs ?? 600, signal);
+      if (typeof opts.percent === "number") {
+        return { percent: clamp(opts.percent, 0, 100), confidence: 1, waterLine: waterLineForPercent(opts.percent) };
+      }
+      let hash = 0;
+      for (let i = 0; i < imageDataUrl.length; i += 97) hash = (hash * 31 + imageDataUrl.charCodeAt(i)) >>> 0;
+      const percent = 10 + (hash % 81);
+      return { percent, confidence: 0.5 + (hash % 50) / 100, waterLine: waterLineForPercent(percent, { top: 0.1, bottom: 0.9 }) };
+    },
+  };
+}
+
+// `shape` is the bottle being scanned; the on-device estimator fits its outline.
+export function createFillEstimator(settings: FillEstimatorSettings, shape?: BottleShape): FillEstimator {
+  switch (settings.kind) {
+    case "local":
+      return createLocalFillEstimator(shape);
+    case "mock":
+      return createMockFillEstimator();
+    case "http":
+      return createHttpFillEstimator(isValidEndpoint(settings.endpoint) ? settings.endpoint : DEFAULT_FILL_ESTIMATE_URL);
+  }
+}
@@ -0,0 +1,133 @@
+import type { FillEstimatorKind } from "./fillEstimators";
+
+// Every reviewed scan, with a small thumbnail, what the estimator said and what the user
+// kept. Stored apart from AppState (thumbnails add up) and capped to the latest scans.
+
+export const SCAN_HISTORY_STORAGE_KEY = "wbt_scan_history_v1";
+export const MAX_SCAN_RECORDS = 60;
+
+export type ScanRecord = {
+  id: string;
+  // When the photo was taken.
+  at: number;
+  // Same id the drink journal uses, e.g. "standard-750".
+  bottleId: string;
+  // The bottle as it was when scanned, so the record still reads right after a rename.
+  bottleName: string;
+  capacityML: number | null;
+  estimator: FillEstimatorKind;
+  estimatedPercent: number;
+  confidence: number | null;
+  // What was tracked after review; null when the scan was retaken or discarded.
+  finalPercent: number | null;
+  corrected: boolean;
+  thumbnail: string;
+};
+
+export type BottleScanSummary = {
+  bottleId: string;
+  // From the newest scan of the bottle.
+  bottleName: string;
+  capacityML: number | null;
+  scans: number;
+  used: number;
+  corrected: number;
+  // Mean of (kept − estimated) over used scans, in percentage points. Positive means the
+  // estimator reads this bottle too low.
+  meanCorrection: number;
+  meanAbsCorrection: number;
+};
+
+const ESTIMATOR_KINDS: FillEstimatorKind[] = ["http", "local", "mock"];
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function readScanRecord(v: unknown): ScanRecord | null {
+  if (!isObject(v)) return null;
+  if (typeof v.id !== "string" || typeof v.bottleId !== "string" || !isNum(v.at) || !isNum(v.estimatedPercent)) return null;
+  const estimator = ESTIMATOR_KINDS.find((k) => k === v.estimator);
+  if (!estimator) return null;
+  const finalPercent = isNum(v.finalPercent) ? v.finalPercent : null;
+  return {
+    id: v.id,
+    at: v.at,
+    bottleId: v.bottleId,
+    // Records from before names were kept.
+    bottleName: typeof v.bottleName === "string" && v.bottleName ? v.bottleName : "Bottle",
+    capacityML: isNum(v.capacityML) && v.capacityML > 0 ? v.capacityML : null,
+    estimator,
+    estimatedPercent: v.estimatedPercent,
+    confidence: isNum(v.confidence) ? v.confidence : null,
+    finalPercent,
+    corrected: finalPercent !== null && v.corrected === true,
+    thumbnail: typeof v.thumbnail === "string" ? v.thumbnail : "",
+  };
+}
+
+export function loadScanHistory(): ScanRecord[] {
+  try {
+    const raw = localStorage.getItem(SCAN_HISTORY_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(readScanRecord).filter((r): r is ScanRecord => r !== null);
+  } catch {
+    return [];
+  }
+}
+
+// When storage is full, keep dropping the oldest records until the rest fits.
+export function saveScanHistory(records: ScanRecord[]) {
+  for (let keep = records.length; keep >= 0; keep--) {
+    try {
+      if (keep === 0) localStorage.removeItem(SCAN_HISTORY_STORAGE_KEY);
+      else localStorage.setItem(SCAN_HISTORY_STORAGE_KEY, JSON.stringify(records.slice(records.length - keep)));
+      return;
+    } catch {
+      // quota exceeded: try with fewer
+    }
+  }
+}
+
+export function clearScanHistory() {
+  try {
+    localStorage.removeItem(SCAN_HISTORY_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+export function appendScanRecord(records: ScanRecord[], rec: Omit<ScanRecord, "id" | "corrected">): ScanRecord[] {
+  const next: ScanRecord = {
+    ...rec,
+    id: `rec-${rec.at.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    corrected: rec.finalPercent !== null && rec.finalPercent !== Math.round(rec.estimatedPercent),
+  };
+  return [...records, next].slice(-MAX_SCAN_RECORDS);
+}
+
+export function summarizeScansByBottle(records: ScanRecord[]): BottleScanSummary[] {
+  const byBottle = new Map<string, ScanRecord[]>();
+  for (const r of records) byBottle.set(r.bottleId, [...(byBottle.get(r.bottleId) || []), r]);
+  return Array.from(byBottle, ([bottleId, recs]) => {
+    const used = recs.filter((r) => r.finalPercent !== null);
+    const newest = recs.reduce((a, b) => (b.at > a.at ? b : a));
+    const deltas = used.map((r) => (r.finalPercent as number) - r.estimatedPercent);
+    const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+    return {
+      bottleId,
+      bottleName: newest.bottleName,
+      capacityML: newest.capacityML,
+      scans: recs.length,
+      used: used.length,
+      corrected: used.filter((r) => r.corrected).length,
+      meanCorrection: Math.round(mean(deltas) * 10) / 10,
+      meanAbsCorrection: Math.round(mean(deltas.map(Math.abs)) * 10) / 10,
+    };
+  }).sort((a, b) => b.scans - a.scans);
+}
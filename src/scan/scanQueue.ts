@@ -0,0 +1,157 @@
+import type { AppState } from "../state/appState";
+import { type FillEstimate, type FillEstimatorKind, retryDelayMs } from "./fillEstimators";
+
+// Scans that failed because the service was unreachable or rate-limited. The photo is
+// kept (under its own storage key, so AppState stays small) and retried in the
+// background; once read, the level is reviewed and tracked at the time it was taken.
+
+export const SCAN_QUEUE_STORAGE_KEY = "wbt_scan_queue_v1";
+export const MAX_QUEUED_SCANS = 5;
+export const MAX_SCAN_ATTEMPTS = 8;
+const RETRY_CAP_MS = 10 * 60 * 1000;
+
+export type QueuedScan = {
+  id: string;
+  capturedAt: number;
+  // Wake-to-wake day the photo belongs to; it can only be applied while that day is live.
+  dayKey: string;
+  // The saved bottle in the photo and the shape it had; the estimate is made against them.
+  bottleId: string;
+  shapeId: string;
+  imageDataUrl: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  estimate: FillEstimate | null;
+  // Backend that finally read the photo.
+  estimator: FillEstimatorKind | null;
+};
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function readQueuedScan(v: unknown): QueuedScan | null {
+  if (!isObject(v)) return null;
+  if (typeof v.id !== "string" || typeof v.imageDataUrl !== "string" || typeof v.dayKey !== "string") return null;
+  if (typeof v.bottleId !== "string" || typeof v.shapeId !== "string") return null;
+  if (typeof v.capturedAt !== "number" || !Number.isFinite(v.capturedAt)) return null;
+  const est = isObject(v.estimate) && typeof v.estimate.percent === "number" ? (v.estimate as FillEstimate) : null;
+  return {
+    id: v.id,
+    capturedAt: v.capturedAt,
+    dayKey: v.dayKey,
+    bottleId: v.bottleId,
+    shapeId: v.shapeId,
+    imageDataUrl: v.imageDataUrl,
+    attempts: typeof v.attempts === "number" ? v.attempts : 0,
+    nextAttemptAt: typeof v.nextAttemptAt === "number" ? v.nextAttemptAt : 0,
+    lastError: typeof v.lastError === "string" ? v.lastError : null,
+    estimate: est ? { percent: est.percent, confidence: est.confidence ?? null, waterLine: est.waterLine ?? null } : null,
+    estimator: v.estimator === "http" || v.estimator === "local" || v.estimator === "mock" ? v.estimator : null,
+  };
+}
+
+export function loadScanQueue(): QueuedScan[] {
+  try {
+    const raw = localStorage.getItem(SCAN_QUEUE_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(readQueuedScan).filter((q): q is QueuedScan => q !== null);
+  } catch {
+    return [];
+  }
+}
+
+// Photos are large; when storage is full, drop the oldest until the rest fits.
+export function saveScanQueue(queue: QueuedScan[]) {
+  for (let keep = queue.length; keep >= 0; keep--) {
+    try {
+      if (keep === 0) localStorage.removeItem(SCAN_QUEUE_STORAGE_KEY);
+      else localStorage.setItem(SCAN_QUEUE_STORAGE_KEY, JSON.stringify(queue.slice(queue.length - keep)));
+      return;
+    } catch {
+      // quota exceeded: try with fewer
+    }
+  }
+}
+
+export function clearScanQueue() {
+  try {
+    localStorage.removeItem(SCAN_QUEUE_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+export function isQuotaError(err: unknown) {
+  return err instanceof DOMException && (err.name === "QuotaExceededError" || err.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+// Queued photos share the storage quota with the app's own save. When that save doesn't
+// fit, the oldest photo gives way; false once there is nothing left to drop.
+export function dropOldestQueuedScan() {
+  const queue = loadScanQueue();
+  if (queue.length === 0) return false;
+  saveScanQueue(queue.slice(1));
+  return true;
+}
+
+export function enqueueScan(
+  queue: QueuedScan[],
+  scan: { imageDataUrl: string; capturedAt: number; dayKey: string; bottleId: string; shapeId: string; error: unknown }
+): QueuedScan[] {
+  const item: QueuedScan = {
+    id: `scan-${scan.capturedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    capturedAt: scan.capturedAt,
+    dayKey: scan.dayKey,
+    bottleId: scan.bottleId,
+    shapeId: scan.shapeId,
+    imageDataUrl: scan.imageDataUrl,
+    attempts: 1,
+    nextAttemptAt: scan.capturedAt + retryDelayMs(scan.error, 1, RETRY_CAP_MS),
+    lastError: scan.error instanceof Error ? scan.error.message : null,
+    estimate: null,
+    estimator: null,
+  };
+  return [...queue, item].slice(-MAX_QUEUED_SCANS);
+}
+
+export function markScanRetryFailed(queue: QueuedScan[], id: string, error: unknown, now: number): QueuedScan[] {
+  return queue.flatMap((q) => {
+    if (q.id !== id) return [q];
+    const attempts = q.attempts + 1;
+    if (attempts > MAX_SCAN_ATTEMPTS) return [];
+    return [
+      {
+        ...q,
+        attempts,
+        nextAttemptAt: now + retryDelayMs(error, attempts, RETRY_CAP_MS),
+        lastError: error instanceof Error ? error.message : q.lastError,
+      },
+    ];
+  });
+}
+
+export function markScanRead(queue: QueuedScan[], id: string, estimate: FillEstimate, estimator: FillEstimatorKind): QueuedScan[] {
+  return queue.map((q) => (q.id === id ? { ...q, estimate, estimator, lastError: null } : q));
+}
+
+export function removeQueuedScan(queue: QueuedScan[], id: string): QueuedScan[] {
+  return queue.filter((q) => q.id !== id);
+}
+
+export function nextDueScan(queue: QueuedScan[]) {
+  return queue
+    .filter((q) => q.estimate === null)
+    .reduce<QueuedScan | null>((best, q) => (!best || q.nextAttemptAt < best.nextAttemptAt ? q : best), null);
+}
+
+// A queued photo only describes its bottle, as it was shaped, until the next tracked
+// level; after that, once another bottle is live, or once its day has rolled over,
+// applying it would rewrite newer data.
+export function isScanSuperseded(q: QueuedScan, s: Pick<AppState, "dayKey" | "history" | "bottles" | "activeBottleId">) {
+  if (q.dayKey !== s.dayKey) return true;
+  if (q.bottleId !== s.activeBottleId || (s.bottles || []).find((b) => b.id === q.bottleId)?.shapeId !== q.shapeId) return true;
+  return (s.history || []).some((h) => h.action === "track" && h.t > q.capturedAt);
+}
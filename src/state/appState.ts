@@ -0,0 +1,140 @@
+import { makeDefaultLedger } from "../notifications/ledger";
+import { dayKeyByWake } from "./dayKeys";
+import type { DrinkJournal } from "./journal";
+import { makeDefaultBeverageFactors } from "./beverages";
+import { type GoalOverrides, goalForDayKey, makeDefaultGoalOverrides } from "./goalSchedule";
+import { makeDefaultPacing } from "./pacing";
+import { makeDefaultQuickAddPresets } from "./quickAdd";
+import { unitPrefsForLocale } from "./units";
+import type { RedoEntry } from "./undo";
+import { makeDefaultWeekSchedule } from "./weekSchedule";
+import type { FillEstimatorSettings } from "../scan/fillEstimators";
+import type { SavedBottle } from "../bottles/bottleLibrary";
+import type { CatalogueBottle } from "../bottles/bottleCatalogue";
+import { BOTTLE_SHAPES, type BottleShape } from "../bottles/bottleShapes";
+
+export const STORAGE_KEY = "wbt_react_v3";
+
+// Bump together with a new entry in MIGRATIONS (./migrations.ts).
+export const SCHEMA_VERSION = 6;
+
+export type Meridiem = "AM" | "PM";
+export type RhythmWindowIndex = 0 | 1 | 2 | 3 | 4;
+
+export type DailyLogEntry = {
+  consumedML: number;
+  goalML: number;
+  bottleML: number;
+  carryML: number;
+  extraML: number;
+  at: number;
+  windowHitCounts: number[];
+  windowConsumedML: number[];
+  lastEventAt?: number;
+  // ml per saved bottle id, from the journal; Quick Add extras aren't in any bottle.
+  bottleConsumedML?: Record<string, number>;
+};
+
+export type HistoryEntry = {
+  t: number;
+  prevRemaining: number;
+  prevCompleted: number;
+  prevCarry: number;
+  prevExtra: number;
+  action?: string;
+  ml?: number;
+  // Journal event written by this step, so undo can append its compensating event.
+  eventId?: string;
+  // Saved bottle that was live when the step was taken.
+  bottleId?: string;
+  // Taken before the live bottle last changed, so the snapshot above no longer lines up
+  // with the live fields; undo goes by the drink's amount instead.
+  beforeSwitch?: boolean;
+};
+
+export function emptyWindows() {
+  return [0, 0, 0, 0, 0];
+}
+
+export function makeDefaultState() {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    hasOnboarded: false,
+    step: 0 as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11,
+    splashSeen: false,
+
+    weightKg: 70,
+    activity: "moderate" as "low" | "moderate" | "high",
+    warm: false,
+
+    goalML: 2000,
+    goalOverrides: makeDefaultGoalOverrides(),
+    // Warns when a day's total passes this; null when switched off.
+    safetyLimitML: null as null | number,
+    bottleML: 500,
+    bottles: [
+      { id: "bottle-1", name: "My bottle", capacityML: 500, shapeId: BOTTLE_SHAPES[0]?.id ?? "", color: "#0A84FF", remaining: 1 },
+    ] as SavedBottle[],
+    activeBottleId: "bottle-1",
+    customShapes: [] as BottleShape[],
+    // Label barcodes the user has set a size and shape for.
+    learnedLabels: [] as CatalogueBottle[],
+    snap: "free" as "quarters" | "tenths" | "free",
+    fillEstimator: { kind: "http", endpoint: "" } as FillEstimatorSettings,
+    pacing: makeDefaultPacing(),
+    beverageFactors: makeDefaultBeverageFactors(),
+    quickAddPresets: makeDefaultQuickAddPresets(),
+    units: unitPrefsForLocale(typeof navigator !== "undefined" ? navigator.language : undefined),
+    wakeMins: 480,
+    sleepMins: 1320,
+    wakeHour: 8,
+    wakeMinute: 0,
+    wakeMeridiem: "AM" as Meridiem,
+    sleepHour: 10,
+    sleepMinute: 0,
+    sleepMeridiem: "PM" as Meridiem,
+    weekSchedule: makeDefaultWeekSchedule(),
+
+
+    dayKey: dayKeyByWake(new Date(), 480),
+    completedBottles: 0,
+    remaining: 1,
+
+    carryML: 0,
+    extraML: 0,
+    onboardingScanPercent: null as null | number,
+    onboardingScanFraction: null as null | number,
+    dailyLog: {} as Record<string, DailyLogEntry>,
+    journal: {} as DrinkJournal,
+
+    history: [] as HistoryEntry[],
+    redo: [] as RedoEntry[],
+
+
+    celebrate: null as null | { type: "bottle" | "goal"; pct: number; consumedML: number },
+
+    notifications: makeDefaultLedger(),
+  };
+}
+
+export type AppState = ReturnType<typeof makeDefaultState>;
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+type ConsumptionFields = Pick<AppState, "bottleML" | "completedBottles" | "remaining" | "carryML" | "extraML">;
+
+// The goal in effect for the live day.
+export function todayGoalML(s: { goalML: number; dayKey?: string; goalOverrides?: GoalOverrides }) {
+  return s.dayKey ? goalForDayKey(s, s.dayKey) : s.goalML;
+}
+
+// The true total, including anything drunk past the goal.
+export function totalConsumedFromState(s: ConsumptionFields) {
+  const completed = clamp(s.completedBottles, 0, 1000) * s.bottleML;
+  const consumedCurrent = Math.round((1 - s.remaining) * s.bottleML);
+  const carry = clamp(Math.round((s.carryML || 0) as number), 0, 100000);
+  const extra = clamp(Math.round((s.extraML || 0) as number), 0, 100000);
+  return completed + consumedCurrent + carry + extra;
+}
@@ -0,0 +1,250 @@
+import { type AppState, type DailyLogEntry, SCHEMA_VERSION } from "./appState";
+import { dayKey } from "./dayKeys";
+import { pickJournalDays } from "./journal";
+import { migrateState } from "./migrations";
+
+export const BACKUP_FORMAT = "1bottle-backup";
+export const BACKUP_VERSION = 1;
+
+const CSV_COLUMNS = [
+  "date",
+  "consumed_ml",
+  "goal_ml",
+  "bottle_ml",
+  "window1_ml",
+  "window2_ml",
+  "window3_ml",
+  "window4_ml",
+  "window5_ml",
+] as const;
+
+export type ImportMode = "merge" | "replace";
+
+export type ImportPreview = {
+  source: "json" | "csv";
+  fileName: string;
+  dailyLog: AppState["dailyLog"];
+  dayCount: number;
+  firstDay: string | null;
+  lastDay: string | null;
+  overlapping: number;
+  issues: string[];
+  // Only JSON backups carry settings and the in-progress day.
+  state: AppState | null;
+};
+
+export class BackupImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupImportError";
+  }
+}
+
+export function backupFileName(kind: "json" | "csv", d: Date = new Date()) {
+  return kind === "json" ? `1bottle-backup-${dayKey(d)}.json` : `1bottle-daily-log-${dayKey(d)}.csv`;
+}
+
+export function buildBackupJson(s: AppState) {
+  return JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      schemaVersion: SCHEMA_VERSION,
+      state: s,
+    },
+    null,
+    2
+  );
+}
+
+export function buildDailyLogCsv(s: AppState) {
+  const rows = Object.keys(s.dailyLog || {})
+    .sort()
+    .map((k) => {
+      const day = s.dailyLog[k];
+      return [k, day.consumedML, day.goalML, day.bottleML, ...day.windowConsumedML.map((ml) => Math.round(ml))].join(",");
+    });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+// CSV rows carry no edit time, so they're stamped with `importedAt`: merging then treats
+// the file's copy of a day as the newest one.
+function parseCsvDailyLog(text: string, importedAt: number): Record<string, unknown> {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+  const header = (lines[0] || "").toLowerCase().split(",").map((c) => c.trim());
+  if (CSV_COLUMNS.some((c, i) => header[i] !== c)) {
+    throw new BackupImportError(`CSV header must be: ${CSV_COLUMNS.join(",")}`);
+  }
+  const out: Record<string, unknown> = {};
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(",").map((c) => c.trim());
+    if (cells.length < CSV_COLUMNS.length) {
+      throw new BackupImportError(`CSV row ${i + 2} has ${cells.length} columns, expected ${CSV_COLUMNS.length}`);
+    }
+    const [date, consumed, goal, bottle, ...windows] = cells;
+    const windowConsumedML = windows.slice(0, 5).map(Number);
+    out[date] = {
+      consumedML: Number(consumed),
+      goalML: Number(goal),
+      bottleML: Number(bottle),
+      carryML: 0,
+      extraML: 0,
+      at: importedAt,
+      windowConsumedML,
+      // CSV only has volumes; treat any drinking in a window as one hit.
+      windowHitCounts: windowConsumedML.map((ml) => (ml > 0 ? 1 : 0)),
+    };
+  });
+  return out;
+}
+
+function makePreview(
+  source: ImportPreview["source"],
+  fileName: string,
+  dailyLog: AppState["dailyLog"],
+  state: AppState | null,
+  issues: string[],
+  current: AppState
+): ImportPreview {
+  const keys = Object.keys(dailyLog).sort();
+  return {
+    source,
+    fileName,
+    dailyLog,
+    dayCount: keys.length,
+    firstDay: keys[0] ?? null,
+    lastDay: keys[keys.length - 1] ?? null,
+    overlapping: keys.filter((k) => k in (current.dailyLog || {})).length,
+    issues,
+    state,
+  };
+}
+
+// Validates an exported file (JSON backup or daily-log CSV) through the same schema
+// migration and repair path used on app load.
+export function parseImportFile(text: string, fileName: string, current: AppState): ImportPreview {
+  const trimmed = text.trim();
+  if (!trimmed) throw new BackupImportError("The file is empty.");
+
+  if (!trimmed.startsWith("{")) {
+    const result = migrateState({ schemaVersion: SCHEMA_VERSION, dailyLog: parseCsvDailyLog(trimmed, Date.now()) });
+    if (!result) throw new BackupImportError("Couldn’t read the CSV file.");
+    return makePreview("csv", fileName, result.state.dailyLog, null, result.issues, current);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    throw new BackupImportError("The file isn’t valid JSON.");
+  }
+  const obj = typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : null;
+  if (!obj || obj.format !== BACKUP_FORMAT) throw new BackupImportError("This isn’t a 1Bottle backup file.");
+  if (typeof obj.version !== "number" || obj.version > BACKUP_VERSION) {
+    throw new BackupImportError("This backup was made by a newer version of the app.");
+  }
+  const result = migrateState(obj.state);
+  if (!result) throw new BackupImportError("The backup has no app data in it.");
+  return makePreview("json", fileName, result.state.dailyLog, result.state, result.issues, current);
+}
+
+function entryTime(e: DailyLogEntry) {
+  return e.lastEventAt ?? e.at;
+}
+
+// Union of both logs; where a day exists in both, the more recently updated entry wins.
+export function mergeDailyLogs(existing: AppState["dailyLog"], incoming: AppState["dailyLog"]) {
+  const out: AppState["dailyLog"] = { ...existing };
+  for (const [k, entry] of Object.entries(incoming)) {
+    const mine = out[k];
+    if (!mine || entryTime(entry) > entryTime(mine)) out[k] = entry;
+  }
+  return out;
+}
+
+// The day in progress is never taken from a daily log: the live bottle, undo and redo
+// all point at its journal, which only a same-day full restore brings along.
+function withoutLiveDay<T>(days: Record<string, T>, liveDayKey: string) {
+  const { [liveDayKey]: live, ...rest } = days;
+  void live;
+  return rest;
+}
+
+export function applyImport(current: AppState, preview: ImportPreview, mode: ImportMode): AppState {
+  if (mode === "merge") {
+    const incomingLog = withoutLiveDay(preview.dailyLog, current.dayKey);
+    const dailyLog = mergeDailyLogs(current.dailyLog || {}, incomingLog);
+    // A day taken from the file brings its journal along (CSV has none), so the
+    // journal never disagrees with the totals it sits next to.
+    const journal = { ...current.journal };
+    for (const [k, entry] of Object.entries(incomingLog)) {
+      if (dailyLog[k] !== entry) continue;
+      const incoming = preview.state?.journal[k];
+      if (incoming) journal[k] = incoming;
+      else delete journal[k];
+    }
+    return { ...current, dailyLog, journal };
+  }
+  const liveLog = current.dailyLog?.[current.dayKey] ? { [current.dayKey]: current.dailyLog[current.dayKey] } : {};
+  if (!preview.state) {
+    return {
+      ...current,
+      dailyLog: { ...withoutLiveDay(preview.dailyLog, current.dayKey), ...liveLog },
+      journal: pickJournalDays(current.journal, [current.dayKey]),
+    };
+  }
+
+  // Full restore: take the backup's settings and log, but keep navigation, nudge
+  // bookkeeping and, unless the backup is from the same day, today's live bottle.
+  const imported = preview.state;
+  const sameDay = imported.dayKey === current.dayKey;
+  return {
+    ...imported,
+    hasOnboarded: current.hasOnboarded,
+    step: current.step,
+    splashSeen: current.splashSeen,
+    onboardingScanPercent: current.onboardingScanPercent,
+    onboardingScanFraction: current.onboardingScanFraction,
+    notifications: current.notifications,
+    celebrate: null,
+    ...(sameDay
+      ? {}
+      : {
+          dayKey: current.dayKey,
+          completedBottles: current.completedBottles,
+          remaining: current.remaining,
+          carryML: current.carryML,
+          extraML: current.extraML,
+          history: current.history,
+          redo: current.redo,
+          dailyLog: { ...withoutLiveDay(imported.dailyLog, current.dayKey), ...liveLog },
+          journal: { ...withoutLiveDay(imported.journal, current.dayKey), ...pickJournalDays(current.journal, [current.dayKey]) },
+        }),
+  };
+}
+
+// Shares the file where the platform supports it (iOS share sheet), otherwise downloads it.
+export async function saveTextFile(fileName: string, text: string, mime: string) {
+  const file = new File([text], fileName, { type: mime });
+  const nav = navigator as Navigator & { canShare?: (data: ShareData) => boolean };
+  if (typeof nav.share === "function" && nav.canShare?.({ files: [file] })) {
+    try {
+      await nav.share({ files: [file], title: fileName });
+      return;
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+    }
+  }
+  const url = URL.createObjectURL(file);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
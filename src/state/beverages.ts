@@ -0,0 +1,94 @@
+import { type DrinkEvent, effectiveDrinkEvents } from "./journal";
+
+// Drinks other than water count towards the goal scaled by a hydration factor: a mug of
+// coffee hydrates a bit less than the same mug of water. Drink events record both the
+// volume poured (`volumeML`) and what it counted for (`ml`); totals and the rhythm
+// windows only ever see `ml`.
+
+export type BeverageId = "water" | "tea" | "coffee" | "milk" | "juice" | "sports" | "soda" | "alcohol";
+
+export type Beverage = {
+  id: BeverageId;
+  label: string;
+  emoji: string;
+  // Default share of the volume that counts towards the goal.
+  factor: number;
+  caffeineMgPer100ml: number;
+  sugarGPer100ml: number;
+};
+
+export type BeverageFactors = Record<BeverageId, number>;
+
+export const BEVERAGES: Beverage[] = [
+  { id: "water", label: "Water", emoji: "💧", factor: 1, caffeineMgPer100ml: 0, sugarGPer100ml: 0 },
+  { id: "tea", label: "Tea", emoji: "🍵", factor: 0.9, caffeineMgPer100ml: 20, sugarGPer100ml: 0 },
+  { id: "coffee", label: "Coffee", emoji: "☕", factor: 0.8, caffeineMgPer100ml: 40, sugarGPer100ml: 0 },
+  { id: "milk", label: "Milk", emoji: "🥛", factor: 1, caffeineMgPer100ml: 0, sugarGPer100ml: 5 },
+  { id: "juice", label: "Juice", emoji: "🧃", factor: 0.9, caffeineMgPer100ml: 0, sugarGPer100ml: 9 },
+  { id: "sports", label: "Sports drink", emoji: "🏃", factor: 1, caffeineMgPer100ml: 0, sugarGPer100ml: 6 },
+  { id: "soda", label: "Soda", emoji: "🥤", factor: 0.85, caffeineMgPer100ml: 10, sugarGPer100ml: 10 },
+  { id: "alcohol", label: "Alcohol", emoji: "🍺", factor: 0, caffeineMgPer100ml: 0, sugarGPer100ml: 3 },
+];
+
+export const MAX_BEVERAGE_FACTOR = 1.5;
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function makeDefaultBeverageFactors(): BeverageFactors {
+  return Object.fromEntries(BEVERAGES.map((b) => [b.id, b.factor])) as BeverageFactors;
+}
+
+export function beverageById(id: string | undefined): Beverage {
+  return BEVERAGES.find((b) => b.id === id) ?? BEVERAGES[0];
+}
+
+export function isBeverageId(v: unknown): v is BeverageId {
+  return BEVERAGES.some((b) => b.id === v);
+}
+
+// What `volumeML` of `beverage` counts for towards the goal.
+export function hydrationML(volumeML: number, beverage: BeverageId, factors: BeverageFactors) {
+  return Math.round(volumeML * clamp(factors[beverage] ?? 1, 0, MAX_BEVERAGE_FACTOR));
+}
+
+export type BeverageTotals = { beverage: Beverage; volumeML: number; countedML: number };
+
+// Per-beverage totals for one day's events, largest first. Bottle drinks are water, and
+// negative corrections only ever come from the bottle.
+export function beverageBreakdown(events: DrinkEvent[]) {
+  const totals = new Map<BeverageId, BeverageTotals>();
+  let caffeineMg = 0;
+  let sugarG = 0;
+  for (const e of effectiveDrinkEvents(events)) {
+    if (e.ml === 0 && !e.volumeML) continue;
+    const beverage = beverageById(e.beverage);
+    const volumeML = e.volumeML ?? e.ml;
+    const t = totals.get(beverage.id) ?? { beverage, volumeML: 0, countedML: 0 };
+    t.volumeML += volumeML;
+    t.countedML += e.ml;
+    totals.set(beverage.id, t);
+    caffeineMg += (Math.max(0, volumeML) * beverage.caffeineMgPer100ml) / 100;
+    sugarG += (Math.max(0, volumeML) * beverage.sugarGPer100ml) / 100;
+  }
+  const rows = [...totals.values()].filter((t) => t.volumeML > 0).sort((a, b) => b.volumeML - a.volumeML);
+  return { rows, caffeineMg: Math.round(caffeineMg), sugarG: Math.round(sugarG) };
+}
+
+export function repairBeverageFactors(raw: unknown, issues: string[]): BeverageFactors {
+  const d = makeDefaultBeverageFactors();
+  if (raw === undefined) return d;
+  const o = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : null;
+  if (!o) {
+    issues.push("beverageFactors");
+    return d;
+  }
+  for (const b of BEVERAGES) {
+    const v = o[b.id];
+    if (v === undefined) continue;
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= MAX_BEVERAGE_FACTOR) d[b.id] = v;
+    else issues.push("beverageFactors");
+  }
+  return d;
+}
@@ -0,0 +1,73 @@
+export function dayKey(d: Date = new Date()) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${dd}`;
+}
+
+// Minutes after midnight, either one value for every day or one per weekday (Sunday
+// first, like Date.getDay()).
+export type ClockTimes = number | readonly number[];
+
+export function clockTimeOn(d: Date, times: ClockTimes) {
+  return typeof times === "number" ? times : times[d.getDay()];
+}
+
+export function wakeBoundaryMins(wakeMins: number) {
+  const m = Math.round(wakeMins);
+  return ((m % 1440) + 1440) % 1440;
+}
+
+function startOfDay(d: Date) {
+  const out = new Date(d);
+  out.setHours(0, 0, 0, 0);
+  return out;
+}
+
+// Calendar date whose wake time most recently passed at `d`.
+function wakeDate(d: Date, wakeMins: ClockTimes) {
+  const date = startOfDay(d);
+  const nowMins = d.getHours() * 60 + d.getMinutes();
+  if (nowMins < wakeBoundaryMins(clockTimeOn(date, wakeMins))) date.setDate(date.getDate() - 1);
+  return date;
+}
+
+export function dayKeyByWake(d: Date = new Date(), wakeMins: ClockTimes) {
+  return dayKey(wakeDate(d, wakeMins));
+}
+
+export function prevDayKeyByWake(d: Date = new Date(), wakeMins: ClockTimes) {
+  const date = wakeDate(d, wakeMins);
+  date.setDate(date.getDate() - 1);
+  return dayKey(date);
+}
+
+export function msUntilNextWake(d: Date = new Date(), wakeMins: ClockTimes) {
+  const next = startOfDay(d);
+  next.setMinutes(wakeBoundaryMins(clockTimeOn(next, wakeMins)), 0, 0);
+  if (d.getTime() >= next.getTime()) {
+    next.setHours(0, 0, 0, 0);
+    next.setDate(next.getDate() + 1);
+    next.setMinutes(wakeBoundaryMins(clockTimeOn(next, wakeMins)), 0, 0);
+  }
+  return Math.max(0, next.getTime() - d.getTime());
+}
+
+export function isDayKey(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
+
+export function dateFromDayKey(key: string) {
+  const [y, m, d] = key.split("-").map((n) => Number(n));
+  return new Date(y, (m || 1) - 1, d || 1, 0, 0, 0, 0);
+}
+
+// Wall-clock `mins` within the wake-to-wake day `key`; times before the wake boundary
+// belong to the early hours of the next calendar date.
+export function dateForDayKeyMins(key: string, mins: number, wakeMins: ClockTimes) {
+  const m = wakeBoundaryMins(mins);
+  const d = dateFromDayKey(key);
+  if (m < wakeBoundaryMins(clockTimeOn(d, wakeMins))) d.setDate(d.getDate() + 1);
+  d.setHours(Math.floor(m / 60), m % 60, 0, 0);
+  return d;
+}
@@ -0,0 +1,94 @@
+import { dateFromDayKey, isDayKey } from "./dayKeys";
+
+// Goals that differ from the everyday `goalML`: a standing goal per weekday (a long run
+// every Sunday) and one-off goals for specific days (a hot day next week). A one-off goal
+// wins over its weekday. Finished days keep the goal they had in `dailyLog`, so changing
+// these never rewrites history.
+
+export type GoalOverrides = {
+  // Sunday first, like Date.getDay(); null keeps the everyday goal.
+  weekdays: (number | null)[];
+  // Keyed by dayKey.
+  days: Record<string, number>;
+};
+
+type GoalFields = { goalML: number; goalOverrides?: GoalOverrides };
+
+export const MIN_GOAL_ML = 500;
+export const MAX_GOAL_ML = 6000;
+
+// Suggested when the safety limit is first switched on. Well above any goal the
+// recommendation produces, but low enough to flag a day that has got out of hand.
+export const DEFAULT_SAFETY_LIMIT_ML = 5000;
+
+export function makeDefaultGoalOverrides(): GoalOverrides {
+  return { weekdays: [null, null, null, null, null, null, null], days: {} };
+}
+
+export function goalForDayKey(s: GoalFields, key: string) {
+  const o = s.goalOverrides;
+  if (!o) return s.goalML;
+  const day = o.days[key];
+  if (typeof day === "number") return day;
+  return o.weekdays[dateFromDayKey(key).getDay()] ?? s.goalML;
+}
+
+// Why `key` has the goal it has, for labelling the chart and settings.
+export function goalSourceForDayKey(s: GoalFields, key: string): "day" | "weekday" | "everyday" {
+  const o = s.goalOverrides;
+  if (!o) return "everyday";
+  if (typeof o.days[key] === "number") return "day";
+  return o.weekdays[dateFromDayKey(key).getDay()] !== null ? "weekday" : "everyday";
+}
+
+export function setWeekdayGoal(o: GoalOverrides, weekday: number, goalML: number | null): GoalOverrides {
+  return { ...o, weekdays: o.weekdays.map((g, i) => (i === weekday ? goalML : g)) };
+}
+
+export function setDayGoal(o: GoalOverrides, key: string, goalML: number | null): GoalOverrides {
+  const days = { ...o.days };
+  if (goalML === null) delete days[key];
+  else days[key] = goalML;
+  return { ...o, days };
+}
+
+// One-off goals before `todayKey` are already snapshotted into dailyLog.
+export function pruneGoalOverrides(o: GoalOverrides, todayKey: string): GoalOverrides {
+  const keys = Object.keys(o.days);
+  if (keys.every((k) => k >= todayKey)) return o;
+  const days: Record<string, number> = {};
+  for (const k of keys) if (k >= todayKey) days[k] = o.days[k];
+  return { ...o, days };
+}
+
+function isGoal(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= 20000;
+}
+
+export function repairGoalOverrides(raw: unknown, issues: string[]): GoalOverrides {
+  const d = makeDefaultGoalOverrides();
+  if (raw === undefined) return d;
+  const o = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : null;
+  if (!o) {
+    issues.push("goalOverrides");
+    return d;
+  }
+  let dropped = false;
+  const weekdays =
+    Array.isArray(o.weekdays) && o.weekdays.length === 7
+      ? o.weekdays.map((g) => {
+          if (g === null) return null;
+          if (isGoal(g)) return Math.round(g);
+          dropped = true;
+          return null;
+        })
+      : null;
+  const days: Record<string, number> = {};
+  const rawDays = typeof o.days === "object" && o.days !== null && !Array.isArray(o.days) ? (o.days as Record<string, unknown>) : null;
+  for (const [k, g] of Object.entries(rawDays ?? {})) {
+    if (isDayKey(k) && isGoal(g)) days[k] = Math.round(g);
+    else dropped = true;
+  }
+  if (!weekdays || !rawDays || dropped) issues.push("goalOverrides");
+  return { weekdays: weekdays ?? d.weekdays, days };
+}
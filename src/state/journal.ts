@@ -0,0 +1,265 @@
+import { type AppState, type DailyLogEntry, type RhythmWindowIndex, emptyWindows } from "./appState";
+import { dateForDayKeyMins, dateFromDayKey, isDayKey } from "./dayKeys";
+import { type BeverageId, isBeverageId } from "./beverages";
+import { goalForDayKey } from "./goalSchedule";
+import { wakeTimes, windowForDayKey } from "./weekSchedule";
+
+// Append-only record of every change to a day's consumption. `dailyLog` totals and the
+// rhythm windows are derived from it, so any day can be audited or recomputed.
+
+// Smallest delta that counts as a drink for the rhythm windows.
+export const MEANINGFUL_SIP_ML = 120;
+
+export type DrinkSource = "track" | "scan" | "extra" | "refill";
+
+export type DrinkEvent = {
+  id: string;
+  at: number;
+  source: DrinkSource;
+  ml: number;
+  bottleId: string;
+  // Set on compensating events written by undo; both events then drop out of the totals.
+  undoes?: string;
+  // Added or removed after the fact from the day editor.
+  backfilled?: boolean;
+  // Quick Add drinks: what was drunk, and how much was poured before the hydration
+  // factor turned it into `ml`. Missing means water, with `ml` as the volume.
+  beverage?: BeverageId;
+  volumeML?: number;
+};
+
+export type DrinkJournal = Record<string, DrinkEvent[]>;
+
+const SOURCES: readonly DrinkSource[] = ["track", "scan", "extra", "refill"];
+
+export const SOURCE_LABELS: Record<DrinkSource, string> = {
+  track: "Bottle",
+  scan: "Scan",
+  extra: "Extra",
+  refill: "Refill",
+};
+
+export function isDrinkSource(v: unknown): v is DrinkSource {
+  return SOURCES.includes(v as DrinkSource);
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function newDrinkEventId(atMs: number) {
+  return `${atMs.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Saved-bottle id; states from before the bottle library fall back to shape and size.
+export function currentBottleId(s: { activeBottleId?: string; shape?: string; bottleML: number }) {
+  return s.activeBottleId || `${s.shape ?? "standard"}-${Math.round(s.bottleML)}`;
+}
+
+export function appendDrinkEvent(journal: DrinkJournal, key: string, event: DrinkEvent): DrinkJournal {
+  return { ...journal, [key]: [...(journal[key] || []), event] };
+}
+
+export function findDrinkEvent(journal: DrinkJournal, id: string) {
+  for (const [key, events] of Object.entries(journal)) {
+    const event = events.find((e) => e.id === id);
+    if (event) return { key, event };
+  }
+  return null;
+}
+
+// Events still in effect: undo markers and the events they cancel are dropped.
+export function effectiveDrinkEvents(events: DrinkEvent[]) {
+  const undone = new Set(events.map((e) => e.undoes).filter((id): id is string => typeof id === "string"));
+  return events.filter((e) => !e.undoes && !undone.has(e.id));
+}
+
+export function hydrationWindowBounds(key: string, wakeMins: number, sleepMins: number) {
+  const base = dateFromDayKey(key);
+  const start = new Date(base);
+  start.setHours(Math.floor(wakeMins / 60), wakeMins % 60, 0, 0);
+  const end = new Date(base);
+  end.setHours(Math.floor((sleepMins % 1440) / 60), sleepMins % 60, 0, 0);
+  if (sleepMins < wakeMins) {
+    end.setDate(end.getDate() + 1);
+  }
+  return { start, end };
+}
+
+export function rhythmWindowIndexAt(atMs: number, key: string, wakeMins: number, sleepMins: number): RhythmWindowIndex {
+  const { start, end } = hydrationWindowBounds(key, wakeMins, sleepMins);
+  const total = end.getTime() - start.getTime();
+  if (total <= 0) return 0;
+  if (atMs >= end.getTime()) return 4;
+  const elapsed = clamp(atMs - start.getTime(), 0, total - 1);
+  const segment = total / 5;
+  return Math.min(4, Math.max(0, Math.floor(elapsed / segment))) as RhythmWindowIndex;
+}
+
+export function deriveDayTotals(events: DrinkEvent[], key: string, wakeMins: number, sleepMins: number) {
+  const windowHitCounts = emptyWindows();
+  const windowConsumedML = emptyWindows();
+  const bottleConsumedML: Record<string, number> = {};
+  let consumedML = 0;
+  for (const e of effectiveDrinkEvents(events)) {
+    consumedML += e.ml;
+    if (e.source !== "extra" && e.ml !== 0) bottleConsumedML[e.bottleId] = (bottleConsumedML[e.bottleId] ?? 0) + e.ml;
+    if (e.ml >= MEANINGFUL_SIP_ML) {
+      const idx = rhythmWindowIndexAt(e.at, key, wakeMins, sleepMins);
+      windowHitCounts[idx] += 1;
+      windowConsumedML[idx] += e.ml;
+    }
+  }
+  const lastEventAt = events.length > 0 ? Math.max(...events.map((e) => e.at)) : undefined;
+  for (const id of Object.keys(bottleConsumedML)) bottleConsumedML[id] = Math.max(0, Math.round(bottleConsumedML[id]));
+  return { consumedML: Math.max(0, Math.round(consumedML)), windowHitCounts, windowConsumedML, bottleConsumedML, lastEventAt };
+}
+
+// Overwrites the derived fields of `base` from the journal. Days logged before the
+// journal existed have no events and keep their stored aggregates.
+export function deriveDailyLogEntry(
+  base: DailyLogEntry,
+  events: DrinkEvent[] | undefined,
+  key: string,
+  wakeMins: number,
+  sleepMins: number
+): DailyLogEntry {
+  if (!events || events.length === 0) return base;
+  const totals = deriveDayTotals(events, key, wakeMins, sleepMins);
+  return {
+    ...base,
+    consumedML: totals.consumedML,
+    windowHitCounts: totals.windowHitCounts,
+    windowConsumedML: totals.windowConsumedML,
+    bottleConsumedML: totals.bottleConsumedML,
+    ...(typeof totals.lastEventAt === "number" ? { lastEventAt: totals.lastEventAt } : {}),
+  };
+}
+
+export function pickJournalDays(journal: DrinkJournal, keys: Iterable<string>): DrinkJournal {
+  const out: DrinkJournal = {};
+  for (const k of keys) {
+    if (journal[k]) out[k] = journal[k];
+  }
+  return out;
+}
+
+// Stand-in events for a day logged before the journal existed, rebuilt from its stored
+// aggregates: each window hit becomes one drink mid-window, and the rest of the total
+// (small sips the windows never counted) is spread as sub-threshold drinks after wake.
+// Ids are stable so the editor can list and remove them before they are written.
+export function seedJournalFromDailyLog(entry: DailyLogEntry, key: string, wakeMins: number, sleepMins: number): DrinkEvent[] {
+  const { start, end } = hydrationWindowBounds(key, wakeMins, sleepMins);
+  const segment = Math.max(0, end.getTime() - start.getTime()) / 5;
+  const bottleId = `seed-${Math.round(entry.bottleML)}`;
+  const events: DrinkEvent[] = [];
+  let counted = 0;
+  entry.windowHitCounts.forEach((hits, i) => {
+    const ml = entry.windowConsumedML[i] || 0;
+    if (hits <= 0 || ml <= 0) return;
+    for (let h = 0; h < hits; h++) {
+      const at = start.getTime() + segment * i + (segment * (h + 1)) / (hits + 1);
+      events.push({ id: `seed-${key}-${i}-${h}`, at: Math.round(at), source: "track", ml: Math.round(ml / hits), bottleId });
+    }
+    counted += ml;
+  });
+  let rest = Math.round(entry.consumedML - counted);
+  for (let n = 0; rest > 0; n++) {
+    const ml = Math.min(rest, MEANINGFUL_SIP_ML - 1);
+    events.push({ id: `seed-${key}-rest-${n}`, at: start.getTime() + n * 60 * 1000, source: "track", ml, bottleId });
+    rest -= ml;
+  }
+  return events.sort((a, b) => a.at - b.at);
+}
+
+// What the day editor shows and edits for `key`: its journal, or the seeded stand-ins.
+export function journalDayOrSeed(s: AppState, key: string): DrinkEvent[] {
+  const events = (s.journal || {})[key];
+  if (events && events.length > 0) return events;
+  const entry = (s.dailyLog || {})[key];
+  if (!entry) return [];
+  const { wakeMins, sleepMins } = windowForDayKey(s, key);
+  return seedJournalFromDailyLog(entry, key, wakeMins, sleepMins);
+}
+
+export type DayEdit = { kind: "add"; mins: number; ml: number } | { kind: "remove"; id: string };
+
+// Edits a finished day by appending backfilled events, then re-derives its dailyLog entry.
+// The live day is left alone; it is edited through the bottle.
+export function applyDayEdit(s: AppState, key: string, edit: DayEdit, now: number = Date.now()): AppState {
+  if (!isDayKey(key) || key >= s.dayKey) return s;
+  const events = journalDayOrSeed(s, key);
+  let event: DrinkEvent;
+  if (edit.kind === "add") {
+    const ml = Math.round(edit.ml);
+    if (!Number.isFinite(ml) || ml <= 0) return s;
+    const at = dateForDayKeyMins(key, edit.mins, wakeTimes(s)).getTime();
+    event = { id: newDrinkEventId(at), at, source: "extra", ml, bottleId: currentBottleId(s), backfilled: true };
+  } else {
+    const target = effectiveDrinkEvents(events).find((e) => e.id === edit.id);
+    if (!target) return s;
+    event = {
+      id: newDrinkEventId(now),
+      at: now,
+      source: target.source,
+      ml: -target.ml,
+      bottleId: target.bottleId,
+      undoes: target.id,
+      backfilled: true,
+    };
+  }
+  const journal = appendDrinkEvent({ ...(s.journal || {}), [key]: events }, key, event);
+  const existing = (s.dailyLog || {})[key];
+  const base: DailyLogEntry = existing ?? {
+    consumedML: 0,
+    goalML: goalForDayKey(s, key),
+    bottleML: s.bottleML,
+    carryML: 0,
+    extraML: 0,
+    at: now,
+    windowHitCounts: emptyWindows(),
+    windowConsumedML: emptyWindows(),
+  };
+  const { wakeMins, sleepMins } = windowForDayKey(s, key);
+  const entry = deriveDailyLogEntry(base, journal[key], key, wakeMins, sleepMins);
+  return { ...s, journal, dailyLog: { ...(s.dailyLog || {}), [key]: entry } };
+}
+
+function repairDrinkEvent(v: unknown): DrinkEvent | null {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) return null;
+  const e = v as Record<string, unknown>;
+  if (typeof e.id !== "string" || !e.id) return null;
+  if (typeof e.at !== "number" || !Number.isFinite(e.at)) return null;
+  if (typeof e.ml !== "number" || !Number.isFinite(e.ml)) return null;
+  if (!isDrinkSource(e.source)) return null;
+  return {
+    id: e.id,
+    at: e.at,
+    source: e.source,
+    ml: e.ml,
+    bottleId: typeof e.bottleId === "string" ? e.bottleId : "",
+    ...(typeof e.undoes === "string" ? { undoes: e.undoes } : {}),
+    ...(e.backfilled === true ? { backfilled: true } : {}),
+    ...(isBeverageId(e.beverage) ? { beverage: e.beverage } : {}),
+    ...(typeof e.volumeML === "number" && Number.isFinite(e.volumeML) ? { volumeML: e.volumeML } : {}),
+  };
+}
+
+export function repairJournal(v: unknown, issues: string[]): DrinkJournal {
+  if (v === undefined) return {};
+  if (typeof v !== "object" || v === null || Array.isArray(v)) {
+    issues.push("journal");
+    return {};
+  }
+  const out: DrinkJournal = {};
+  for (const [key, events] of Object.entries(v as Record<string, unknown>)) {
+    if (!isDayKey(key) || !Array.isArray(events)) {
+      issues.push(`journal.${key}`);
+      continue;
+    }
+    const repaired = events.map(repairDrinkEvent).filter((e): e is DrinkEvent => e !== null);
+    if (repaired.length !== events.length) issues.push(`journal.${key}`);
+    if (repaired.length > 0) out[key] = repaired.sort((a, b) => a.at - b.at);
+  }
+  return out;
+}
@@ -0,0 +1,454 @@
+import {
+  type AppState,
+  type DailyLogEntry,
+  type HistoryEntry,
+  type Meridiem,
+  SCHEMA_VERSION,
+  STORAGE_KEY,
+  emptyWindows,
+  makeDefaultState,
+  totalConsumedFromState,
+} from "./appState";
+import { clearLegacyLedgerKeys, readLegacyLedger, repairLedger } from "../notifications/ledger";
+import { dateFromDayKey, dayKeyByWake, isDayKey, wakeBoundaryMins } from "./dayKeys";
+import { type DrinkEvent, currentBottleId, newDrinkEventId, repairJournal } from "./journal";
+import { repairBeverageFactors } from "./beverages";
+import { repairGoalOverrides } from "./goalSchedule";
+import { repairPacing } from "./pacing";
+import { repairQuickAddPresets } from "./quickAdd";
+import { repairRedoStack } from "./undo";
+import { repairUnitPrefs } from "./units";
+import { repairWeekSchedule } from "./weekSchedule";
+import { repairBottles } from "../bottles/bottleLibrary";
+import { BOTTLE_SHAPES, shapeOptions } from "../bottles/bottleShapes";
+import { repairCustomShapes } from "../bottles/customShapes";
+import { repairLearnedLabels } from "../bottles/bottleCatalogue";
+
+// Blobs written by the backup App (days keyed by the sleep boundary).
+const LEGACY_STORAGE_KEY = "wbt_react_v2";
+// Unreadable blobs are parked here instead of being overwritten by defaults.
+const CORRUPT_BACKUP_KEY = `${STORAGE_KEY}_corrupt`;
+
+type RawState = Record<string, unknown>;
+type Migration = { from: number; migrate: (raw: RawState) => RawState };
+
+function isObject(v: unknown): v is RawState {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+// Shipped steps are frozen and still see the defaults they were written against, including
+// the global `shape` that schema 6 moved onto each saved bottle.
+function makeV5DefaultState() {
+  return { ...makeDefaultState(), shape: "standard" as "tall" | "standard" | "wide" | "tumbler" };
+}
+
+function clockParts(mins: number): { hour: number; minute: number; meridiem: Meridiem } {
+  const local = wakeBoundaryMins(mins);
+  const h24 = Math.floor(local / 60);
+  return { hour: h24 % 12 === 0 ? 12 : h24 % 12, minute: local % 60, meridiem: h24 >= 12 ? "PM" : "AM" };
+}
+
+// A sleep-keyed day runs from one sleep boundary to the next, so the waking hours it
+// covers belong to the first wake after its start.
+function sleepKeyToWakeKey(key: string, wakeMins: number, sleepMins: number) {
+  const sleepBoundary = wakeBoundaryMins(sleepMins);
+  const start = dateFromDayKey(key);
+  start.setMinutes(sleepBoundary);
+  const untilWake = (wakeBoundaryMins(wakeMins) - sleepBoundary + 1440) % 1440;
+  return dayKeyByWake(new Date(start.getTime() + (untilWake + 1) * 60 * 1000), wakeMins);
+}
+
+// Ordered registry: each entry upgrades a blob from `from` to `from + 1`.
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    migrate: (raw) => {
+      const wakeMins = isFiniteNumber(raw.wakeMins) ? raw.wakeMins : 480;
+      const sleepMins = isFiniteNumber(raw.sleepMins) ? raw.sleepMins : 1320;
+      const dailyLog: RawState = {};
+      if (isObject(raw.dailyLog)) {
+        for (const [key, entry] of Object.entries(raw.dailyLog)) {
+          if (!isDayKey(key)) continue;
+          dailyLog[sleepKeyToWakeKey(key, wakeMins, sleepMins)] = entry;
+        }
+      }
+      const wake = clockParts(wakeMins);
+      const sleep = clockParts(sleepMins);
+      return {
+        ...raw,
+        dayKey: isDayKey(raw.dayKey) ? sleepKeyToWakeKey(raw.dayKey, wakeMins, sleepMins) : raw.dayKey,
+        dailyLog,
+        wakeHour: wake.hour,
+        wakeMinute: wake.minute,
+        wakeMeridiem: wake.meridiem,
+        sleepHour: sleep.hour,
+        sleepMinute: sleep.minute,
+        sleepMeridiem: sleep.meridiem,
+      };
+    },
+  },
+  {
+    from: 1,
+    migrate: (raw) => {
+      if (!isObject(raw.dailyLog)) return raw;
+      const dailyLog: RawState = {};
+      for (const [key, entry] of Object.entries(raw.dailyLog)) {
+        if (!isObject(entry)) {
+          dailyLog[key] = entry;
+          continue;
+        }
+        const { windowHits, windowTotalsMl, ...rest } = entry;
+        void windowTotalsMl;
+        const hasCounts = Array.isArray(rest.windowHitCounts) && rest.windowHitCounts.length === 5;
+        dailyLog[key] =
+          !hasCounts && Array.isArray(windowHits) && windowHits.length === 5
+            ? { ...rest, windowHitCounts: windowHits.map((hit) => (hit ? 1 : 0)) }
+            : rest;
+      }
+      return { ...raw, dailyLog };
+    },
+  },
+  {
+    from: 2,
+    migrate: (raw) => (isObject(raw.notifications) ? raw : { ...raw, notifications: readLegacyLedger() }),
+  },
+  {
+    from: 3,
+    migrate: (raw) => (isObject(raw.journal) ? raw : backfillJournal(raw)),
+  },
+  {
+    // The single bottle becomes the first saved one. Its id matches the shape-and-size id
+    // the journal already used, so existing events stay attributed to it.
+    from: 4,
+    migrate: (raw) => {
+      if (Array.isArray(raw.bottles)) return raw;
+      const d = makeV5DefaultState();
+      const bottleML = isFiniteNumber(raw.bottleML) && raw.bottleML > 0 ? raw.bottleML : d.bottleML;
+      const id = currentBottleId({ shape: typeof raw.shape === "string" ? raw.shape : d.shape, bottleML });
+      const remaining = isFiniteNumber(raw.remaining) ? Math.max(0, Math.min(1, raw.remaining)) : 1;
+      return { ...raw, bottles: [{ ...d.bottles[0], id, capacityML: bottleML, remaining }], activeBottleId: id };
+    },
+  },
+  {
+    // One global `shape` used to draw every bottle; each saved bottle now carries it. A
+    // blob without one drew the schema-5 default.
+    from: 5,
+    migrate: (raw) => {
+      const { shape: rawShape, ...rest } = raw;
+      const shape = typeof rawShape === "string" ? rawShape : makeV5DefaultState().shape;
+      if (!Array.isArray(raw.bottles) || !BOTTLE_SHAPES.some((sh) => sh.id === shape)) return rest;
+      return { ...rest, bottles: raw.bottles.map((b) => (isObject(b) ? { ...b, shapeId: shape } : b)) };
+    },
+  },
+];
+
+// Rebuilds the day in progress from the undo history so its drinks survive the switch to
+// the journal. Earlier days only ever stored aggregates and keep them.
+function backfillJournal(raw: RawState): RawState {
+  if (!isDayKey(raw.dayKey) || !Array.isArray(raw.history)) return { ...raw, journal: {} };
+  const d = makeV5DefaultState();
+  const num = (v: unknown, fallback: number) => (isFiniteNumber(v) && v >= 0 ? v : fallback);
+  const live = {
+    goalML: num(raw.goalML, d.goalML),
+    bottleML: num(raw.bottleML, d.bottleML),
+    completedBottles: num(raw.completedBottles, d.completedBottles),
+    remaining: Math.min(1, num(raw.remaining, d.remaining)),
+    carryML: num(raw.carryML, d.carryML),
+    extraML: num(raw.extraML, d.extraML),
+  };
+  const before = (h: HistoryEntry) =>
+    totalConsumedFromState({ ...live, completedBottles: h.prevCompleted, remaining: h.prevRemaining, carryML: h.prevCarry, extraML: h.prevExtra });
+  const bottleId = currentBottleId({ shape: typeof raw.shape === "string" ? raw.shape : d.shape, bottleML: live.bottleML });
+  const history = raw.history.map(repairHistoryEntry).filter((h): h is HistoryEntry => h !== null);
+  const events: DrinkEvent[] = [];
+
+  // Whatever was drunk before the oldest surviving undo step becomes one opening event.
+  const opening = history.length > 0 ? before(history[0]) : totalConsumedFromState(live);
+  if (opening > 0) {
+    const day = isObject(raw.dailyLog) ? raw.dailyLog[raw.dayKey] : null;
+    const dayAt = isObject(day) && isFiniteNumber(day.at) && day.at > 0 ? day.at : Date.now();
+    const at = Math.min(dayAt, history[0]?.t ?? dayAt);
+    events.push({ id: newDrinkEventId(at), at, source: "track", ml: opening, bottleId });
+  }
+
+  const withIds = history.map((h, i) => {
+    const after = i + 1 < history.length ? before(history[i + 1]) : totalConsumedFromState(live);
+    const ml = after - before(h);
+    if (ml === 0) return h;
+    const id = newDrinkEventId(h.t);
+    events.push({ id, at: h.t, source: h.action === "extra" ? "extra" : "track", ml, bottleId });
+    return { ...h, eventId: id };
+  });
+
+  return { ...raw, history: withIds, journal: events.length > 0 ? { [raw.dayKey]: events } : {} };
+}
+
+function detectVersion(raw: RawState) {
+  if (isFiniteNumber(raw.schemaVersion)) return Math.max(0, Math.floor(raw.schemaVersion));
+  // Every build since the wake-boundary rewrite persists the onboarding clock fields.
+  return "wakeHour" in raw ? 1 : 0;
+}
+
+function readWindows(v: unknown) {
+  if (Array.isArray(v) && v.length === 5 && v.every((n) => isFiniteNumber(n) && n >= 0)) return [...v] as number[];
+  return null;
+}
+
+function repairDailyLogEntry(v: unknown, issues: string[], key: string): DailyLogEntry | null {
+  if (!isObject(v) || !isFiniteNumber(v.consumedML) || v.consumedML < 0) {
+    issues.push(`dailyLog.${key}`);
+    return null;
+  }
+  const num = (n: unknown) => (isFiniteNumber(n) && n >= 0 ? n : 0);
+  const windowHitCounts = readWindows(v.windowHitCounts);
+  const windowConsumedML = readWindows(v.windowConsumedML);
+  if ((v.windowHitCounts !== undefined && !windowHitCounts) || (v.windowConsumedML !== undefined && !windowConsumedML)) {
+    issues.push(`dailyLog.${key}.windows`);
+  }
+  return {
+    consumedML: v.consumedML,
+    goalML: num(v.goalML),
+    bottleML: num(v.bottleML),
+    carryML: num(v.carryML),
+    extraML: num(v.extraML),
+    at: num(v.at),
+    windowHitCounts: windowHitCounts ?? emptyWindows(),
+    windowConsumedML: windowConsumedML ?? emptyWindows(),
+    ...(isFiniteNumber(v.lastEventAt) ? { lastEventAt: v.lastEventAt } : {}),
+    ...(isObject(v.bottleConsumedML) ? { bottleConsumedML: readBottleConsumed(v.bottleConsumedML) } : {}),
+  };
+}
+
+function readBottleConsumed(v: RawState) {
+  const out: Record<string, number> = {};
+  for (const [id, ml] of Object.entries(v)) {
+    if (isFiniteNumber(ml) && ml >= 0) out[id] = ml;
+  }
+  return out;
+}
+
+function repairHistoryEntry(v: unknown): HistoryEntry | null {
+  if (!isObject(v)) return null;
+  if (!isFiniteNumber(v.t) || !isFiniteNumber(v.prevRemaining) || !isFiniteNumber(v.prevCompleted)) return null;
+  return {
+    t: v.t,
+    prevRemaining: v.prevRemaining,
+    prevCompleted: v.prevCompleted,
+    prevCarry: isFiniteNumber(v.prevCarry) ? v.prevCarry : 0,
+    prevExtra: isFiniteNumber(v.prevExtra) ? v.prevExtra : 0,
+    ...(typeof v.action === "string" ? { action: v.action } : {}),
+    ...(isFiniteNumber(v.ml) ? { ml: v.ml } : {}),
+    ...(typeof v.eventId === "string" ? { eventId: v.eventId } : {}),
+    ...(typeof v.bottleId === "string" ? { bottleId: v.bottleId } : {}),
+    ...(v.beforeSwitch === true ? { beforeSwitch: true } : {}),
+  };
+}
+
+// Builds a fresh AppState from defaults, copying over only fields that pass validation.
+// Missing fields fall back quietly; present-but-invalid ones are reported in `issues`.
+function repairState(raw: RawState, issues: string[]): AppState {
+  const d = makeDefaultState();
+
+  const num = (key: keyof AppState, fallback: number, min: number, max: number) => {
+    const v = raw[key];
+    if (v === undefined) return fallback;
+    if (!isFiniteNumber(v) || v < min || v > max) {
+      issues.push(key);
+      return fallback;
+    }
+    return v;
+  };
+  const bool = (key: keyof AppState, fallback: boolean) => {
+    const v = raw[key];
+    if (v === undefined) return fallback;
+    if (typeof v !== "boolean") {
+      issues.push(key);
+      return fallback;
+    }
+    return v;
+  };
+  const oneOf = <T extends string | number>(key: keyof AppState, allowed: readonly T[], fallback: T): T => {
+    const v = raw[key];
+    if (v === undefined) return fallback;
+    if (!allowed.includes(v as T)) {
+      issues.push(key);
+      return fallback;
+    }
+    return v as T;
+  };
+  const nullableNum = (key: keyof AppState, max: number) => {
+    const v = raw[key];
+    if (v === undefined || v === null) return null;
+    if (!isFiniteNumber(v) || v < 0 || v > max) {
+      issues.push(key);
+      return null;
+    }
+    return v;
+  };
+
+  const dailyLog: AppState["dailyLog"] = {};
+  if (isObject(raw.dailyLog)) {
+    for (const [key, entry] of Object.entries(raw.dailyLog)) {
+      if (!isDayKey(key)) {
+        issues.push(`dailyLog.${key}`);
+        continue;
+      }
+      const repaired = repairDailyLogEntry(entry, issues, key);
+      if (repaired) dailyLog[key] = repaired;
+    }
+  } else if (raw.dailyLog !== undefined) {
+    issues.push("dailyLog");
+  }
+
+  let history: HistoryEntry[] = [];
+  if (Array.isArray(raw.history)) {
+    history = raw.history.map(repairHistoryEntry).filter((h): h is HistoryEntry => h !== null);
+    if (history.length !== raw.history.length) issues.push("history");
+  } else if (raw.history !== undefined) {
+    issues.push("history");
+  }
+
+  let celebrate: AppState["celebrate"] = null;
+  const c = raw.celebrate;
+  if (isObject(c) && (c.type === "bottle" || c.type === "goal") && isFiniteNumber(c.pct) && isFiniteNumber(c.consumedML)) {
+    celebrate = { type: c.type, pct: c.pct, consumedML: c.consumedML };
+  } else if (c !== undefined && c !== null) {
+    issues.push("celebrate");
+  }
+
+  let fillEstimator = d.fillEstimator;
+  const fe = raw.fillEstimator;
+  if (isObject(fe) && (fe.kind === "http" || fe.kind === "local" || fe.kind === "mock")) {
+    fillEstimator = { kind: fe.kind, endpoint: typeof fe.endpoint === "string" ? fe.endpoint : "" };
+  } else if (fe !== undefined) {
+    issues.push("fillEstimator");
+  }
+
+  let dayKey = d.dayKey;
+  if (isDayKey(raw.dayKey)) dayKey = raw.dayKey;
+  else if (raw.dayKey !== undefined) issues.push("dayKey");
+
+  const remaining = raw.remaining;
+  let safeRemaining = d.remaining;
+  if (isFiniteNumber(remaining)) safeRemaining = Math.max(0, Math.min(1, remaining));
+  if (remaining !== undefined && safeRemaining !== remaining) issues.push("remaining");
+
+  const bottleML = num("bottleML", d.bottleML, 0, 10000);
+  const customShapes = repairCustomShapes(raw.customShapes, issues);
+  const shapeIds = shapeOptions(customShapes).map((sh) => sh.id);
+  const library = repairBottles(
+    raw.bottles,
+    raw.activeBottleId,
+    { bottleML, remaining: safeRemaining, fallbackId: d.activeBottleId },
+    issues,
+    shapeIds
+  );
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    hasOnboarded: bool("hasOnboarded", d.hasOnboarded),
+    step: oneOf("step", [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] as const, d.step),
+    splashSeen: bool("splashSeen", d.splashSeen),
+
+    weightKg: num("weightKg", d.weightKg, 0, 500),
+    activity: oneOf("activity", ["low", "moderate", "high"] as const, d.activity),
+    warm: bool("warm", d.warm),
+
+    goalML: num("goalML", d.goalML, 0, 20000),
+    goalOverrides: repairGoalOverrides(raw.goalOverrides, issues),
+    safetyLimitML: nullableNum("safetyLimitML", 20000),
+    bottleML,
+    bottles: library.bottles,
+    activeBottleId: library.activeBottleId,
+    customShapes,
+    learnedLabels: repairLearnedLabels(raw.learnedLabels, issues, shapeIds),
+    snap: oneOf("snap", ["quarters", "tenths", "free"] as const, d.snap),
+    fillEstimator,
+    pacing: repairPacing(raw.pacing, issues),
+    beverageFactors: repairBeverageFactors(raw.beverageFactors, issues),
+    quickAddPresets: repairQuickAddPresets(raw.quickAddPresets, issues),
+    units: repairUnitPrefs(raw.units, issues),
+    wakeMins: num("wakeMins", d.wakeMins, 0, 1439),
+    sleepMins: num("sleepMins", d.sleepMins, 0, 2879),
+    wakeHour: num("wakeHour", d.wakeHour, 0, 99),
+    wakeMinute: num("wakeMinute", d.wakeMinute, 0, 99),
+    wakeMeridiem: oneOf("wakeMeridiem", ["AM", "PM"] as const, d.wakeMeridiem),
+    sleepHour: num("sleepHour", d.sleepHour, 0, 99),
+    sleepMinute: num("sleepMinute", d.sleepMinute, 0, 99),
+    sleepMeridiem: oneOf("sleepMeridiem", ["AM", "PM"] as const, d.sleepMeridiem),
+    weekSchedule: repairWeekSchedule(raw.weekSchedule, issues),
+
+    dayKey,
+    completedBottles: Math.floor(num("completedBottles", d.completedBottles, 0, 1000)),
+    remaining: safeRemaining,
+
+    carryML: num("carryML", d.carryML, 0, 100000),
+    extraML: num("extraML", d.extraML, 0, 100000),
+    onboardingScanPercent: nullableNum("onboardingScanPercent", 100),
+    onboardingScanFraction: nullableNum("onboardingScanFraction", 1),
+    dailyLog,
+    journal: repairJournal(raw.journal, issues),
+
+    history,
+    redo: repairRedoStack(raw.redo, issues),
+
+    celebrate,
+
+    notifications: repairLedger(raw.notifications, issues),
+  };
+}
+
+export type MigrationResult = { state: AppState; fromVersion: number; issues: string[] };
+
+// Upgrades any persisted blob to the current schema. Returns null when the input is not
+// a state object at all. Blobs from a newer build skip the registry and are only repaired.
+export function migrateState(input: unknown): MigrationResult | null {
+  if (!isObject(input)) return null;
+  const fromVersion = detectVersion(input);
+  let raw = input;
+  for (const step of MIGRATIONS) {
+    if (step.from >= fromVersion) raw = step.migrate(raw);
+  }
+  const issues: string[] = [];
+  const state = repairState(raw, issues);
+  return { state, fromVersion, issues };
+}
+
+export function loadPersistedState(): AppState {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+  } catch {
+    return makeDefaultState();
+  }
+  if (!raw) return makeDefaultState();
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // handled below
+  }
+
+  const result = migrateState(parsed);
+  if (!result) {
+    try {
+      localStorage.setItem(CORRUPT_BACKUP_KEY, raw);
+    } catch {
+      // ignore
+    }
+    return makeDefaultState();
+  }
+
+  // The v3_* nudge keys now live in `notifications`; drop the originals once absorbed.
+  if (result.fromVersion < 3) clearLegacyLedgerKeys();
+
+  if (import.meta.env.DEV && (result.fromVersion !== SCHEMA_VERSION || result.issues.length > 0)) {
+    console.log("[DEV] state migrated", { fromVersion: result.fromVersion, toVersion: SCHEMA_VERSION, repaired: result.issues });
+  }
+  return result.state;
+}
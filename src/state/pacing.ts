@@ -0,0 +1,165 @@
+import type { DailyLogEntry } from "./appState";
+
+// How much of the daily goal should be drunk by each point of the waking window. A curve
+// is a list of [share of the window, share of the goal] points between the implicit
+// [0, 0] at wake and [1, 1] at sleep, interpolated linearly.
+
+export type PacingPoint = [number, number];
+
+export type PacingProfile = "default" | "linear" | "frontLoaded" | "learned" | "custom";
+
+export type PacingSettings = {
+  profile: PacingProfile;
+  // Kept while another profile is selected, so switching back restores the user's curve.
+  customPoints: PacingPoint[];
+};
+
+export const DEFAULT_PACING_POINTS: PacingPoint[] = [
+  [0.25, 0.3],
+  [0.5, 0.55],
+  [0.7, 0.75],
+  [0.87, 0.9],
+];
+
+export const PACING_OPTIONS: { profile: PacingProfile; label: string; detail: string; points: PacingPoint[] }[] = [
+  { profile: "default", label: "Balanced", detail: "A little ahead early, easing off towards bedtime.", points: DEFAULT_PACING_POINTS },
+  { profile: "linear", label: "Even", detail: "The same amount every hour you’re awake.", points: [] },
+  {
+    profile: "frontLoaded",
+    label: "Early",
+    detail: "Most of your water by mid-afternoon, little late in the evening.",
+    points: [
+      [0.25, 0.4],
+      [0.5, 0.7],
+      [0.75, 0.9],
+    ],
+  },
+  {
+    profile: "learned",
+    label: "Mine",
+    detail: "Learns when you usually drink from your last two weeks, blended with Balanced.",
+    points: DEFAULT_PACING_POINTS,
+  },
+  { profile: "custom", label: "Custom", detail: "Drag the points to shape your own day.", points: DEFAULT_PACING_POINTS },
+];
+
+export const LEARN_DAYS = 14;
+export const MIN_LEARN_DAYS = 3;
+// Even with two full weeks of history, a quarter of the curve stays on the default shape.
+const MAX_LEARNED_WEIGHT = 0.75;
+// Days with less than this in the rhythm windows say little about the user's rhythm.
+const MIN_LEARN_DAY_ML = 250;
+
+export type LearnedPacing = {
+  days: number;
+  // How much of `points` comes from history rather than the default curve.
+  weight: number;
+  // The user's own rhythm, before blending.
+  learnedPoints: PacingPoint[];
+  points: PacingPoint[];
+};
+
+// Smallest gap in time between neighbouring points.
+const MIN_GAP = 0.02;
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function makeDefaultPacing(): PacingSettings {
+  return { profile: "default", customPoints: DEFAULT_PACING_POINTS.map((p) => [...p] as PacingPoint) };
+}
+
+export function pacingPoints(settings: PacingSettings, learned?: LearnedPacing | null): PacingPoint[] {
+  if (settings.profile === "custom") return settings.customPoints;
+  if (settings.profile === "learned" && learned) return learned.points;
+  return (PACING_OPTIONS.find((o) => o.profile === settings.profile) ?? PACING_OPTIONS[0]).points;
+}
+
+// Share of the goal expected after `progress` (0–1) of the waking window.
+export function expectedShare(progress: number, points: PacingPoint[]) {
+  if (progress <= 0) return 0;
+  if (progress >= 1) return 1;
+  let prev: PacingPoint = [0, 0];
+  for (const [t, pct] of [...points, [1, 1] as PacingPoint]) {
+    if (progress <= t) {
+      const span = t - prev[0];
+      const ratio = span ? (progress - prev[0]) / span : 0;
+      return prev[1] + (pct - prev[1]) * ratio;
+    }
+    prev = [t, pct];
+  }
+  return 1;
+}
+
+// Averages each past day's split across the five rhythm windows into a cumulative curve
+// with a point at each window boundary. Today is left out; it's still being drunk.
+export function learnPacing(dailyLog: Record<string, DailyLogEntry>, todayKey: string): LearnedPacing | null {
+  const days = Object.keys(dailyLog || {})
+    .filter((k) => k < todayKey)
+    .sort()
+    .slice(-LEARN_DAYS)
+    .map((k) => dailyLog[k].windowConsumedML)
+    .filter((w) => w.reduce((a, b) => a + b, 0) >= MIN_LEARN_DAY_ML);
+  if (days.length < MIN_LEARN_DAYS) return null;
+
+  const shares = [0, 0, 0, 0, 0];
+  for (const w of days) {
+    const total = w.reduce((a, b) => a + b, 0);
+    w.forEach((ml, i) => (shares[i] += ml / total / days.length));
+  }
+  const weight = Math.min(1, days.length / LEARN_DAYS) * MAX_LEARNED_WEIGHT;
+  const learnedPoints: PacingPoint[] = [];
+  const points: PacingPoint[] = [];
+  let cumulative = 0;
+  for (let i = 0; i < 4; i++) {
+    cumulative += shares[i];
+    const t = (i + 1) / 5;
+    const share = Math.round(cumulative * 100) / 100;
+    learnedPoints.push([t, share]);
+    points.push([t, Math.round((weight * cumulative + (1 - weight) * expectedShare(t, DEFAULT_PACING_POINTS)) * 100) / 100]);
+  }
+  return { days: days.length, weight, learnedPoints, points };
+}
+
+// Moves one point, kept strictly between its neighbours in time and never below the
+// previous share or above the next, so the curve always rises.
+export function movePacingPoint(points: PacingPoint[], index: number, t: number, pct: number): PacingPoint[] {
+  const prev = index > 0 ? points[index - 1] : ([0, 0] as PacingPoint);
+  const next = index < points.length - 1 ? points[index + 1] : ([1, 1] as PacingPoint);
+  const moved: PacingPoint = [
+    Math.round(clamp(t, prev[0] + MIN_GAP, next[0] - MIN_GAP) * 100) / 100,
+    Math.round(clamp(pct, prev[1], next[1]) * 100) / 100,
+  ];
+  return points.map((p, i) => (i === index ? moved : p));
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+// Sorts the points, then drops any that would make the curve fall back or bunch up.
+function sanitizePoints(raw: unknown): PacingPoint[] | null {
+  if (!Array.isArray(raw) || raw.length > 8) return null;
+  const sorted = raw
+    .filter((p): p is PacingPoint => Array.isArray(p) && p.length === 2 && isNum(p[0]) && isNum(p[1]))
+    .sort((a, b) => a[0] - b[0]);
+  const out: PacingPoint[] = [];
+  for (const [t, pct] of sorted) {
+    const prev = out[out.length - 1] ?? [0, 0];
+    if (t < prev[0] + MIN_GAP || t > 1 - MIN_GAP || pct < prev[1] || pct > 1) continue;
+    out.push([t, pct]);
+  }
+  return out.length > 0 ? out : null;
+}
+
+export function repairPacing(raw: unknown, issues: string[]): PacingSettings {
+  const d = makeDefaultPacing();
+  if (raw === undefined) return d;
+  const o = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const profile = PACING_OPTIONS.find((opt) => opt.profile === o.profile)?.profile;
+  const customPoints = sanitizePoints(o.customPoints);
+  const intact = Array.isArray(o.customPoints) && customPoints?.length === o.customPoints.length;
+  if (!profile || !intact) issues.push("pacing");
+  return { profile: profile ?? d.profile, customPoints: customPoints ?? d.customPoints };
+}
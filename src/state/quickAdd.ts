@@ -0,0 +1,96 @@
+import { type BeverageId, isBeverageId } from "./beverages";
+import { type DrinkJournal, effectiveDrinkEvents } from "./journal";
+
+// Quick Add buttons: the user's own presets, plus a "recent" row worked out from what
+// they actually added over the last few weeks.
+
+export type QuickAddPreset = {
+  id: string;
+  label: string;
+  ml: number;
+  beverage: BeverageId;
+  icon: string;
+};
+
+export type RecentDrink = { ml: number; beverage: BeverageId; count: number };
+
+export const MAX_QUICK_ADD_PRESETS = 8;
+export const MIN_QUICK_ADD_ML = 10;
+export const MAX_QUICK_ADD_ML = 2000;
+export const PRESET_ICONS = ["🥛", "🥫", "🧴", "🫗", "☕", "🍵", "🧃", "🥤", "🍺", "🏃"];
+
+// How far back the recent row looks, and how many it shows.
+const RECENT_DAYS = 30;
+const RECENT_LIMIT = 4;
+
+export const DEFAULT_QUICK_ADD_PRESETS: QuickAddPreset[] = [
+  { id: "glass", label: "A glass", ml: 250, beverage: "water", icon: "🥛" },
+  { id: "can", label: "A can", ml: 330, beverage: "water", icon: "🥫" },
+  { id: "small-bottle", label: "A small bottle", ml: 500, beverage: "water", icon: "🧴" },
+  { id: "large-bottle", label: "A large bottle", ml: 750, beverage: "water", icon: "🫗" },
+];
+
+export function makeDefaultQuickAddPresets(): QuickAddPreset[] {
+  return DEFAULT_QUICK_ADD_PRESETS.map((p) => ({ ...p }));
+}
+
+export function addQuickAddPreset(presets: QuickAddPreset[], preset: Omit<QuickAddPreset, "id">): QuickAddPreset[] {
+  if (presets.length >= MAX_QUICK_ADD_PRESETS) return presets;
+  const id = `preset-${Date.now().toString(36)}`;
+  return [...presets, { ...preset, id }];
+}
+
+export function removeQuickAddPreset(presets: QuickAddPreset[], id: string): QuickAddPreset[] {
+  return presets.filter((p) => p.id !== id);
+}
+
+// Most-added Quick Add drinks (beverage and amount) in the last RECENT_DAYS, skipping
+// ones already on a preset. Ties go to the most recently added.
+export function recentQuickAdds(journal: DrinkJournal, presets: QuickAddPreset[], now: number = Date.now()): RecentDrink[] {
+  const since = now - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const tally = new Map<string, RecentDrink & { lastAt: number }>();
+  for (const events of Object.values(journal)) {
+    for (const e of effectiveDrinkEvents(events)) {
+      if (e.source !== "extra" || e.backfilled || e.at < since) continue;
+      const beverage = e.beverage ?? "water";
+      const ml = e.volumeML ?? e.ml;
+      if (ml <= 0) continue;
+      const key = `${beverage}-${ml}`;
+      const t = tally.get(key) ?? { ml, beverage, count: 0, lastAt: 0 };
+      t.count += 1;
+      t.lastAt = Math.max(t.lastAt, e.at);
+      tally.set(key, t);
+    }
+  }
+  return [...tally.values()]
+    .filter((t) => !presets.some((p) => p.beverage === t.beverage && p.ml === t.ml))
+    .sort((a, b) => b.count - a.count || b.lastAt - a.lastAt)
+    .slice(0, RECENT_LIMIT)
+    .map(({ ml, beverage, count }) => ({ ml, beverage, count }));
+}
+
+function repairPreset(v: unknown): QuickAddPreset | null {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) return null;
+  const p = v as Record<string, unknown>;
+  if (typeof p.id !== "string" || !p.id) return null;
+  if (typeof p.ml !== "number" || !Number.isFinite(p.ml) || p.ml < MIN_QUICK_ADD_ML || p.ml > MAX_QUICK_ADD_ML) return null;
+  return {
+    id: p.id,
+    label: typeof p.label === "string" ? p.label.slice(0, 24) : `${Math.round(p.ml)} ml`,
+    ml: Math.round(p.ml),
+    beverage: isBeverageId(p.beverage) ? p.beverage : "water",
+    icon: typeof p.icon === "string" && p.icon ? p.icon : PRESET_ICONS[0],
+  };
+}
+
+export function repairQuickAddPresets(raw: unknown, issues: string[]): QuickAddPreset[] {
+  if (raw === undefined) return makeDefaultQuickAddPresets();
+  if (!Array.isArray(raw)) {
+    issues.push("quickAddPresets");
+    return makeDefaultQuickAddPresets();
+  }
+  const presets = raw.map(repairPreset).filter((p): p is QuickAddPreset => p !== null);
+  const unique = presets.filter((p, i) => presets.findIndex((q) => q.id === p.id) === i).slice(0, MAX_QUICK_ADD_PRESETS);
+  if (unique.length !== raw.length) issues.push("quickAddPresets");
+  return unique;
+}
@@ -0,0 +1,163 @@
+import type { AppState, HistoryEntry } from "./appState";
+import { isBeverageId } from "./beverages";
+import { type DrinkEvent, currentBottleId, effectiveDrinkEvents, isDrinkSource } from "./journal";
+
+// Undo/redo for the live day. `history` is the undo stack; `redo` keeps what undo took
+// off it so the step can be replayed, and is cleared wherever `history` is reset. Window
+// counts follow the journal, so undoing or deleting any entry only has to append its
+// compensating event and fix the bottle.
+
+export type BottleSnapshot = Pick<AppState, "remaining" | "completedBottles" | "carryML" | "extraML">;
+
+export type RedoEntry = {
+  dayKey: string;
+  after: BottleSnapshot;
+  action?: string;
+  ml?: number;
+  event?: Pick<DrinkEvent, "source" | "ml" | "at" | "beverage" | "volumeML">;
+  // For steps from before a bottle switch: the bottle they were taken on and its level
+  // before and after, so redo can put it back and the step stays undoable by amount.
+  switched?: { bottleId: string; prevRemaining: number; remaining: number };
+};
+
+export const MAX_REDO = 50;
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function snapshotOf(s: BottleSnapshot): BottleSnapshot {
+  return {
+    remaining: s.remaining,
+    completedBottles: s.completedBottles,
+    carryML: (s.carryML || 0) as number,
+    extraML: (s.extraML || 0) as number,
+  };
+}
+
+export function snapshotBefore(e: HistoryEntry, fallback: BottleSnapshot): BottleSnapshot {
+  return {
+    remaining: e.prevRemaining,
+    completedBottles: e.prevCompleted,
+    carryML: typeof e.prevCarry === "number" ? e.prevCarry : fallback.carryML,
+    extraML: typeof e.prevExtra === "number" ? e.prevExtra : fallback.extraML,
+  };
+}
+
+function withSnapshotBefore(e: HistoryEntry, snap: BottleSnapshot): HistoryEntry {
+  return { ...e, prevRemaining: snap.remaining, prevCompleted: snap.completedBottles, prevCarry: snap.carryML, prevExtra: snap.extraML };
+}
+
+// Takes `ml` off what was already banked today: finished bottles, then carry.
+function takeFromBanked(snap: BottleSnapshot, ml: number, bottleML: number): BottleSnapshot {
+  const banked = Math.max(0, snap.completedBottles * bottleML + snap.carryML - ml);
+  const completedBottles = Math.min(snap.completedBottles, Math.floor(banked / bottleML));
+  return { ...snap, completedBottles, carryML: Math.round(banked - completedBottles * bottleML) };
+}
+
+// `snap` as if a drink of `ml` had never happened. Quick Add drinks come off the extras;
+// bottle drinks raise the current bottle first, then come off earlier bottles. A drink
+// from another saved bottle (`fromLiveBottle` false) never touches the live level.
+export function withoutDrink(
+  snap: BottleSnapshot,
+  ml: number,
+  source: DrinkEvent["source"],
+  bottleML: number,
+  fromLiveBottle = true
+): BottleSnapshot {
+  if (!(ml > 0)) return snap;
+  if (source === "extra") return { ...snap, extraML: Math.max(0, snap.extraML - ml) };
+  const refillable = fromLiveBottle ? Math.round((1 - snap.remaining) * bottleML) : 0;
+  const raise = Math.min(refillable, ml);
+  const remaining = clamp(snap.remaining + raise / bottleML, 0, 1);
+  return takeFromBanked({ ...snap, remaining }, ml - raise, bottleML);
+}
+
+// When the live bottle changes (switch or resize) today's steps stay undoable: each keeps
+// the bottle it was taken on and is undone by amount from then on.
+export function detachHistory(history: HistoryEntry[], activeBottleId: string): HistoryEntry[] {
+  return history.map((e) => (e.beforeSwitch ? e : { ...e, bottleId: e.bottleId ?? activeBottleId, beforeSwitch: true }));
+}
+
+// Undo for a `beforeSwitch` step: its bottle gets back the level it had, and the drink
+// comes off today's total by amount.
+export function undoSwitchedStep(
+  s: AppState,
+  e: HistoryEntry,
+  event: Pick<DrinkEvent, "ml" | "source"> | null
+): BottleSnapshot & Pick<AppState, "bottles"> {
+  const snap = snapshotOf(s);
+  const ml = event?.ml ?? 0;
+  if (e.action === "extra" || event?.source === "extra") return { ...withoutDrink(snap, ml, "extra", s.bottleML), bottles: s.bottles };
+  const prevRemaining = clamp(e.prevRemaining, 0, 1);
+  if (e.bottleId !== s.activeBottleId) {
+    const bottles = s.bottles.map((b) => (b.id === e.bottleId ? { ...b, remaining: prevRemaining } : b));
+    return { ...withoutDrink(snap, ml, "track", s.bottleML, false), bottles };
+  }
+  const raise = Math.round((prevRemaining - s.remaining) * s.bottleML);
+  return { ...takeFromBanked({ ...snap, remaining: prevRemaining }, ml - raise, s.bottleML), bottles: s.bottles };
+}
+
+// Undo entries after a deleted drink were taken with it included; takes it back out of them.
+export function historyWithoutDrink(history: HistoryEntry[], eventId: string, event: DrinkEvent, s: AppState): HistoryEntry[] {
+  const idx = history.findIndex((e) => e.eventId === eventId);
+  if (idx < 0) return history;
+  const fallback = snapshotOf(s);
+  const live = event.bottleId === currentBottleId(s);
+  return [
+    ...history.slice(0, idx),
+    ...history.slice(idx + 1).map((e) => withSnapshotBefore(e, withoutDrink(snapshotBefore(e, fallback), event.ml, event.source, s.bottleML, live))),
+  ];
+}
+
+// Today's drinks still in effect, newest first.
+export function timelineEvents(events: DrinkEvent[] | undefined): DrinkEvent[] {
+  return effectiveDrinkEvents(events || []).sort((a, b) => b.at - a.at);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function repairRedoEntry(v: unknown): RedoEntry | null {
+  if (!isObject(v) || typeof v.dayKey !== "string" || !isObject(v.after)) return null;
+  const a = v.after;
+  if (!isNum(a.remaining) || !isNum(a.completedBottles) || !isNum(a.carryML) || !isNum(a.extraML)) return null;
+  const e = v.event;
+  const event =
+    isObject(e) && isDrinkSource(e.source) && isNum(e.ml) && isNum(e.at)
+      ? {
+          source: e.source,
+          ml: e.ml,
+          at: e.at,
+          ...(isBeverageId(e.beverage) ? { beverage: e.beverage } : {}),
+          ...(isNum(e.volumeML) ? { volumeML: e.volumeML } : {}),
+        }
+      : null;
+  const sw = v.switched;
+  return {
+    dayKey: v.dayKey,
+    after: { remaining: clamp(a.remaining, 0, 1), completedBottles: a.completedBottles, carryML: a.carryML, extraML: a.extraML },
+    ...(typeof v.action === "string" ? { action: v.action } : {}),
+    ...(isNum(v.ml) ? { ml: v.ml } : {}),
+    ...(event ? { event } : {}),
+    ...(isObject(sw) && typeof sw.bottleId === "string" && isNum(sw.prevRemaining) && isNum(sw.remaining)
+      ? { switched: { bottleId: sw.bottleId, prevRemaining: clamp(sw.prevRemaining, 0, 1), remaining: clamp(sw.remaining, 0, 1) } }
+      : {}),
+  };
+}
+
+export function repairRedoStack(raw: unknown, issues: string[]): RedoEntry[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push("redo");
+    return [];
+  }
+  const out = raw.map(repairRedoEntry).filter((r): r is RedoEntry => r !== null);
+  if (out.length !== raw.length) issues.push("redo");
+  return out.slice(-MAX_REDO);
+}
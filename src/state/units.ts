@@ -0,0 +1,134 @@
+// Display units. Everything is stored in ml and kg; these settings only change what is
+// shown and how typed amounts are read back.
+
+export type VolumeUnit = "ml" | "usFlOz" | "impFlOz";
+export type WeightUnit = "kg" | "lb";
+export type ClockFormat = "12h" | "24h";
+
+export type UnitPrefs = { volume: VolumeUnit; weight: WeightUnit; clock: ClockFormat };
+
+export const VOLUME_UNITS: { id: VolumeUnit; label: string }[] = [
+  { id: "ml", label: "ml / L" },
+  { id: "usFlOz", label: "US fl oz" },
+  { id: "impFlOz", label: "UK fl oz" },
+];
+
+export const WEIGHT_UNITS: { id: WeightUnit; label: string }[] = [
+  { id: "kg", label: "kg" },
+  { id: "lb", label: "lb" },
+];
+
+export const CLOCK_FORMATS: { id: ClockFormat; label: string }[] = [
+  { id: "12h", label: "12-hour" },
+  { id: "24h", label: "24-hour" },
+];
+
+const ML_PER_UNIT: Record<VolumeUnit, number> = { ml: 1, usFlOz: 29.5735, impFlOz: 28.4131 };
+const KG_PER_LB = 0.45359237;
+
+// What the app showed before units were configurable; older saves keep it.
+export const DEFAULT_UNIT_PREFS: UnitPrefs = { volume: "ml", weight: "kg", clock: "12h" };
+
+// Starting units for a new install: US customary in the US, metric elsewhere, and the
+// locale's own clock.
+export function unitPrefsForLocale(locale?: string): UnitPrefs {
+  const us = /^[a-z]{2,3}-(US|LR|MM)\b/i.test(locale ?? "");
+  let clock = DEFAULT_UNIT_PREFS.clock;
+  try {
+    clock = new Intl.DateTimeFormat(locale, { hour: "numeric" }).resolvedOptions().hour12 === false ? "24h" : "12h";
+  } catch {
+    // unknown locale tag
+  }
+  return { volume: us ? "usFlOz" : "ml", weight: us ? "lb" : "kg", clock };
+}
+
+export function volumeUnitLabel(unit: VolumeUnit) {
+  return unit === "ml" ? "ml" : "fl oz";
+}
+
+export function mlToUnit(ml: number, unit: VolumeUnit) {
+  return ml / ML_PER_UNIT[unit];
+}
+
+export function unitToMl(v: number, unit: VolumeUnit) {
+  return Math.round(v * ML_PER_UNIT[unit]);
+}
+
+export function kgToUnit(kg: number, unit: WeightUnit) {
+  return unit === "kg" ? kg : kg / KG_PER_LB;
+}
+
+export function unitToKg(v: number, unit: WeightUnit) {
+  return unit === "kg" ? v : v * KG_PER_LB;
+}
+
+export function formatNumber(v: number, maxDecimals = 0) {
+  return v.toLocaleString(undefined, { maximumFractionDigits: maxDecimals });
+}
+
+// "1,250 ml" or "42.3 fl oz"; `signed` adds a leading + for positive amounts.
+export function formatVolume(ml: number, unit: VolumeUnit, { signed = false }: { signed?: boolean } = {}) {
+  const v = mlToUnit(ml, unit);
+  const sign = signed && v > 0 ? "+" : "";
+  return `${sign}${formatNumber(v, unit === "ml" ? 0 : 1)} ${volumeUnitLabel(unit)}`;
+}
+
+// "1,200 / 2,000 ml": an amount against a target, unit written once.
+export function formatVolumeRatio(ml: number, ofML: number, unit: VolumeUnit) {
+  return `${formatNumber(mlToUnit(ml, unit), unit === "ml" ? 0 : 1)} / ${formatVolume(ofML, unit)}`;
+}
+
+// Compact form for chart bars: litres from 1 L up in metric, whole ounces otherwise.
+export function formatVolumeShort(ml: number, unit: VolumeUnit) {
+  if (unit !== "ml") return `${formatNumber(mlToUnit(ml, unit))}oz`;
+  return ml >= 1000 ? `${formatNumber(ml / 1000, 1)}L` : `${formatNumber(Math.round(ml))}ml`;
+}
+
+// Text-field round trip: what to show for `ml`, which keystrokes to keep, and the ml
+// a typed value stands for (null when it isn't a number).
+export function volumeInputValue(ml: number, unit: VolumeUnit) {
+  if (unit === "ml") return String(Math.round(ml));
+  return String(Math.round(mlToUnit(ml, unit) * 10) / 10);
+}
+
+export function sanitizeVolumeInput(raw: string, unit: VolumeUnit) {
+  if (unit === "ml") return raw.replace(/[^0-9]/g, "").slice(0, 5);
+  const [whole, ...rest] = raw.replace(/[^0-9.]/g, "").split(".");
+  return rest.length > 0 ? `${whole.slice(0, 4)}.${rest.join("").slice(0, 1)}` : whole.slice(0, 4);
+}
+
+export function parseVolumeInput(raw: string, unit: VolumeUnit) {
+  if (raw.trim() === "") return null;
+  const v = Number(raw);
+  return Number.isFinite(v) ? unitToMl(v, unit) : null;
+}
+
+// Wall-clock time in the user's locale, with the chosen 12/24-hour clock.
+export function formatClock(at: number | Date, clock: ClockFormat) {
+  return new Date(at).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit", hour12: clock === "12h" });
+}
+
+// Same, for minutes since midnight (values past 1440 wrap to the next day).
+export function formatClockMins(mins: number, clock: ClockFormat) {
+  const d = new Date(2000, 0, 1, 0, 0, 0, 0);
+  d.setMinutes(((Math.round(mins) % 1440) + 1440) % 1440);
+  return formatClock(d, clock);
+}
+
+export function repairUnitPrefs(raw: unknown, issues: string[]): UnitPrefs {
+  if (raw === undefined) return { ...DEFAULT_UNIT_PREFS };
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    issues.push("units");
+    return { ...DEFAULT_UNIT_PREFS };
+  }
+  const u = raw as Record<string, unknown>;
+  const volume = VOLUME_UNITS.find((x) => x.id === u.volume)?.id;
+  const weight = WEIGHT_UNITS.find((x) => x.id === u.weight)?.id;
+  const clock = CLOCK_FORMATS.find((x) => x.id === u.clock)?.id;
+  if (!volume || !weight || !clock) issues.push("units");
+  return {
+    volume: volume ?? DEFAULT_UNIT_PREFS.volume,
+    weight: weight ?? DEFAULT_UNIT_PREFS.weight,
+    clock: clock ?? DEFAULT_UNIT_PREFS.clock,
+  };
+}
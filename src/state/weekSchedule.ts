@@ -0,0 +1,81 @@
+import { dateFromDayKey } from "./dayKeys";
+
+// Wake and sleep times that differ by day of the week. `wakeMins`/`sleepMins` stay the
+// everyday times; `weekSchedule` holds an override per weekday, Sunday first like
+// Date.getDay(), with null meaning "same as every day".
+
+export type DayWindow = { wakeMins: number; sleepMins: number };
+
+export type WeekSchedule = (DayWindow | null)[];
+
+export type SchedulePreset = "same" | "weekend" | "custom";
+
+type ScheduleFields = { wakeMins: number; sleepMins: number; weekSchedule?: WeekSchedule };
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const WEEKEND = [0, 6];
+
+export function makeDefaultWeekSchedule(): WeekSchedule {
+  return [null, null, null, null, null, null, null];
+}
+
+export function windowForWeekday(s: ScheduleFields, weekday: number): DayWindow {
+  const override = (s.weekSchedule || [])[weekday];
+  return override ?? { wakeMins: s.wakeMins, sleepMins: s.sleepMins };
+}
+
+export function windowForDayKey(s: ScheduleFields, key: string): DayWindow {
+  return windowForWeekday(s, dateFromDayKey(key).getDay());
+}
+
+// One entry per weekday, for the day-key and notification helpers.
+export function wakeTimes(s: ScheduleFields) {
+  return WEEKDAY_LABELS.map((_, i) => windowForWeekday(s, i).wakeMins);
+}
+
+export function sleepTimes(s: ScheduleFields) {
+  return WEEKDAY_LABELS.map((_, i) => windowForWeekday(s, i).sleepMins);
+}
+
+export function schedulePreset(week: WeekSchedule): SchedulePreset {
+  if (week.every((d) => d === null)) return "same";
+  const [sun, sat] = [week[0], week[6]];
+  const weekdaysSame = week.slice(1, 6).every((d) => d === null);
+  if (weekdaysSame && sun && sat && sun.wakeMins === sat.wakeMins && sun.sleepMins === sat.sleepMins) return "weekend";
+  return "custom";
+}
+
+// Weekends get `weekend`; every other day follows the everyday times.
+export function weekendSchedule(weekend: DayWindow): WeekSchedule {
+  return makeDefaultWeekSchedule().map((_, i) => (WEEKEND.includes(i) ? { ...weekend } : null));
+}
+
+// Sleep before wake means after midnight; stored as minutes past the wake day's midnight.
+export function normalizeDayWindow(wakeMins: number, sleepMins: number): DayWindow {
+  const wake = ((Math.round(wakeMins) % 1440) + 1440) % 1440;
+  const sleep = ((Math.round(sleepMins) % 1440) + 1440) % 1440;
+  return { wakeMins: wake, sleepMins: sleep <= wake ? sleep + 1440 : sleep };
+}
+
+function isMins(v: unknown, max: number): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= max;
+}
+
+export function repairWeekSchedule(raw: unknown, issues: string[]): WeekSchedule {
+  const d = makeDefaultWeekSchedule();
+  if (raw === undefined) return d;
+  if (!Array.isArray(raw) || raw.length !== 7) {
+    issues.push("weekSchedule");
+    return d;
+  }
+  return raw.map((v) => {
+    if (v === null) return null;
+    const o = typeof v === "object" && v !== null ? (v as Record<string, unknown>) : {};
+    if (!isMins(o.wakeMins, 1439) || !isMins(o.sleepMins, 2879)) {
+      issues.push("weekSchedule");
+      return null;
+    }
+    return { wakeMins: Math.round(o.wakeMins), sleepMins: Math.round(o.sleepMins) };
+  });
+}